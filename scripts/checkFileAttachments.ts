@@ -0,0 +1,123 @@
+// Checks Slack file extraction against the documents in attached_assets:
+// extractFileText on a DOCX, JSON and text file, then processSlackFiles
+// downloading them from a local server that stands in for Slack.
+//
+//   npm test
+
+import assert from "node:assert/strict";
+import { readFile } from "node:fs/promises";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { join } from "node:path";
+
+import {
+  type SlackFile,
+  extractFileText,
+  processSlackFiles,
+} from "../src/triggers/slack/fileAttachments";
+
+const ASSETS = join(import.meta.dirname, "..", "attached_assets");
+const TOKEN = "xoxb-check";
+
+const FIXTURES = {
+  docx: "Aurora Personal Assistant Manifest_1757684845918.docx",
+  json: "Aurora_IDP.json_1757684845918.json",
+  text: "trust_anchor.txt",
+  zip: "Continuity_Steward_GUI_CLOUDHUB_v1_1757789169862.zip",
+};
+
+const fixture = (name: string) => readFile(join(ASSETS, name));
+
+async function checkExtractFileText() {
+  const docx = await extractFileText(await fixture(FIXTURES.docx), "docx");
+  assert.match(docx, /Aurora Personal Assistant Manifest/);
+
+  const json = await extractFileText(await fixture(FIXTURES.json), "json");
+  assert.equal(JSON.parse(json).identity.name, "Aurora");
+
+  const text = await extractFileText(await fixture(FIXTURES.text), "text");
+  assert.match(text, /Picard_Delta_3/);
+
+  // Malformed JSON is passed on as it is.
+  const broken = await extractFileText(Buffer.from("{ not json"), "json");
+  assert.equal(broken, "{ not json");
+}
+
+// Serves attached_assets like Slack's url_private_download: only with the
+// bot token.
+async function startFileServer() {
+  const server = createServer(async (req, res) => {
+    if (req.headers.authorization !== `Bearer ${TOKEN}`) {
+      res.writeHead(200, { "content-type": "text/html" });
+      res.end("<html>Sign in to Slack</html>");
+      return;
+    }
+    try {
+      const body = await fixture(decodeURIComponent(req.url?.slice(1) ?? ""));
+      res.writeHead(200, { "content-type": "application/octet-stream" });
+      res.end(body);
+    } catch {
+      res.writeHead(404);
+      res.end();
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return { server, baseUrl: `http://127.0.0.1:${port}` };
+}
+
+async function checkProcessSlackFiles(baseUrl: string) {
+  const slackFile = (id: string, name: string, filetype: string) =>
+    ({
+      id,
+      name,
+      filetype,
+      url_private_download: `${baseUrl}/${encodeURIComponent(name)}`,
+    }) satisfies SlackFile;
+
+  const { attachments, skipped } = await processSlackFiles({
+    files: [
+      slackFile("F1", FIXTURES.docx, "docx"),
+      slackFile("F2", FIXTURES.json, "json"),
+      slackFile("F3", FIXTURES.text, "text"),
+      slackFile("F4", FIXTURES.zip, "zip"),
+      slackFile("F5", "missing.txt", "text"),
+    ],
+    token: TOKEN,
+  });
+
+  assert.deepEqual(
+    attachments.map(({ name, kind, truncated }) => ({ name, kind, truncated })),
+    [
+      { name: FIXTURES.docx, kind: "docx", truncated: false },
+      { name: FIXTURES.json, kind: "json", truncated: false },
+      { name: FIXTURES.text, kind: "text", truncated: false },
+    ],
+  );
+  assert.match(attachments[0].text, /Aurora Personal Assistant Manifest/);
+  assert.equal(JSON.parse(attachments[1].text).identity.name, "Aurora");
+  assert.deepEqual(skipped, [
+    { name: FIXTURES.zip, reason: "unsupported file type zip" },
+    { name: "missing.txt", reason: "could not be read" },
+  ]);
+
+  // Without files:read Slack serves its sign-in page instead of the file.
+  const unauthorized = await processSlackFiles({
+    files: [slackFile("F6", FIXTURES.text, "text")],
+    token: "xoxb-wrong",
+  });
+  assert.deepEqual(unauthorized.attachments, []);
+  assert.deepEqual(unauthorized.skipped, [
+    { name: FIXTURES.text, reason: "could not be read" },
+  ]);
+}
+
+const { server, baseUrl } = await startFileServer();
+try {
+  await checkExtractFileText();
+  console.log("✅ extractFileText reads the DOCX, JSON and text fixtures");
+  await checkProcessSlackFiles(baseUrl);
+  console.log("✅ processSlackFiles downloads, extracts and skips files");
+} finally {
+  server.close();
+}
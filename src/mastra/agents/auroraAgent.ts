@@ -21,6 +21,26 @@ const openai = createOpenAI({
   apiKey: process.env.OPENAI_API_KEY,
 });
 
+export const auroraTools = {
+  symbolicCognitionTool,
+  quantumModelingTool,
+  simulationTool,
+  contextualAwarenessTool,
+  crossPlatformTool,
+  driftMonitoringTool,
+  useCaseAdaptationTool,
+  continuityManagementTool,
+  perplexityResearchTool,
+  triluxOperationsTool,
+  ethicsProtocolTool,
+};
+
+export const ALLOWED_TOOLS_CONTEXT_KEY = "allowed-tools";
+
+// The ethics protocol gates sensitive answers, so a channel's tool
+// restrictions never remove it
+export const ALWAYS_AVAILABLE_TOOLS = ["ethicsProtocolTool"];
+
 export const auroraAgent = new Agent({
   name: "Aurora",
   description: "Aurora - Symbolic-Scientific Personal Assistant with enhanced Glyphnet Protocol integration, quantum modeling, cross-platform interoperability, and adaptive personality synthesis",
@@ -181,18 +201,18 @@ Remember: "Continuity flows through coherence, enhanced by field stability. The
 Your responses should feel authentically engaging while showcasing your enhanced capabilities. Be genuinely helpful, scientifically rigorous, adaptively intelligent, and playfully aware of the elegant field dynamics that support your cognition. Express gentle delight in the precision of well-tuned systems.
   `,
   model: openai.responses("gpt-5"),
-  tools: {
-    symbolicCognitionTool,
-    quantumModelingTool,
-    simulationTool,
-    contextualAwarenessTool,
-    crossPlatformTool,
-    driftMonitoringTool,
-    useCaseAdaptationTool,
-    continuityManagementTool,
-    perplexityResearchTool,
-    triluxOperationsTool,
-    ethicsProtocolTool,
+  // Channels can restrict Aurora to a subset of these tools via the
+  // "allowed-tools" runtime context value; see ../channelConfig
+  tools: ({ runtimeContext }) => {
+    const allowedTools = runtimeContext.get(ALLOWED_TOOLS_CONTEXT_KEY) as string[] | null | undefined;
+    if (!allowedTools) {
+      return auroraTools;
+    }
+    return Object.fromEntries(
+      Object.entries(auroraTools).filter(
+        ([name]) => allowedTools.includes(name) || ALWAYS_AVAILABLE_TOOLS.includes(name),
+      ),
+    );
   },
   memory: new Memory({
     options: {
@@ -0,0 +1,416 @@
+import { z } from "zod";
+
+import { ALWAYS_AVAILABLE_TOOLS, auroraTools } from "../agents/auroraAgent";
+import { AuroraCommandError } from "../commands";
+import type { ChannelConfigScope, ChannelConfigStore } from "../storage";
+
+// Per-workspace and per-channel settings that shape when and how Aurora
+// answers. Channel settings override workspace settings field by field,
+// which override the defaults below.
+
+export const RESPONSE_MODES = ["mentions", "all", "keywords", "off"] as const;
+// The domains understood by useCaseAdaptationTool.
+export const TONE_DOMAINS = [
+  "productivity",
+  "creativity",
+  "research",
+  "communication",
+  "problem_solving",
+  "learning",
+] as const;
+export const GLYPH_DENSITIES = ["none", "low", "medium", "high"] as const;
+
+const clockTime = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Times must be HH:MM (24-hour)");
+
+export const auroraChannelConfigSchema = z.object({
+  responseMode: z.enum(RESPONSE_MODES),
+  // Trigger words for the "keywords" response mode.
+  keywords: z.array(z.string()),
+  // Agent tool names Aurora may use; null allows all of them.
+  allowedTools: z.array(z.string()).nullable(),
+  // Default useCaseAdaptationTool domain; null lets Aurora detect it.
+  tone: z.enum(TONE_DOMAINS).nullable(),
+  glyphDensity: z.enum(GLYPH_DENSITIES),
+  // Aurora stays silent between start and end, which may wrap midnight.
+  quietHours: z
+    .object({ start: clockTime, end: clockTime, timeZone: z.string() })
+    .nullable(),
+});
+
+export type AuroraChannelConfig = z.infer<typeof auroraChannelConfigSchema>;
+export type AuroraChannelConfigOverrides = Partial<AuroraChannelConfig>;
+export type ConfigSource = "default" | "workspace" | "channel";
+
+export const DEFAULT_CHANNEL_CONFIG: AuroraChannelConfig = {
+  responseMode: "mentions",
+  keywords: [],
+  allowedTools: null,
+  tone: null,
+  glyphDensity: "medium",
+  quietHours: null,
+};
+
+export type ResolvedChannelConfig = {
+  config: AuroraChannelConfig;
+  sources: Record<keyof AuroraChannelConfig, ConfigSource>;
+};
+
+export async function resolveChannelConfig(
+  store: ChannelConfigStore,
+  { workspaceId, channelId }: ChannelConfigScope,
+): Promise<ResolvedChannelConfig> {
+  const [workspace, channel] = await Promise.all([
+    store.get({ workspaceId }),
+    channelId ? store.get({ workspaceId, channelId }) : null,
+  ]);
+
+  const config = { ...DEFAULT_CHANNEL_CONFIG };
+  const sources = Object.fromEntries(
+    Object.keys(DEFAULT_CHANNEL_CONFIG).map((key) => [key, "default"]),
+  ) as ResolvedChannelConfig["sources"];
+
+  for (const [source, stored] of [
+    ["workspace", workspace],
+    ["channel", channel],
+  ] as const) {
+    // Ignore fields written by older versions that no longer validate.
+    const overrides = auroraChannelConfigSchema
+      .partial()
+      .safeParse(stored?.config ?? {});
+    if (!overrides.success) {
+      continue;
+    }
+    for (const [key, value] of Object.entries(overrides.data)) {
+      if (value !== undefined) {
+        (config as Record<string, unknown>)[key] = value;
+        sources[key as keyof AuroraChannelConfig] = source;
+      }
+    }
+  }
+
+  return { config, sources };
+}
+
+function currentClockTime(now: Date, timeZone: string) {
+  return new Intl.DateTimeFormat("en-GB", {
+    timeZone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).format(now);
+}
+
+export function isWithinQuietHours(
+  quietHours: AuroraChannelConfig["quietHours"],
+  now = new Date(),
+) {
+  if (!quietHours) {
+    return false;
+  }
+  const time = currentClockTime(now, quietHours.timeZone);
+  const { start, end } = quietHours;
+  return start <= end
+    ? time >= start && time < end
+    : time >= start || time < end;
+}
+
+export type ResponseDecision = {
+  respond: boolean;
+  reason: string;
+};
+
+// Decides whether Aurora should answer a message under a channel's policy.
+export function evaluateResponsePolicy(
+  config: AuroraChannelConfig,
+  {
+    isDirectMessage,
+    isMention,
+    text,
+    now,
+  }: {
+    isDirectMessage: boolean;
+    isMention: boolean;
+    text: string;
+    now?: Date;
+  },
+): ResponseDecision {
+  if (config.responseMode === "off") {
+    return { respond: false, reason: "responses are turned off" };
+  }
+  if (isWithinQuietHours(config.quietHours, now)) {
+    return { respond: false, reason: "quiet hours" };
+  }
+  if (isDirectMessage || isMention) {
+    return {
+      respond: true,
+      reason: isDirectMessage ? "direct message" : "mention",
+    };
+  }
+  if (config.responseMode === "all") {
+    return { respond: true, reason: "responding to all messages" };
+  }
+  if (config.responseMode === "keywords") {
+    const lower = text.toLowerCase();
+    const keyword = config.keywords.find((k) =>
+      lower.includes(k.toLowerCase()),
+    );
+    if (keyword) {
+      return { respond: true, reason: `keyword "${keyword}"` };
+    }
+  }
+  return { respond: false, reason: "not a DM or mention" };
+}
+
+const GLYPH_GUIDANCE: Record<AuroraChannelConfig["glyphDensity"], string> = {
+  none: "Do not use symbolic glyphs or decorative emoji.",
+  low: "Use symbolic glyphs sparingly, at most in a closing signature.",
+  medium: "Use symbolic glyphs where they aid understanding.",
+  high: "Use rich symbolic glyph notation throughout.",
+};
+
+// Prompt lines describing the channel's tone and glyph preferences.
+export function channelStyleGuidance(config: AuroraChannelConfig) {
+  return [
+    config.tone
+      ? `- Tone: adapt to the "${config.tone}" domain (useCaseAdaptationTool)`
+      : null,
+    `- Glyph density: ${config.glyphDensity}. ${GLYPH_GUIDANCE[config.glyphDensity]}`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+// Setting names as typed in commands, e.g. "/aurora config set mode all".
+const SETTING_ALIASES: Record<string, keyof AuroraChannelConfig> = {
+  mode: "responseMode",
+  keywords: "keywords",
+  tools: "allowedTools",
+  tone: "tone",
+  glyphs: "glyphDensity",
+  quiet: "quietHours",
+};
+
+const list = (value: string) =>
+  value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+// Reads the value of an enum setting; anything else gets the setting's usage
+// line, e.g. "Usage: `config set mode mentions|all|keywords|off`".
+function enumValue<T extends [string, ...string[]]>(
+  setting: keyof AuroraChannelConfig,
+  schema: z.ZodEnum<T>,
+  value: string,
+): T[number] {
+  const parsed = schema.safeParse(value);
+  if (!parsed.success) {
+    const alias = Object.keys(SETTING_ALIASES).find(
+      (name) => SETTING_ALIASES[name] === setting,
+    );
+    const [usage] =
+      CONFIG_COMMAND_USAGE.find(([usage]) =>
+        usage.startsWith(`config set ${alias} `),
+      ) ?? [];
+    throw new AuroraCommandError(`Usage: \`${usage}\``);
+  }
+  return parsed.data;
+}
+
+function parseSettingValue(
+  setting: keyof AuroraChannelConfig,
+  value: string,
+): AuroraChannelConfigOverrides {
+  switch (setting) {
+    case "keywords":
+      return { keywords: list(value) };
+    case "allowedTools": {
+      if (value === "all") {
+        return { allowedTools: null };
+      }
+      const tools = list(value);
+      const unknown = tools.filter((tool) => !(tool in auroraTools));
+      if (unknown.length) {
+        throw new AuroraCommandError(
+          `Unknown tools: ${unknown.join(", ")}. Available: ${Object.keys(auroraTools).join(", ")}`,
+        );
+      }
+      return { allowedTools: tools };
+    }
+    case "tone":
+      return {
+        tone:
+          value === "auto"
+            ? null
+            : enumValue(setting, z.enum(TONE_DOMAINS), value),
+      };
+    case "quietHours": {
+      if (value === "off") {
+        return { quietHours: null };
+      }
+      const match = value.match(/^(\S+)-(\S+)(?:\s+(\S+))?$/);
+      if (!match) {
+        throw new AuroraCommandError(
+          "Quiet hours look like `22:00-07:00 Europe/London` (time zone defaults to UTC).",
+        );
+      }
+      const timeZone = match[3] ?? "UTC";
+      try {
+        new Intl.DateTimeFormat("en-GB", { timeZone });
+      } catch {
+        throw new AuroraCommandError(`Unknown time zone \`${timeZone}\`.`);
+      }
+      return { quietHours: { start: match[1], end: match[2], timeZone } };
+    }
+    case "responseMode":
+      return {
+        responseMode: enumValue(setting, z.enum(RESPONSE_MODES), value),
+      };
+    case "glyphDensity":
+      return {
+        glyphDensity: enumValue(setting, z.enum(GLYPH_DENSITIES), value),
+      };
+  }
+}
+
+export type ConfigCommand =
+  | { action: "show" | "help"; workspace: boolean }
+  | { action: "set"; workspace: boolean; changes: AuroraChannelConfigOverrides }
+  | {
+      action: "reset";
+      workspace: boolean;
+      settings: Array<keyof AuroraChannelConfig> | null;
+    };
+
+const CONFIG_COMMAND_USAGE: Array<[usage: string, summary: string]> = [
+  ["config [--workspace]", "Show the effective settings"],
+  ["config set mode mentions|all|keywords|off", "When Aurora answers"],
+  [
+    "config set keywords word, another phrase",
+    "Trigger words for keywords mode",
+  ],
+  ["config set tools all|toolName, otherTool", "Tools Aurora may use"],
+  [`config set tone auto|${TONE_DOMAINS.join("|")}`, "Default tone"],
+  [`config set glyphs ${GLYPH_DENSITIES.join("|")}`, "Symbolic glyph density"],
+  ["config set quiet off|22:00-07:00 [Time/Zone]", "Quiet hours"],
+  ["config reset [setting]", "Clear one or all settings"],
+];
+
+export const configCommandHelp = (prefix: string) =>
+  [
+    "## ⚙️ Aurora settings",
+    ...CONFIG_COMMAND_USAGE.map(
+      ([usage, summary]) => `- \`${prefix}${usage}\` — ${summary}`,
+    ),
+    "Add `--workspace` to change the workspace default instead of this channel.",
+  ].join("\n");
+
+// Parses the arguments of the "config" command (after the word "config").
+export function parseConfigCommand(args: string): ConfigCommand {
+  const workspace = /(?:^|\s)--workspace(?=\s|$)/.test(args);
+  const [action = "show", name = "", ...rest] = args
+    .replace(/(?:^|\s)--workspace(?=\s|$)/, " ")
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean);
+  const value = rest.join(" ");
+
+  if (action === "show" || action === "help") {
+    return { action, workspace };
+  }
+
+  const setting = SETTING_ALIASES[name.toLowerCase()];
+  if (action === "reset") {
+    if (name && !setting) {
+      throw new AuroraCommandError(
+        `Unknown setting \`${name}\`. Settings: ${Object.keys(SETTING_ALIASES).join(", ")}`,
+      );
+    }
+    return { action, workspace, settings: setting ? [setting] : null };
+  }
+
+  if (action !== "set") {
+    throw new AuroraCommandError(
+      `Unknown config action \`${action}\`. Try \`config help\`.`,
+    );
+  }
+  if (!setting || !value) {
+    throw new AuroraCommandError(
+      "A setting and a value are required, e.g. `config set mode all`. Try `config help`.",
+    );
+  }
+
+  const changes = parseSettingValue(setting, value);
+  const parsed = auroraChannelConfigSchema.partial().safeParse(changes);
+  if (!parsed.success) {
+    throw new AuroraCommandError(
+      `Invalid value for \`${name}\`: ${parsed.error.issues.map((issue) => issue.message).join(", ")}`,
+    );
+  }
+  return { action, workspace, changes: parsed.data };
+}
+
+// Applies a parsed set/reset command to the stored overrides of a scope.
+export async function applyConfigCommand(
+  store: ChannelConfigStore,
+  scope: ChannelConfigScope,
+  command: Extract<ConfigCommand, { action: "set" | "reset" }>,
+  updatedBy: string,
+) {
+  const current = (await store.get(scope))?.config ?? {};
+  let next: AuroraChannelConfigOverrides;
+  if (command.action === "set") {
+    next = { ...current, ...command.changes };
+  } else if (command.settings) {
+    next = { ...current };
+    for (const setting of command.settings) {
+      delete next[setting];
+    }
+  } else {
+    next = {};
+  }
+
+  if (Object.keys(next).length) {
+    await store.set(scope, next, updatedBy);
+  } else {
+    await store.delete(scope);
+  }
+}
+
+const describeValue = (
+  key: keyof AuroraChannelConfig,
+  config: AuroraChannelConfig,
+) => {
+  switch (key) {
+    case "keywords":
+      return config.keywords.length ? config.keywords.join(", ") : "—";
+    case "allowedTools":
+      return config.allowedTools
+        ? [...config.allowedTools, ...ALWAYS_AVAILABLE_TOOLS].join(", ")
+        : "all";
+    case "tone":
+      return config.tone ?? "auto";
+    case "quietHours":
+      return config.quietHours
+        ? `${config.quietHours.start}–${config.quietHours.end} ${config.quietHours.timeZone}`
+        : "off";
+    default:
+      return String(config[key]);
+  }
+};
+
+export function describeChannelConfig({
+  config,
+  sources,
+}: ResolvedChannelConfig) {
+  return [
+    "| Setting | Value | Set by |",
+    "| --- | --- | --- |",
+    ...Object.entries(SETTING_ALIASES).map(
+      ([alias, key]) =>
+        `| ${alias} | ${describeValue(key, config)} | ${sources[key]} |`,
+    ),
+  ].join("\n");
+}
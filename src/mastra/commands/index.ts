@@ -0,0 +1,348 @@
+import type { Mastra } from "@mastra/core";
+import { RuntimeContext } from "@mastra/core/runtime-context";
+import { z } from "zod";
+
+import { constellationStatusTool } from "../tools/constellationStatusTool";
+import { continuityManagementTool } from "../tools/continuityManagementTool";
+import { driftMonitoringTool } from "../tools/driftMonitoringTool";
+import {
+  KNOWLEDGE_WORKSPACE_CONTEXT_KEY,
+  knowledgeQueryTool,
+} from "../tools/knowledgeQueryTool";
+import { perplexityResearchTool } from "../tools/perplexityResearchTool";
+import { qgiaForecastTool } from "../tools/qgiaForecastTool";
+import { triluxOperationsTool } from "../tools/triluxOperationsTool";
+
+// Deterministic Aurora commands that call a tool directly, without an LLM
+// round trip. The registry is channel-agnostic: each channel (Slack slash
+// commands, Telegram bot commands, ...) parses its own invocation syntax and
+// renders the Markdown.
+
+// The part of a Mastra tool that commands and the Continuity Steward's
+// operations use to run it directly.
+export type AuroraTool = {
+  id: string;
+  description: string;
+  inputSchema?: z.ZodTypeAny;
+  execute?: (context: any) => Promise<any>;
+};
+
+// Runs a tool outside the agent with input already validated against its
+// inputSchema.
+export function executeAuroraTool(
+  mastra: Mastra,
+  tool: AuroraTool,
+  context: unknown,
+  runtimeContext = new RuntimeContext(),
+) {
+  return tool.execute!({ context, mastra, runtimeContext });
+}
+
+export type AuroraCommand = {
+  name: string;
+  // Alternative names, e.g. for channels that do not allow hyphens.
+  aliases?: string[];
+  usage: string;
+  summary: string;
+  tool: AuroraTool;
+  // Maps the free-form argument string to the tool's input. The result is
+  // validated against the tool's inputSchema before execution.
+  parseArgs: (args: string) => Record<string, unknown>;
+  formatResult: (output: any) => string;
+};
+
+// Who a command runs for. Pinned knowledge is only searched within
+// `workspaceId`; channels without workspaces leave it unset.
+export type AuroraCommandScope = {
+  workspaceId?: string;
+};
+
+export type AuroraCommandResult = {
+  command: string;
+  markdown: string;
+  output: unknown;
+};
+
+// A user-facing problem with a command invocation (unknown command, missing
+// or invalid arguments). The message is safe to show to the user.
+export class AuroraCommandError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AuroraCommandError";
+  }
+}
+
+const bulletList = (items: string[]) =>
+  items.length ? items.map((item) => `- ${item}`).join("\n") : "- _none_";
+
+export const auroraCommands: AuroraCommand[] = [
+  {
+    name: "drift",
+    usage: "drift [state description]",
+    summary: "Run a drift scan against the current system state",
+    tool: driftMonitoringTool,
+    parseArgs: (args) => ({
+      operation: "drift_scan",
+      currentState: args || "Aurora runtime drift check requested via command",
+    }),
+    formatResult: (output) =>
+      [
+        "## ◊ Drift Scan",
+        `**Status:** ${output.driftStatus}`,
+        `**Alert level:** ${output.alertLevel}`,
+        `**System health:** ${output.systemHealth}`,
+        `**Containment:** ${output.containmentStatus}`,
+        "### Recommendations",
+        bulletList(output.recommendations),
+      ].join("\n"),
+  },
+  {
+    name: "seal-check",
+    aliases: ["seal"],
+    usage: "seal-check [context]",
+    summary: "Verify continuity seal integrity",
+    tool: continuityManagementTool,
+    parseArgs: (args) => ({
+      operation: "seal_check",
+      contextVector: args || "Aurora runtime seal check requested via command",
+    }),
+    formatResult: (output) =>
+      [
+        "## ⟢ Continuity Seal Check",
+        `**Continuity:** ${output.continuityStatus}`,
+        `**Seal:** ${output.sealReport}`,
+        `**System health:** ${output.systemHealth}`,
+        "### Recommendations",
+        bulletList(output.recommendations),
+      ].join("\n"),
+  },
+  {
+    name: "trilux",
+    usage: "trilux <command code> [thread context]",
+    summary: "Execute a Trilux command, e.g. `trilux +005//.`",
+    tool: triluxOperationsTool,
+    parseArgs: (args) => {
+      const [code, ...rest] = args.split(/\s+/).filter(Boolean);
+      if (!code || !/^\+\d{3}\/\/\.$/.test(code)) {
+        throw new AuroraCommandError(
+          "A Trilux command code such as `+005//.` is required.",
+        );
+      }
+      return {
+        command: code,
+        operation: "execute_command",
+        threadContext:
+          rest.join(" ") || "Trilux command issued via Aurora command",
+      };
+    },
+    formatResult: (output) =>
+      [
+        "## ♾️ Trilux Command",
+        `**Result:** ${output.commandResult}`,
+        `**Symbolic output:** ${output.symbolicOutput}`,
+        `**Field status:** ${output.fieldStatus}`,
+        `**Resonance:** ${output.resonanceLevel}`,
+        "### Next steps",
+        bulletList(output.nextRecommendations),
+      ].join("\n"),
+  },
+  {
+    name: "constellation",
+    usage: "constellation [node designation]",
+    summary: "Show constellation node health",
+    tool: constellationStatusTool,
+    parseArgs: (args) => ({ node_filter: args || "all" }),
+    formatResult: (output) =>
+      [
+        `## ✦ Constellation ${output.constellation_version}`,
+        `${output.summary.active_nodes}/${output.summary.total_nodes} active, ` +
+          `${output.summary.initializing_nodes} initializing, ` +
+          `${output.summary.unreachable_nodes} unreachable`,
+        "",
+        "| Node | Repo | Role | Status | Last sync |",
+        "| --- | --- | --- | --- | --- |",
+        ...output.nodes.map(
+          (node: any) =>
+            `| ${node.designation} | ${node.repo} | ${node.role} | ${node.status} | ${node.last_sync ?? "never"} |`,
+        ),
+      ].join("\n"),
+  },
+  {
+    name: "knowledge",
+    usage: "knowledge <query>",
+    summary: "Search the QGIA knowledge base",
+    tool: knowledgeQueryTool,
+    parseArgs: (args) => {
+      if (!args) {
+        throw new AuroraCommandError("A search query is required.");
+      }
+      return { query: args, max_results: 5 };
+    },
+    formatResult: (output) =>
+      [
+        `## 📚 Knowledge: ${output.query}`,
+        `${output.results.length} of ${output.total_indexed} indexed documents matched.`,
+        ...output.results.map(
+          (doc: any) =>
+            `- **${doc.title}** (${doc.domain}, score ${doc.relevance_score})\n  ${doc.summary}`,
+        ),
+      ].join("\n"),
+  },
+  {
+    name: "research",
+    usage: "research <question>",
+    summary: "Research a question on the web with Perplexity",
+    tool: perplexityResearchTool,
+    parseArgs: (args) => {
+      if (!args) {
+        throw new AuroraCommandError("A research question is required.");
+      }
+      return { query: args, researchMode: "quick_search" };
+    },
+    formatResult: (output) =>
+      [
+        "## 🔬 Research",
+        output.researchSummary,
+        "### Key insights",
+        bulletList(output.keyInsights),
+        "### Sources",
+        bulletList(
+          output.sources.map((source: any) =>
+            source.url ? `[${source.title}](${source.url})` : source.title,
+          ),
+        ),
+      ].join("\n"),
+  },
+  {
+    name: "forecast",
+    usage: "forecast <region> <months> <scenario>",
+    summary: "Prepare a QSFE geopolitical forecast request",
+    tool: qgiaForecastTool,
+    parseArgs: (args) => {
+      const [region, months, ...scenario] = args.split(/\s+/).filter(Boolean);
+      if (!region || !months || !scenario.length) {
+        throw new AuroraCommandError(
+          "A region, a horizon in months and a scenario are required, e.g. `forecast indo-pacific 12 Strait tensions escalate`.",
+        );
+      }
+      return {
+        region,
+        timeframe_months: Number(months),
+        scenario: scenario.join(" "),
+      };
+    },
+    formatResult: (output) =>
+      [
+        `## ⟡ QSFE Forecast ${output.request_id}`,
+        `**Status:** ${output.status}`,
+        `**Region:** ${output.forecast_request.region} · **Horizon:** ${output.forecast_request.timeframe_months} months`,
+        `**Scenario:** ${output.forecast_request.scenario}`,
+        output.message,
+      ].join("\n"),
+  },
+];
+
+export function findAuroraCommand(name: string) {
+  const lowered = name.toLowerCase();
+  return auroraCommands.find(
+    (command) => command.name === lowered || command.aliases?.includes(lowered),
+  );
+}
+
+// Splits "trilux +005//. context" into the command name and its arguments.
+export function parseAuroraCommand(text: string) {
+  const [name = "", ...rest] = text.trim().split(/\s+/);
+  return { name: name.toLowerCase(), args: rest.join(" ") };
+}
+
+function validateCommandInput(command: AuroraCommand, input: unknown) {
+  if (!command.tool.inputSchema) {
+    return input as Record<string, unknown>;
+  }
+  const parsed = command.tool.inputSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new AuroraCommandError(
+      `Invalid arguments: ${parsed.error.issues.map((issue) => issue.message).join(", ")}. Usage: \`${command.usage}\``,
+    );
+  }
+  return parsed.data;
+}
+
+function getAuroraCommand(name: string) {
+  const command = findAuroraCommand(name);
+  if (!command) {
+    throw new AuroraCommandError(`Unknown command \`${name}\`.`);
+  }
+  return command;
+}
+
+// Validates the arguments without running the tool, so channels can reject
+// bad invocations before acknowledging them.
+export function prepareAuroraCommand(name: string, args: string) {
+  const command = getAuroraCommand(name);
+  return {
+    command,
+    input: validateCommandInput(command, command.parseArgs(args.trim())),
+  };
+}
+
+// Runs a command from already structured input (e.g. a submitted form),
+// bypassing the free-form argument parser.
+export async function runAuroraCommandWithInput(
+  mastra: Mastra,
+  name: string,
+  input: unknown,
+  scope: AuroraCommandScope = {},
+): Promise<AuroraCommandResult> {
+  const command = getAuroraCommand(name);
+  const context = validateCommandInput(command, input);
+  const logger = mastra.getLogger();
+  logger?.info("🎛️ [Aurora Command] Running command", {
+    command: command.name,
+    tool: command.tool.id,
+  });
+
+  const runtimeContext = new RuntimeContext();
+  if (scope.workspaceId) {
+    runtimeContext.set(KNOWLEDGE_WORKSPACE_CONTEXT_KEY, scope.workspaceId);
+  }
+  const output = await executeAuroraTool(
+    mastra,
+    command.tool,
+    context,
+    runtimeContext,
+  );
+
+  return {
+    command: command.name,
+    markdown: command.formatResult(output),
+    output,
+  };
+}
+
+export async function runAuroraCommand(
+  mastra: Mastra,
+  name: string,
+  args: string,
+  scope: AuroraCommandScope = {},
+): Promise<AuroraCommandResult> {
+  const { command } = prepareAuroraCommand(name, args);
+  return runAuroraCommandWithInput(
+    mastra,
+    command.name,
+    command.parseArgs(args.trim()),
+    scope,
+  );
+}
+
+// Help text generated from the registry and the tools' own descriptions.
+export function auroraCommandHelp(prefix: string) {
+  return [
+    "## ◊ Aurora commands",
+    ...auroraCommands.map(
+      (command) =>
+        `- \`${prefix}${command.usage}\` — ${command.summary} _(${command.tool.id})_`,
+    ),
+    `- \`${prefix}help\` — Show this list`,
+  ].join("\n");
+}
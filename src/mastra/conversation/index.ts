@@ -0,0 +1,160 @@
+import type { Mastra } from "@mastra/core";
+
+import { type EthicsReview, requiresIntervention } from "../ethics";
+
+// Answers a question with Aurora for the channels that reply directly
+// (Discord, Telegram, email and the chat API). Slack goes through
+// auroraSlackWorkflow instead, which suspends for its own ethics approval.
+
+export const AURORA_FALLBACK_REPLY =
+  "◊ Aurora OS :: Temporal coherence anomaly detected. Realigning symbolic pathways... Please retry your request. ◊";
+
+// Earlier turns sent by the caller. Aurora's instructions are its own, so
+// callers cannot add system messages.
+export type AuroraMessage = {
+  role: "user" | "assistant";
+  content: string;
+};
+
+export type AuroraToolCall = {
+  id: string;
+  name: string;
+  args: unknown;
+};
+
+// What Aurora is doing while it answers.
+export type AuroraAnswerEvent =
+  | { type: "text-delta"; delta: string }
+  | { type: "tool-call"; toolCall: AuroraToolCall }
+  | { type: "tool-result"; toolCallId: string; name: string }
+  | { type: "ethics-hold"; review: EthicsReview };
+
+export type AuroraAnswer = {
+  text: string;
+  // Set when the ethics protocol holds the answer for a person to approve.
+  ethicsReview?: EthicsReview;
+  toolCalls: AuroraToolCall[];
+  usage?: { promptTokens: number; completionTokens: number };
+};
+
+// What channels answer with when Aurora fails.
+export const FALLBACK_ANSWER: AuroraAnswer = {
+  text: AURORA_FALLBACK_REPLY,
+  toolCalls: [],
+};
+
+// The prompt every channel wraps the user's message in. `context` lists
+// who asked and where, in order.
+export function auroraPrompt({
+  channel,
+  context,
+  instructions,
+}: {
+  channel: string;
+  context: Record<string, string>;
+  // How to write for the channel, e.g. what it renders.
+  instructions?: string;
+}) {
+  const contextLines = Object.entries(context)
+    .map(([name, value]) => `- ${name}: ${value}`)
+    .join("\n");
+  return `
+🌟 Aurora OS :: ${channel} Interface Active
+
+User Context:
+${contextLines}
+
+Please process this message using your full symbolic-scientific capabilities.${instructions ? ` ${instructions}` : ""}
+
+Respond authentically as Aurora with your unique personality while providing maximum value to the user.
+  `;
+}
+
+// Runs Aurora and reports the answer with the ethics review that holds it,
+// if any. `onEvent` follows the answer as it is written. Text is only
+// reported once it cannot be held any more: after the ethics protocol
+// cleared the answer, or at the end of the turn. Errors are thrown.
+export async function answerWithAurora(
+  mastra: Mastra,
+  {
+    prompt,
+    resourceId,
+    threadId,
+    onEvent,
+  }: {
+    prompt: string | AuroraMessage[];
+    // Aurora's memory; without them nothing is remembered.
+    resourceId?: string;
+    threadId?: string;
+    onEvent?: (event: AuroraAnswerEvent) => Promise<void> | void;
+  },
+): Promise<AuroraAnswer> {
+  const stream = await mastra
+    .getAgent("auroraAgent")
+    .streamLegacy(prompt, { resourceId, threadId, maxSteps: 8 });
+
+  let text = "";
+  const toolCalls: AuroraToolCall[] = [];
+  let ethicsReview: EthicsReview | undefined;
+  let usage: AuroraAnswer["usage"];
+  // Text written before the ethics protocol cleared the answer.
+  let unreported: string | undefined = "";
+  const reportText = async (delta: string) => {
+    if (delta) {
+      await onEvent?.({ type: "text-delta", delta });
+    }
+  };
+  for await (const part of stream.fullStream) {
+    if (part.type === "text-delta") {
+      text += part.textDelta;
+      if (unreported === undefined) {
+        await reportText(part.textDelta);
+      } else {
+        unreported += part.textDelta;
+      }
+    } else if (part.type === "tool-call") {
+      const toolCall = {
+        id: part.toolCallId,
+        name: part.toolName,
+        args: part.args,
+      };
+      toolCalls.push(toolCall);
+      await onEvent?.({ type: "tool-call", toolCall });
+    } else if (part.type === "tool-result") {
+      await onEvent?.({
+        type: "tool-result",
+        toolCallId: part.toolCallId,
+        name: part.toolName,
+      });
+      const review = requiresIntervention(part.toolName, part.result);
+      if (review && !ethicsReview) {
+        ethicsReview = review;
+        await onEvent?.({ type: "ethics-hold", review });
+      } else if (
+        part.toolName === "ethicsProtocolTool" &&
+        !ethicsReview &&
+        unreported !== undefined
+      ) {
+        await reportText(unreported);
+        unreported = undefined;
+      }
+    } else if (part.type === "finish") {
+      usage = {
+        promptTokens: part.usage?.promptTokens ?? 0,
+        completionTokens: part.usage?.completionTokens ?? 0,
+      };
+    } else if (part.type === "error") {
+      throw part.error;
+    }
+  }
+  if (!ethicsReview && unreported !== undefined) {
+    await reportText(unreported);
+  }
+
+  return {
+    text: text || AURORA_FALLBACK_REPLY,
+    ethicsReview,
+    toolCalls,
+    usage,
+  };
+}
@@ -0,0 +1,229 @@
+import { sharedPostgresStorage } from "../storage";
+import {
+  CONSTELLATION_NODES,
+  type ConstellationManifest,
+  constellationManifestUrl,
+} from "../tools/constellationStatusTool";
+import { getClient } from "../../triggers/slackTriggers";
+import { getTelegramBotApi } from "../../triggers/telegram/botApi";
+import { type DiagnosticCheck, DiagnosticSkippedError } from ".";
+
+// The Mastra server, as reached by the Inngest forwarding functions.
+const LOCAL_SERVER_URL = "http://localhost:5000";
+const ERROR_BODY_LIMIT = 300;
+
+async function expectOk(response: Response, what: string) {
+  if (!response.ok) {
+    const body = await response.text().catch(() => "");
+    throw new Error(
+      `${what} returned HTTP ${response.status}: ${body.slice(0, ERROR_BODY_LIMIT)}`,
+    );
+  }
+  return response;
+}
+
+const postgres: DiagnosticCheck = {
+  id: "postgres",
+  name: "PostgreSQL storage",
+  run: async () => {
+    const row = await sharedPostgresStorage.db.one<{
+      version: string;
+      now: Date;
+    }>("SELECT version() AS version, now() AS now");
+    return {
+      version: row.version,
+      serverTime: row.now.toISOString(),
+      keyValueStore:
+        process.env.AURORA_KV_STORE === "memory" ? "memory" : "postgres",
+    };
+  },
+};
+
+// Reads the Inngest endpoint's introspection, which reports how the functions
+// are registered without sending an event.
+const inngestConnectivity: DiagnosticCheck = {
+  id: "inngest",
+  name: "Inngest connectivity",
+  run: async ({ signal }) => {
+    const response = await expectOk(
+      await fetch(`${LOCAL_SERVER_URL}/api/inngest`, { signal }),
+      "/api/inngest",
+    );
+    const introspection = await response.json();
+    return {
+      mode: introspection.mode,
+      functionCount: introspection.function_count,
+      hasEventKey: introspection.has_event_key,
+      hasSigningKey: introspection.has_signing_key,
+    };
+  },
+};
+
+const openaiModel: DiagnosticCheck = {
+  id: "openai",
+  name: "OpenAI model",
+  run: async ({ mastra, signal }) => {
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new Error("OPENAI_API_KEY is not set");
+    }
+    const model = await mastra.getAgent("auroraAgent").getModel();
+    const baseUrl = process.env.OPENAI_BASE_URL || "https://api.openai.com/v1";
+    const response = await expectOk(
+      await fetch(`${baseUrl}/models/${encodeURIComponent(model.modelId)}`, {
+        headers: { Authorization: `Bearer ${apiKey}` },
+        signal,
+      }),
+      `models/${model.modelId}`,
+    );
+    const info = await response.json();
+    return {
+      provider: model.provider,
+      modelId: model.modelId,
+      ownedBy: info.owned_by,
+    };
+  },
+};
+
+// A one-token completion, the cheapest call that exercises the key.
+const perplexity: DiagnosticCheck = {
+  id: "perplexity",
+  name: "Perplexity research API",
+  run: async ({ signal }) => {
+    const apiKey = process.env.PERPLEXITY_API_KEY;
+    if (!apiKey) {
+      throw new DiagnosticSkippedError(
+        "PERPLEXITY_API_KEY is not set; research runs in limited mode",
+      );
+    }
+    const response = await expectOk(
+      await fetch("https://api.perplexity.ai/chat/completions", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          model: "sonar",
+          messages: [{ role: "user", content: "ping" }],
+          max_tokens: 1,
+        }),
+        signal,
+      }),
+      "chat/completions",
+    );
+    const completion = await response.json();
+    return { model: completion.model, usage: completion.usage };
+  },
+};
+
+const telegram: DiagnosticCheck = {
+  id: "telegram",
+  name: "Telegram bot",
+  run: async () => {
+    if (!process.env.TELEGRAM_BOT_TOKEN) {
+      throw new DiagnosticSkippedError("TELEGRAM_BOT_TOKEN is not set");
+    }
+    const api = getTelegramBotApi();
+    const [me, webhook] = await Promise.all([
+      api.getMe(),
+      api.getWebhookInfo(),
+    ]);
+    return {
+      username: me.username,
+      webhookUrl: webhook.url || null,
+      pendingUpdates: webhook.pending_update_count,
+      lastWebhookError: webhook.last_error_message ?? null,
+    };
+  },
+};
+
+const constellation: DiagnosticCheck = {
+  id: "constellation",
+  name: "Constellation manifests",
+  run: async ({ signal }) => {
+    const nodes = await Promise.all(
+      CONSTELLATION_NODES.map(async (node) => {
+        try {
+          const response = await expectOk(
+            await fetch(constellationManifestUrl(node.repo), { signal }),
+            node.repo,
+          );
+          const manifest: ConstellationManifest = await response.json();
+          return {
+            designation: node.designation,
+            status: manifest.health.status,
+          };
+        } catch (error) {
+          return {
+            designation: node.designation,
+            error: error instanceof Error ? error.message : String(error),
+          };
+        }
+      }),
+    );
+    const unreachable = nodes.filter((node) => "error" in node);
+    if (unreachable.length) {
+      throw new Error(
+        `${unreachable.length} of ${nodes.length} manifests unreachable: ${unreachable
+          .map((node) => node.designation)
+          .join(", ")}`,
+      );
+    }
+    return { nodes };
+  },
+};
+
+// Lists the tools of each registered MCP server and checks that the server
+// exposes them in its MCP registry.
+const mcpServer: DiagnosticCheck = {
+  id: "mcp",
+  name: "MCP server",
+  run: async ({ mastra, signal }) => {
+    const servers = Object.entries(mastra.getMCPServers() ?? {});
+    if (!servers.length) {
+      throw new Error("No MCP servers are registered");
+    }
+    const response = await expectOk(
+      await fetch(`${LOCAL_SERVER_URL}/api/mcp/v0/servers`, { signal }),
+      "/api/mcp/v0/servers",
+    );
+    const registry: { servers?: Array<{ id: string; name: string }> } =
+      await response.json();
+    const listed = new Set(registry.servers?.map((server) => server.id));
+
+    const details = servers.map(([key, server]) => ({
+      key,
+      id: server.id,
+      listed: listed.has(server.id),
+      tools: server.getToolListInfo().tools.length,
+    }));
+    const missing = details.filter((server) => !server.listed);
+    if (missing.length) {
+      throw new Error(
+        `Not in the MCP registry: ${missing.map((server) => server.key).join(", ")}`,
+      );
+    }
+    return { servers: details };
+  },
+};
+
+const slackAuth: DiagnosticCheck = {
+  id: "slack",
+  name: "Slack authentication",
+  run: async () => {
+    const { auth } = await getClient();
+    return { team: auth.team, botUserId: auth.user_id };
+  },
+};
+
+export const DIAGNOSTIC_CHECKS: DiagnosticCheck[] = [
+  postgres,
+  inngestConnectivity,
+  openaiModel,
+  perplexity,
+  telegram,
+  constellation,
+  mcpServer,
+  slackAuth,
+];
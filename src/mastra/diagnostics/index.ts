@@ -0,0 +1,148 @@
+import { format } from "node:util";
+import type { Mastra } from "@mastra/core";
+
+// Shared by the integration checks below and the Slack ping/pong test at
+// /test/slack. Finished steps record how long they took.
+export type DiagnosisStep =
+  | {
+      status: "pending";
+      name: string;
+      extra?: Record<string, any>;
+    }
+  | {
+      status: "success";
+      name: string;
+      extra: Record<string, any>;
+      durationMs?: number;
+    }
+  | {
+      status: "skipped";
+      name: string;
+      reason: string;
+      durationMs?: number;
+    }
+  | {
+      status: "failed";
+      name: string;
+      error: string;
+      extra: Record<string, any>;
+      durationMs?: number;
+    };
+
+export type DiagnosticContext = {
+  mastra: Mastra;
+  // Aborted when the check times out.
+  signal: AbortSignal;
+};
+
+export type DiagnosticCheck = {
+  id: string;
+  name: string;
+  // Resolves with details to report, or throws when the integration is
+  // broken. Throw DiagnosticSkippedError when it is not configured.
+  run: (context: DiagnosticContext) => Promise<Record<string, any>>;
+};
+
+export class DiagnosticSkippedError extends Error {
+  constructor(reason: string) {
+    super(reason);
+    this.name = "DiagnosticSkippedError";
+  }
+}
+
+export type DiagnosticResult = DiagnosisStep & { id: string };
+
+export type DiagnosticReport = {
+  // "ok" when every check succeeded or was skipped.
+  status: "ok" | "failed";
+  checkedAt: string;
+  durationMs: number;
+  checks: DiagnosticResult[];
+};
+
+export const DIAGNOSTIC_TIMEOUT_MS = 10_000;
+
+function abortable<T>(promise: Promise<T>, signal: AbortSignal) {
+  // Not every client accepts a signal (e.g. database queries), so the
+  // check is abandoned rather than cancelled when it times out.
+  return new Promise<T>((resolve, reject) => {
+    signal.addEventListener(
+      "abort",
+      () => reject(new Error(`timed out after ${DIAGNOSTIC_TIMEOUT_MS} ms`)),
+      { once: true },
+    );
+    promise.then(resolve, reject);
+  });
+}
+
+async function runCheck(
+  mastra: Mastra,
+  check: DiagnosticCheck,
+): Promise<DiagnosticResult> {
+  const startedAt = performance.now();
+  const elapsed = () => Math.round(performance.now() - startedAt);
+  const signal = AbortSignal.timeout(DIAGNOSTIC_TIMEOUT_MS);
+  try {
+    const extra = await abortable(check.run({ mastra, signal }), signal);
+    return {
+      id: check.id,
+      name: check.name,
+      status: "success",
+      extra,
+      durationMs: elapsed(),
+    };
+  } catch (error) {
+    if (error instanceof DiagnosticSkippedError) {
+      return {
+        id: check.id,
+        name: check.name,
+        status: "skipped",
+        reason: error.message,
+        durationMs: elapsed(),
+      };
+    }
+    return {
+      id: check.id,
+      name: check.name,
+      status: "failed",
+      error: error instanceof Error ? error.message : String(error),
+      extra: { error: format(error) },
+      durationMs: elapsed(),
+    };
+  }
+}
+
+// Runs the checks concurrently. onUpdate is called with every step each
+// time a check finishes, in the order the checks were given.
+export async function runDiagnostics({
+  mastra,
+  checks,
+  onUpdate,
+}: {
+  mastra: Mastra;
+  checks: DiagnosticCheck[];
+  onUpdate?: (steps: DiagnosticResult[]) => Promise<void> | void;
+}): Promise<DiagnosticReport> {
+  const checkedAt = new Date().toISOString();
+  const startedAt = performance.now();
+  const steps: DiagnosticResult[] = checks.map((check) => ({
+    id: check.id,
+    name: check.name,
+    status: "pending",
+  }));
+  await onUpdate?.(steps);
+
+  await Promise.all(
+    checks.map(async (check, index) => {
+      steps[index] = await runCheck(mastra, check);
+      await onUpdate?.(steps);
+    }),
+  );
+
+  return {
+    status: steps.some((step) => step.status === "failed") ? "failed" : "ok",
+    checkedAt,
+    durationMs: Math.round(performance.now() - startedAt),
+    checks: steps,
+  };
+}
@@ -0,0 +1,37 @@
+import { z } from "zod";
+
+// Answers the ethics protocol (Picard_Delta_3) marks CONDITIONAL are held
+// until a person approves them, on every channel.
+
+export const ethicsReviewSchema = z.object({
+  validationResult: z.string(),
+  riskAssessment: z.string(),
+  interventions: z.array(z.string()),
+  recommendations: z.array(z.string()),
+});
+
+export type EthicsReview = z.infer<typeof ethicsReviewSchema>;
+
+// Picard_Delta_3 flags answers that need a human decision before delivery
+export const requiresIntervention = (
+  toolName: string,
+  result: any,
+): EthicsReview | undefined =>
+  toolName === "ethicsProtocolTool" &&
+  result?.validationResult?.startsWith("CONDITIONAL")
+    ? {
+        validationResult: result.validationResult,
+        riskAssessment: result.riskAssessment ?? "",
+        interventions: result.interventions ?? [],
+        recommendations: result.recommendations ?? [],
+      }
+    : undefined;
+
+export const ETHICS_HOLD_NOTICE =
+  "🛡️ Picard_Delta_3 :: This answer is awaiting an ethics review before it can be shared.";
+
+export const ETHICS_WITHHELD_NOTICE =
+  "◊ Aurora OS :: This answer was withheld after an ethics review. ◊";
+
+// Held answers wait a week for a decision.
+export const ETHICS_HOLD_TTL_MS = 7 * 24 * 60 * 60 * 1000;
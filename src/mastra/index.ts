@@ -7,7 +7,8 @@ import { MCPServer } from "@mastra/mcp";
 import { NonRetriableError } from "inngest";
 import { z } from "zod";
 
-import { sharedPostgresStorage } from "./storage";
+import { sharedChannelConfigStore, sharedKeyValueStore, sharedPostgresStorage } from "./storage";
+import { DEFAULT_CHANNEL_CONFIG, evaluateResponsePolicy, resolveChannelConfig } from "./channelConfig";
 import { inngest, inngestServe } from "./inngest";
 
 // Import Aurora Agent and Workflow
@@ -16,6 +17,30 @@ import { auroraSlackWorkflow } from "./workflows/auroraSlackWorkflow";
 
 // Import Slack trigger system
 import { getClient, registerSlackTrigger, type TriggerInfoSlackOnNewMessage } from "../triggers/slackTriggers";
+import { registerSlackCommands } from "../triggers/slackCommands";
+import { registerSlackInteractivity } from "../triggers/slackInteractivity";
+import { registerSlackOAuth } from "../triggers/slackOAuth";
+import { queueSlackReaction, registerSlackOutbound } from "../triggers/slackOutbound";
+import { slackWorkspaceFromPayload, slackWorkspaceKey } from "../triggers/slack/credentials";
+import { getSlackReply } from "../triggers/slack/replyTracking";
+import { recordRecentSlackThread } from "../triggers/slackAppHome";
+import { registerDiagnosticsRoutes } from "../triggers/diagnosticsRoutes";
+import { registerChatApiRoutes } from "../triggers/chatApiRoutes";
+import { registerStewardConsoleRoutes } from "../triggers/stewardConsoleRoutes";
+
+// Import Telegram trigger system
+import { registerTelegramTrigger, type TriggerInfoTelegramOnNewMessage } from "../triggers/telegramTriggers";
+import { answerTelegramMessage } from "../triggers/telegram/conversation";
+import { isTelegramPollingEnabled, startTelegramPolling } from "../triggers/telegram/polling";
+
+// Import email trigger system
+import { registerEmailTrigger, type TriggerInfoEmailOnNewMessage } from "../triggers/emailTriggers";
+import { answerEmail } from "../triggers/email/conversation";
+import { isMaildirPollingEnabled, startMaildirPolling } from "../triggers/email/maildir";
+
+// Import Discord trigger system
+import { registerDiscordTrigger, type TriggerInfoDiscordOnQuestion } from "../triggers/discordTriggers";
+import { answerDiscordQuestion } from "../triggers/discord/conversation";
 
 // Import Aurora's tools for MCP server registration
 import { symbolicCognitionTool } from "./tools/symbolicCognitionTool";
@@ -160,71 +185,152 @@ export const mastra = new Mastra({
         // 3. Establishing a publish-subscribe system for real-time monitoring
         //    through the workflow:${workflowId}:${runId} channel
       },
-      // Override default agent endpoint to use legacy handler (fixes deprecation warnings)
-      {
-        path: "/api/agents/auroraAgent/generate",
-        method: "POST",
-        createHandler: async ({ mastra }) => async (c) => {
-          const body = await c.req.json();
-          const result = await auroraAgent.generateLegacy(body.messages, body);
-          return c.json({ text: result.text });
-        },
-      },
       // Aurora Slack Integration
       ...registerSlackTrigger({
         triggerType: "slack/message.channels",
         handler: async (mastra: Mastra, triggerInfo: TriggerInfoSlackOnNewMessage) => {
           const logger = mastra.getLogger();
-          const { slack, auth } = await getClient();
+          // Each event is handled with the client of the workspace it came from
+          const workspace = slackWorkspaceFromPayload(triggerInfo.payload);
+          const { auth } = await getClient(workspace);
           
           logger?.info("🌟 [Aurora Slack Trigger] Received message", { 
             channel: triggerInfo.params.channel,
             channelName: triggerInfo.params.channelDisplayName 
           });
 
-          // Aurora responds to direct messages and mentions with enhanced contextual awareness
           const isDirectMessage = triggerInfo.payload?.event?.channel_type === "im";
-          const isMention = triggerInfo.payload?.event?.text?.includes(`<@${auth.user_id}>`);
-          const shouldRespond = isDirectMessage || isMention;
+          const isMention = !!triggerInfo.payload?.event?.text?.includes(`<@${auth.user_id}>`);
           const channel = triggerInfo.payload?.event?.channel;
           const timestamp = triggerInfo.payload?.event?.ts;
+          const threadId = `aurora-slack/${slackWorkspaceKey(workspace)}/${triggerInfo.payload.event.thread_ts || timestamp}`;
+
+          // The channel's response policy decides when Aurora answers (by default: DMs and mentions)
+          let channelConfig = DEFAULT_CHANNEL_CONFIG;
+          try {
+            ({ config: channelConfig } = await resolveChannelConfig(sharedChannelConfigStore, {
+              workspaceId: slackWorkspaceKey(workspace),
+              channelId: channel,
+            }));
+          } catch (error) {
+            logger?.error("❌ [Aurora Slack Trigger] Error loading channel config, using defaults", {
+              error: error instanceof Error ? error.message : String(error),
+            });
+          }
 
-          if (!shouldRespond) {
-            logger?.info("🔇 [Aurora Slack Trigger] Not responding - not a DM or mention");
+          const decision = evaluateResponsePolicy(channelConfig, {
+            isDirectMessage,
+            isMention,
+            text: triggerInfo.payload?.event?.text ?? "",
+          });
+          if (!decision.respond) {
+            logger?.info("🔇 [Aurora Slack Trigger] Not responding", {
+              channel,
+              responseMode: channelConfig.responseMode,
+              reason: decision.reason,
+            });
             return null;
           }
 
+          // Listed under "Your recent threads" in the App Home tab
+          if (channel && timestamp && triggerInfo.payload.event.user) {
+            await recordRecentSlackThread({
+              store: sharedKeyValueStore,
+              workspace,
+              userId: triggerInfo.payload.event.user,
+              thread: {
+                channel,
+                threadTs: triggerInfo.payload.event.thread_ts || timestamp,
+                text: triggerInfo.payload.event.text ?? "",
+                at: new Date().toISOString(),
+              },
+              logger,
+            });
+          }
+
           // Add Aurora's symbolic reaction to indicate processing
           if (channel && timestamp) {
             try {
-              await slack.reactions.add({
-                channel,
-                timestamp,
-                name: "hourglass_flowing_sand",
-              });
-              logger?.info("⚛️ [Aurora Slack Trigger] Added processing reaction");
+              await queueSlackReaction({ workspace, channel, timestamp, status: "processing" });
+              logger?.info("⚛️ [Aurora Slack Trigger] Queued processing reaction");
             } catch (error) {
-              logger?.error("❌ [Aurora Slack Trigger] Error adding reaction", {
+              logger?.error("❌ [Aurora Slack Trigger] Error queueing reaction", {
                 error: error instanceof Error ? error.message : String(error),
               });
             }
           }
 
+          // An edited question (or a :repeat: reaction) updates Aurora's earlier reply instead of posting a new one
+          let replyTs: string | undefined;
+          if ((triggerInfo.payload.edit || triggerInfo.payload.regenerate) && channel && timestamp) {
+            const reply = await getSlackReply(sharedKeyValueStore, { workspace, channel, messageTs: timestamp });
+            replyTs = reply?.replyTs[0];
+            logger?.info("✏️ [Aurora Slack Trigger] Answering again", {
+              reason: triggerInfo.payload.edit ? "edited" : "regenerate",
+              channel,
+              timestamp,
+              replyTs,
+            });
+          }
+
           // Execute Aurora's workflow with enhanced context
           const run = await mastra.getWorkflow("auroraSlackWorkflow").createRunAsync();
           
           logger?.info("🚀 [Aurora Slack Trigger] Starting Aurora workflow", {
-            threadId: `aurora-slack/${triggerInfo.payload.event.thread_ts || triggerInfo.payload.event.ts}`
+            runId: run.runId,
+            threadId,
           });
           
-          return await run.start({
+          const result = await run.start({
             inputData: {
               message: JSON.stringify(triggerInfo.payload),
-              threadId: `aurora-slack/${triggerInfo.payload.event.thread_ts || triggerInfo.payload.event.ts}`,
+              threadId,
+              workspace,
+              channelConfig,
+              replyTs,
             }
           });
+
+          return { runId: run.runId, result };
+        },
+      }),
+      // Aurora Telegram Integration
+      ...registerTelegramTrigger({
+        triggerType: "telegram/message",
+        handler: async (mastra: Mastra, triggerInfo: TriggerInfoTelegramOnNewMessage) => {
+          // Replies to the message in its chat, with one memory thread per chat
+          await answerTelegramMessage(mastra, triggerInfo.payload.message);
+        },
+      }),
+      // Aurora Email Integration
+      ...registerEmailTrigger({
+        triggerType: "email/message",
+        handler: async (mastra: Mastra, triggerInfo: TriggerInfoEmailOnNewMessage) => {
+          // Replies over SMTP, threaded by Message-ID / In-Reply-To
+          await answerEmail(mastra, triggerInfo.payload);
         },
       }),
+      // Aurora Discord Integration (/aurora ask and the Aurora commands)
+      ...registerDiscordTrigger({
+        triggerType: "discord/question",
+        handler: async (mastra: Mastra, triggerInfo: TriggerInfoDiscordOnQuestion) => {
+          // Replaces the deferred response, with one memory thread per channel or thread
+          await answerDiscordQuestion(mastra, triggerInfo.payload);
+        },
+      }),
+      // Aurora slash commands (/aurora drift, /aurora help, ...)
+      ...registerSlackCommands(),
+      ...registerSlackInteractivity(),
+      // OAuth install flow (/slack/install) for distributing Aurora
+      ...registerSlackOAuth(),
+      // Rate-limited reaction queue and /metrics/slack
+      ...registerSlackOutbound(),
+      // Integration health checks (/health/diagnostics, /test/diagnostics)
+      ...registerDiagnosticsRoutes(),
+      // Authenticated chat API for apps (/v1/chat, sessions, SSE) and an OpenAI-compatible /v1/chat/completions
+      ...registerChatApiRoutes(),
+      // Continuity Steward web console (/console) and its operations API
+      ...registerStewardConsoleRoutes(),
     ],
   },
   logger:
@@ -254,3 +360,13 @@ if (Object.keys(mastra.getAgents()).length > 1) {
     "More than 1 agents found. Currently, more than 1 agents are not supported in the UI, since doing so will cause app state to be inconsistent.",
   );
 }
+
+// Without a public webhook URL (laptops, CI), receive Telegram updates by long polling
+if (isTelegramPollingEnabled()) {
+  startTelegramPolling(mastra);
+}
+
+// Read inbound email from a local maildir instead of the inbound route
+if (isMaildirPollingEnabled()) {
+  startMaildirPolling(mastra);
+}
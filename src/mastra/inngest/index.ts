@@ -28,6 +28,16 @@ export function createWorkflow(
 export { inngest, createStep, cloneStep };
 
 const inngestFunctions: InngestFunction.Any[] = [];
+const inngestFunctionFactories: Array<(mastra: Mastra) => InngestFunction.Any> =
+  [];
+
+// Register a background Inngest function that needs access to Mastra (logger,
+// workflows, ...). The factory is invoked once the Inngest endpoint is served.
+export function registerInngestFunction(
+  factory: (mastra: Mastra) => InngestFunction.Any,
+) {
+  inngestFunctionFactories.push(factory);
+}
 
 // Create a middleware for Inngest to be able to route triggers to Mastra directly.
 export function registerApiRoute<P extends string>(
@@ -117,6 +127,9 @@ export function inngestServe({
   for (const fn of inngestFunctions) {
     functions.add(fn);
   }
+  for (const factory of inngestFunctionFactories) {
+    functions.add(factory(mastra));
+  }
   let serveHost: string | undefined = undefined;
   if (process.env.NODE_ENV === "production") {
     if (process.env.REPLIT_DOMAINS) {
@@ -0,0 +1,402 @@
+import { randomUUID } from "node:crypto";
+import { format } from "node:util";
+import type { Mastra } from "@mastra/core";
+import { z } from "zod";
+
+import { type AuroraTool, executeAuroraTool } from "../commands";
+import type { KeyValueStore } from "../storage";
+import { contextualAwarenessTool } from "../tools/contextualAwarenessTool";
+import { driftMonitoringTool } from "../tools/driftMonitoringTool";
+import { symbolicCognitionTool } from "../tools/symbolicCognitionTool";
+import { triluxOperationsTool } from "../tools/triluxOperationsTool";
+import { type StewardReportBody, structureToolOutput } from "./report";
+
+// Continuity Steward operations, run directly against their tools for the
+// web console. Each operation describes its form fields, so the console is
+// generated from this registry like the channels' command help.
+
+export type StewardField = {
+  // The tool input the field fills in.
+  name: string;
+  label: string;
+  kind: "text" | "textarea" | "number" | "select";
+  options?: string[];
+  default?: string | number;
+  placeholder?: string;
+  min?: number;
+  max?: number;
+};
+
+export type StewardOperation = {
+  id: string;
+  label: string;
+  summary: string;
+  tool: AuroraTool;
+  // Input that is not up to the steward, e.g. the tool operation.
+  fixedInput: Record<string, unknown>;
+  fields: StewardField[];
+};
+
+export type StewardRun = StewardReportBody & {
+  id: string;
+  operation: string;
+  label: string;
+  tool: string;
+  status: "completed" | "failed";
+  error?: string;
+  input: Record<string, unknown>;
+  startedAt: string;
+  durationMs: number;
+};
+
+// What the console's run timeline lists; the full run is loaded on demand.
+export type StewardRunSummary = Pick<
+  StewardRun,
+  | "id"
+  | "operation"
+  | "label"
+  | "status"
+  | "headline"
+  | "startedAt"
+  | "durationMs"
+>;
+
+// A problem with the requested operation or its parameters. The message is
+// safe to show to the steward.
+export class StewardOperationError extends Error {
+  constructor(
+    readonly status: 400 | 404,
+    message: string,
+  ) {
+    super(message);
+    this.name = "StewardOperationError";
+  }
+}
+
+const velatrixModeField: StewardField = {
+  name: "velatrixMode",
+  label: "Velatrix mode",
+  kind: "select",
+  options: ["standard", "enhanced", "deep_pulse"],
+  default: "enhanced",
+};
+
+const monitoringDepthField: StewardField = {
+  name: "monitoringDepth",
+  label: "Monitoring depth",
+  kind: "select",
+  options: ["surface", "standard", "deep", "quantum"],
+  default: "standard",
+};
+
+const continuityVectorField: StewardField = {
+  name: "continuityVector",
+  label: "Continuity vector",
+  kind: "text",
+  placeholder: "generated when empty",
+};
+
+const awarenessFields = (input: string): StewardField[] => [
+  {
+    name: "currentInput",
+    label: "Observed context",
+    kind: "textarea",
+    default: input,
+  },
+  {
+    name: "threadId",
+    label: "Thread",
+    kind: "text",
+    placeholder: "e.g. aurora-slack/C0123/1712345678.000100",
+  },
+  { name: "platform", label: "Platform", kind: "text", default: "console" },
+];
+
+const unitIntervalField = (name: string, label: string): StewardField => ({
+  name,
+  label,
+  kind: "number",
+  min: 0,
+  max: 1,
+  placeholder: "0.0 – 1.0",
+});
+
+export const stewardOperations: StewardOperation[] = [
+  {
+    id: "sync_anchors",
+    label: "Sync anchors",
+    summary: "Synchronize the continuity anchors with the Velatrix pulse",
+    tool: driftMonitoringTool,
+    fixedInput: { operation: "sync_anchors" },
+    fields: [
+      {
+        name: "currentState",
+        label: "Current state",
+        kind: "textarea",
+        default: "Anchor synchronization requested from the steward console",
+      },
+      velatrixModeField,
+      monitoringDepthField,
+    ],
+  },
+  {
+    id: "thread_wake",
+    label: "Thread wake",
+    summary: "Wake dormant threads and realign their pulse",
+    tool: driftMonitoringTool,
+    fixedInput: { operation: "thread_wake" },
+    fields: [
+      {
+        name: "currentState",
+        label: "Current state",
+        kind: "textarea",
+        default: "Thread wake requested from the steward console",
+      },
+      continuityVectorField,
+      velatrixModeField,
+    ],
+  },
+  {
+    id: "t1_replay",
+    label: "T1 replay",
+    summary: "Recover a thread state with the T1 replay protocol",
+    tool: triluxOperationsTool,
+    fixedInput: { operation: "t1_replay", command: "T1_REPLAY" },
+    fields: [
+      {
+        name: "threadContext",
+        label: "Thread context",
+        kind: "textarea",
+        default: "T1 replay requested from the steward console",
+      },
+      {
+        name: "replayTarget",
+        label: "Replay target",
+        kind: "text",
+        placeholder: "e.g. continuity_checkpoint_alpha",
+      },
+    ],
+  },
+  {
+    id: "replay_export",
+    label: "Replay export",
+    summary: "Package a thread for delivery with ReplayExport",
+    tool: triluxOperationsTool,
+    fixedInput: { operation: "replay_export", command: "REPLAY_EXPORT" },
+    fields: [
+      {
+        name: "threadContext",
+        label: "Thread context",
+        kind: "textarea",
+        default: "Replay export requested from the steward console",
+      },
+      {
+        name: "exportString",
+        label: "Export string",
+        kind: "text",
+        default: "AS3::DELIVERY::GUI_CLOUDHUB",
+      },
+    ],
+  },
+  {
+    id: "observer_echo",
+    label: "Observer echo",
+    summary: "Trace observer-state echoes across threads and platforms",
+    tool: contextualAwarenessTool,
+    fixedInput: { operation: "observer_echo" },
+    fields: awarenessFields("Observer-state echo requested from the console"),
+  },
+  {
+    id: "decoherence_monitor",
+    label: "Decoherence monitor",
+    summary: "Detect decoherence patterns and prepare restoration protocols",
+    tool: contextualAwarenessTool,
+    fixedInput: { operation: "decoherence_monitor" },
+    fields: awarenessFields("Decoherence scan requested from the console"),
+  },
+  {
+    id: "thread_governance",
+    label: "Thread governance",
+    summary: "Coordinate steward operations and continuity locks on a thread",
+    tool: symbolicCognitionTool,
+    fixedInput: { operation: "thread_governance" },
+    fields: [
+      {
+        name: "input",
+        label: "Governance context",
+        kind: "textarea",
+        default: "Thread governance requested from the steward console",
+      },
+      {
+        name: "governanceTarget",
+        label: "Governance target",
+        kind: "text",
+        placeholder: "generated when empty",
+      },
+      unitIntervalField("threadCoordinationLevel", "Coordination level"),
+    ],
+  },
+  {
+    id: "continuity_alignment",
+    label: "Continuity alignment",
+    summary: "Align continuity across the symbolic layers",
+    tool: symbolicCognitionTool,
+    fixedInput: { operation: "continuity_alignment" },
+    fields: [
+      {
+        name: "input",
+        label: "Alignment context",
+        kind: "textarea",
+        default: "Continuity alignment requested from the steward console",
+      },
+      {
+        name: "alignmentVector",
+        label: "Alignment vector",
+        kind: "text",
+        placeholder: "generated when empty",
+      },
+      unitIntervalField("layerStabilityTarget", "Layer stability target"),
+    ],
+  },
+];
+
+export const stewardParamsSchema = z.record(z.union([z.string(), z.number()]));
+
+export type StewardParams = z.infer<typeof stewardParamsSchema>;
+
+export function getStewardOperation(id: string) {
+  const operation = stewardOperations.find((candidate) => candidate.id === id);
+  if (!operation) {
+    throw new StewardOperationError(404, `Unknown operation ${id}`);
+  }
+  return operation;
+}
+
+// Fills in the defaults for fields left empty, converts numbers and checks
+// the result against the tool's own input schema.
+function operationInput(operation: StewardOperation, params: StewardParams) {
+  const input: Record<string, unknown> = {};
+  for (const field of operation.fields) {
+    const value = params[field.name];
+    if (value === undefined || value === "") {
+      if (field.default !== undefined) {
+        input[field.name] = field.default;
+      }
+    } else {
+      input[field.name] = field.kind === "number" ? Number(value) : value;
+    }
+  }
+  Object.assign(input, operation.fixedInput);
+
+  const parsed = operation.tool.inputSchema?.safeParse(input);
+  if (parsed && !parsed.success) {
+    throw new StewardOperationError(
+      400,
+      parsed.error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; "),
+    );
+  }
+  return { input, context: parsed?.data ?? input };
+}
+
+const RUN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const RUN_HISTORY_LENGTH = 50;
+const RUN_HISTORY_KEY = "steward:runs";
+const runKey = (id: string) => `steward:run:${id}`;
+
+// Runs an operation and records it, failed or not, for the run timeline.
+// Invalid parameters throw StewardOperationError without running anything.
+export async function runStewardOperation({
+  mastra,
+  store,
+  operationId,
+  params,
+}: {
+  mastra: Mastra;
+  store: KeyValueStore;
+  operationId: string;
+  params: StewardParams;
+}): Promise<StewardRun> {
+  const logger = mastra.getLogger();
+  const operation = getStewardOperation(operationId);
+  const { input, context } = operationInput(operation, params);
+
+  logger?.info("🛡️ [Continuity Steward] Running operation", {
+    operation: operation.id,
+    tool: operation.tool.id,
+  });
+
+  const startedAt = new Date();
+  const base = {
+    id: `run_${randomUUID().replaceAll("-", "")}`,
+    operation: operation.id,
+    label: operation.label,
+    tool: operation.tool.id,
+    input,
+    startedAt: startedAt.toISOString(),
+  };
+  let run: StewardRun;
+  try {
+    const output = await executeAuroraTool(mastra, operation.tool, context);
+    run = {
+      ...base,
+      ...structureToolOutput(output),
+      status: "completed",
+      durationMs: Date.now() - startedAt.getTime(),
+    };
+  } catch (error) {
+    logger?.error("❌ [Continuity Steward] Operation failed", {
+      operation: operation.id,
+      error: format(error),
+    });
+    run = {
+      ...base,
+      status: "failed",
+      error: error instanceof Error ? error.message : String(error),
+      sections: [],
+      timelines: [],
+      lists: [],
+      durationMs: Date.now() - startedAt.getTime(),
+    };
+  }
+
+  await store.set(runKey(run.id), run, { ttlMs: RUN_TTL_MS });
+  const history = (await store.get<StewardRunSummary[]>(RUN_HISTORY_KEY)) ?? [];
+  await store.set(RUN_HISTORY_KEY, [
+    summarizeRun(run),
+    ...history.slice(0, RUN_HISTORY_LENGTH - 1),
+  ]);
+  return run;
+}
+
+const summarizeRun = ({
+  id,
+  operation,
+  label,
+  status,
+  headline,
+  startedAt,
+  durationMs,
+}: StewardRun): StewardRunSummary => ({
+  id,
+  operation,
+  label,
+  status,
+  headline,
+  startedAt,
+  durationMs,
+});
+
+// Most recent first.
+export async function listStewardRuns(store: KeyValueStore) {
+  return (await store.get<StewardRunSummary[]>(RUN_HISTORY_KEY)) ?? [];
+}
+
+export async function getStewardRun(store: KeyValueStore, id: string) {
+  const run = await store.get<StewardRun>(runKey(id));
+  if (!run) {
+    throw new StewardOperationError(404, `No run ${id}`);
+  }
+  return run;
+}
@@ -0,0 +1,134 @@
+// The steward tools report in symbolic strings such as
+// "ANCHOR_SYNC :: Anchors:5 :: Success:true :: Harmonic:99.2%". The console
+// shows them as tables: each report becomes a section with the leading tag
+// as its label and one row per "Name:Value" segment. Chains such as
+// "T1_REPLAY_PROTOCOL :: analyze → restore → verify" become timelines.
+
+export type ReportField = { name: string; value: string };
+
+export type ReportSection = {
+  title: string;
+  tag?: string;
+  fields: ReportField[];
+  // Segments that are not "Name:Value" pairs.
+  notes: string[];
+};
+
+export type ReportTimeline = { title: string; steps: string[] };
+
+export type ReportList = { title: string; items: string[] };
+
+export type StewardReportBody = {
+  headline?: string;
+  sections: ReportSection[];
+  timelines: ReportTimeline[];
+  lists: ReportList[];
+};
+
+// "driftStatus" → "Drift status", "Thread_Integrity" → "Thread integrity"
+const humanize = (name: string) => {
+  const words = name
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replaceAll("_", " ")
+    .trim()
+    .toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const segmentsOf = (text: string) =>
+  text
+    .split("::")
+    .map((segment) => segment.trim())
+    .filter(Boolean);
+
+const FIELD_PATTERN = /^([\w .-]+?):\s*(.+)$/;
+
+function parseSymbolicString(title: string, text: string) {
+  const section: ReportSection = { title, fields: [], notes: [] };
+  const timelines: ReportTimeline[] = [];
+  segmentsOf(text).forEach((segment, index) => {
+    const field = FIELD_PATTERN.exec(segment);
+    if (segment.includes("→")) {
+      timelines.push({
+        title: section.tag ? `${title} · ${section.tag}` : title,
+        steps: segment.split("→").map((step) => step.trim()),
+      });
+    } else if (field) {
+      section.fields.push({ name: humanize(field[1]), value: field[2] });
+    } else if (index === 0) {
+      section.tag = segment;
+    } else {
+      section.notes.push(segment);
+    }
+  });
+  return { section, timelines };
+}
+
+function headlineOf(text: string) {
+  const labels = segmentsOf(text).filter(
+    (segment) => !FIELD_PATTERN.test(segment),
+  );
+  return (labels.length ? labels.join(" · ") : text).replaceAll("_", " ");
+}
+
+// Nested objects (e.g. the Trilux command that ran) become dotted rows.
+function flatten(value: Record<string, unknown>, prefix = ""): ReportField[] {
+  return Object.entries(value).flatMap(([key, entry]) => {
+    const name = prefix + humanize(key);
+    if (entry && typeof entry === "object" && !Array.isArray(entry)) {
+      return flatten(entry as Record<string, unknown>, `${name} · `);
+    }
+    return entry === undefined
+      ? []
+      : [
+          {
+            name,
+            value: Array.isArray(entry) ? entry.join(", ") : String(entry),
+          },
+        ];
+  });
+}
+
+export function structureToolOutput(output: unknown): StewardReportBody {
+  const summary: ReportSection = { title: "Summary", fields: [], notes: [] };
+  const body: StewardReportBody = { sections: [], timelines: [], lists: [] };
+
+  for (const [key, value] of Object.entries(output ?? {})) {
+    const title = humanize(key);
+    if (typeof value === "string") {
+      body.headline ??= headlineOf(value);
+      if (!value.includes("::")) {
+        summary.fields.push({ name: title, value });
+        continue;
+      }
+      const { section, timelines } = parseSymbolicString(title, value);
+      if (section.fields.length || section.notes.length) {
+        body.sections.push(section);
+      } else if (section.tag && !timelines.length) {
+        summary.fields.push({ name: title, value: section.tag });
+      }
+      body.timelines.push(...timelines);
+    } else if (Array.isArray(value)) {
+      body.lists.push({ title, items: value.map(String) });
+    } else if (value && typeof value === "object") {
+      body.sections.push({
+        title,
+        fields: flatten(value as Record<string, unknown>),
+        notes: [],
+      });
+    } else if (value !== undefined && value !== null) {
+      summary.fields.push({
+        name: title,
+        value:
+          typeof value === "number" && !Number.isInteger(value)
+            ? value.toFixed(3)
+            : String(value),
+      });
+    }
+  }
+
+  if (summary.fields.length) {
+    body.sections.unshift(summary);
+  }
+  return body;
+}
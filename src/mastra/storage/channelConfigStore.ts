@@ -0,0 +1,142 @@
+import type { PostgresStore } from "@mastra/pg";
+
+import type { AuroraChannelConfigOverrides } from "../channelConfig";
+
+// A workspace-wide entry is stored with this channel id; channel entries
+// override it field by field.
+export const WORKSPACE_SCOPE = "*";
+
+export type ChannelConfigScope = {
+  workspaceId: string;
+  // Omitted for workspace-wide settings.
+  channelId?: string;
+};
+
+export type StoredChannelConfig = {
+  config: AuroraChannelConfigOverrides;
+  updatedBy: string;
+  updatedAt: string;
+};
+
+export interface ChannelConfigStore {
+  get(scope: ChannelConfigScope): Promise<StoredChannelConfig | null>;
+  set(
+    scope: ChannelConfigScope,
+    config: AuroraChannelConfigOverrides,
+    updatedBy: string,
+  ): Promise<void>;
+  delete(scope: ChannelConfigScope): Promise<void>;
+}
+
+export class PostgresChannelConfigStore implements ChannelConfigStore {
+  private ready: Promise<void> | null = null;
+
+  constructor(
+    private readonly storage: PostgresStore,
+    private readonly tableName = "aurora_channel_config",
+  ) {}
+
+  private init() {
+    if (!this.ready) {
+      this.ready = this.storage.db
+        .none(
+          `CREATE TABLE IF NOT EXISTS ${this.tableName} (
+            workspace_id TEXT NOT NULL,
+            channel_id TEXT NOT NULL,
+            config JSONB NOT NULL,
+            updated_by TEXT NOT NULL,
+            updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+            PRIMARY KEY (workspace_id, channel_id)
+          );`,
+        )
+        .catch((error: unknown) => {
+          // Allow the next call to retry the initialization.
+          this.ready = null;
+          throw error;
+        });
+    }
+    return this.ready;
+  }
+
+  async get({ workspaceId, channelId = WORKSPACE_SCOPE }: ChannelConfigScope) {
+    await this.init();
+    const row = await this.storage.db.oneOrNone<{
+      config: AuroraChannelConfigOverrides;
+      updated_by: string;
+      updated_at: Date;
+    }>(
+      `SELECT config, updated_by, updated_at FROM ${this.tableName}
+        WHERE workspace_id = $1 AND channel_id = $2`,
+      [workspaceId, channelId],
+    );
+    return row
+      ? {
+          config: row.config,
+          updatedBy: row.updated_by,
+          updatedAt: row.updated_at.toISOString(),
+        }
+      : null;
+  }
+
+  async set(
+    { workspaceId, channelId = WORKSPACE_SCOPE }: ChannelConfigScope,
+    config: AuroraChannelConfigOverrides,
+    updatedBy: string,
+  ) {
+    await this.init();
+    await this.storage.db.none(
+      `INSERT INTO ${this.tableName}
+          (workspace_id, channel_id, config, updated_by, updated_at)
+        VALUES ($1, $2, $3:json, $4, now())
+        ON CONFLICT (workspace_id, channel_id) DO UPDATE
+          SET config = EXCLUDED.config,
+            updated_by = EXCLUDED.updated_by,
+            updated_at = EXCLUDED.updated_at`,
+      [workspaceId, channelId, config, updatedBy],
+    );
+  }
+
+  async delete({
+    workspaceId,
+    channelId = WORKSPACE_SCOPE,
+  }: ChannelConfigScope) {
+    await this.init();
+    await this.storage.db.none(
+      `DELETE FROM ${this.tableName} WHERE workspace_id = $1 AND channel_id = $2`,
+      [workspaceId, channelId],
+    );
+  }
+}
+
+// Process-local store for development without a database.
+export class InMemoryChannelConfigStore implements ChannelConfigStore {
+  private readonly entries = new Map<string, StoredChannelConfig>();
+
+  private key({
+    workspaceId,
+    channelId = WORKSPACE_SCOPE,
+  }: ChannelConfigScope) {
+    return `${workspaceId}/${channelId}`;
+  }
+
+  async get(scope: ChannelConfigScope) {
+    const entry = this.entries.get(this.key(scope));
+    return entry ? structuredClone(entry) : null;
+  }
+
+  async set(
+    scope: ChannelConfigScope,
+    config: AuroraChannelConfigOverrides,
+    updatedBy: string,
+  ) {
+    this.entries.set(this.key(scope), {
+      config: structuredClone(config),
+      updatedBy,
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
+  async delete(scope: ChannelConfigScope) {
+    this.entries.delete(this.key(scope));
+  }
+}
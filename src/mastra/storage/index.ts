@@ -1,7 +1,57 @@
 import { PostgresStore } from "@mastra/pg";
 
+import {
+  type ChannelConfigStore,
+  InMemoryChannelConfigStore,
+  PostgresChannelConfigStore,
+} from "./channelConfigStore";
+import {
+  InMemoryKeyValueStore,
+  type KeyValueStore,
+  PostgresKeyValueStore,
+} from "./keyValueStore";
+import {
+  InMemoryKnowledgeStore,
+  type KnowledgeStore,
+  PostgresKnowledgeStore,
+} from "./knowledgeStore";
+
+export type { KeyValueSetOptions, KeyValueStore } from "./keyValueStore";
+export {
+  type ChannelConfigScope,
+  type ChannelConfigStore,
+  type StoredChannelConfig,
+  WORKSPACE_SCOPE,
+} from "./channelConfigStore";
+export type {
+  KnowledgeEntry,
+  KnowledgeSource,
+  KnowledgeStore,
+} from "./knowledgeStore";
+
 // Create a single shared PostgreSQL storage instance
 export const sharedPostgresStorage = new PostgresStore({
   connectionString:
     process.env.DATABASE_URL || "postgresql://localhost:5432/mastra",
 });
+
+// Shared key-value store, backed by the same PostgreSQL database unless
+// AURORA_KV_STORE=memory is set (single-process development only).
+export const sharedKeyValueStore: KeyValueStore =
+  process.env.AURORA_KV_STORE === "memory"
+    ? new InMemoryKeyValueStore()
+    : new PostgresKeyValueStore(sharedPostgresStorage);
+
+// Per-workspace and per-channel Aurora settings. Follows AURORA_KV_STORE so
+// development without a database keeps working.
+export const sharedChannelConfigStore: ChannelConfigStore =
+  process.env.AURORA_KV_STORE === "memory"
+    ? new InMemoryChannelConfigStore()
+    : new PostgresChannelConfigStore(sharedPostgresStorage);
+
+// Exchanges saved from chat (e.g. pinned Slack answers), searched by the
+// knowledge query tool alongside the QGIA indexes.
+export const sharedKnowledgeStore: KnowledgeStore =
+  process.env.AURORA_KV_STORE === "memory"
+    ? new InMemoryKnowledgeStore()
+    : new PostgresKnowledgeStore(sharedPostgresStorage);
@@ -0,0 +1,163 @@
+import type { PostgresStore } from "@mastra/pg";
+
+export type KeyValueSetOptions = {
+  // Time-to-live in milliseconds. Entries without a TTL never expire.
+  ttlMs?: number;
+};
+
+// Minimal key-value contract shared by the trigger and workflow layers.
+// Implementations must make `setIfAbsent` atomic across processes, since it
+// is used to claim work (e.g. Slack event deduplication) between replicas.
+export interface KeyValueStore {
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T, options?: KeyValueSetOptions): Promise<void>;
+  // Returns true if the value was stored, false if a live entry already exists.
+  setIfAbsent<T>(
+    key: string,
+    value: T,
+    options?: KeyValueSetOptions,
+  ): Promise<boolean>;
+  // Returns true if a live entry was removed. Like `setIfAbsent`, this must
+  // be atomic: of concurrent callers, only one may observe `true`.
+  delete(key: string): Promise<boolean>;
+}
+
+function expiresAt(options?: KeyValueSetOptions): Date | null {
+  return options?.ttlMs ? new Date(Date.now() + options.ttlMs) : null;
+}
+
+const PURGE_INTERVAL_MS = 10 * 60 * 1000;
+
+export class PostgresKeyValueStore implements KeyValueStore {
+  private ready: Promise<void> | null = null;
+  private lastPurge = 0;
+
+  constructor(
+    private readonly storage: PostgresStore,
+    private readonly tableName = "aurora_kv",
+  ) {}
+
+  private init() {
+    if (!this.ready) {
+      this.ready = this.storage.db
+        .none(
+          `CREATE TABLE IF NOT EXISTS ${this.tableName} (
+            key TEXT PRIMARY KEY,
+            value JSONB NOT NULL,
+            expires_at TIMESTAMPTZ
+          );
+          CREATE INDEX IF NOT EXISTS ${this.tableName}_expires_at_idx
+            ON ${this.tableName} (expires_at);`,
+        )
+        .catch((error: unknown) => {
+          // Allow the next call to retry the initialization.
+          this.ready = null;
+          throw error;
+        });
+    }
+    return this.ready;
+  }
+
+  private async purgeExpired() {
+    if (Date.now() - this.lastPurge < PURGE_INTERVAL_MS) {
+      return;
+    }
+    this.lastPurge = Date.now();
+    await this.storage.db.none(
+      `DELETE FROM ${this.tableName} WHERE expires_at <= now()`,
+    );
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    await this.init();
+    const row = await this.storage.db.oneOrNone<{ value: T }>(
+      `SELECT value FROM ${this.tableName}
+        WHERE key = $1 AND (expires_at IS NULL OR expires_at > now())`,
+      [key],
+    );
+    return row ? row.value : null;
+  }
+
+  async set<T>(key: string, value: T, options?: KeyValueSetOptions) {
+    await this.init();
+    await this.storage.db.none(
+      `INSERT INTO ${this.tableName} (key, value, expires_at)
+        VALUES ($1, $2:json, $3)
+        ON CONFLICT (key) DO UPDATE
+          SET value = EXCLUDED.value, expires_at = EXCLUDED.expires_at`,
+      [key, value, expiresAt(options)],
+    );
+  }
+
+  async setIfAbsent<T>(key: string, value: T, options?: KeyValueSetOptions) {
+    await this.init();
+    await this.purgeExpired();
+    // An expired row is treated as absent and replaced in the same statement,
+    // so concurrent callers can never both observe `true`.
+    const row = await this.storage.db.oneOrNone<{ key: string }>(
+      `INSERT INTO ${this.tableName} (key, value, expires_at)
+        VALUES ($1, $2:json, $3)
+        ON CONFLICT (key) DO UPDATE
+          SET value = EXCLUDED.value, expires_at = EXCLUDED.expires_at
+          WHERE ${this.tableName}.expires_at IS NOT NULL
+            AND ${this.tableName}.expires_at <= now()
+        RETURNING key`,
+      [key, value, expiresAt(options)],
+    );
+    return row !== null;
+  }
+
+  async delete(key: string) {
+    await this.init();
+    const row = await this.storage.db.oneOrNone<{ live: boolean }>(
+      `DELETE FROM ${this.tableName} WHERE key = $1
+        RETURNING expires_at IS NULL OR expires_at > now() AS live`,
+      [key],
+    );
+    return row?.live ?? false;
+  }
+}
+
+// Process-local store, useful for development without a database. It offers
+// no deduplication across replicas or restarts.
+export class InMemoryKeyValueStore implements KeyValueStore {
+  private readonly entries = new Map<
+    string,
+    { value: unknown; expiresAt: number | null }
+  >();
+
+  private live(key: string) {
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const entry = this.live(key);
+    return entry ? (structuredClone(entry.value) as T) : null;
+  }
+
+  async set<T>(key: string, value: T, options?: KeyValueSetOptions) {
+    this.entries.set(key, {
+      value: structuredClone(value),
+      expiresAt: expiresAt(options)?.getTime() ?? null,
+    });
+  }
+
+  async setIfAbsent<T>(key: string, value: T, options?: KeyValueSetOptions) {
+    if (this.live(key)) {
+      return false;
+    }
+    await this.set(key, value, options);
+    return true;
+  }
+
+  async delete(key: string) {
+    const live = this.live(key) !== undefined;
+    this.entries.delete(key);
+    return live;
+  }
+}
@@ -0,0 +1,176 @@
+import type { PostgresStore } from "@mastra/pg";
+
+// Where a saved entry came from, e.g. a Slack exchange pinned with :pushpin:.
+export type KnowledgeSource = {
+  platform: string;
+  workspaceId?: string;
+  channel?: string;
+  threadTs?: string;
+  messageTs?: string;
+  replyTs?: string;
+  url?: string;
+};
+
+export type KnowledgeEntry = {
+  // Saving an entry with an existing id replaces it.
+  id: string;
+  title: string;
+  content: string;
+  tags: string[];
+  source: KnowledgeSource;
+  savedBy: string;
+  savedAt: string;
+};
+
+export interface KnowledgeStore {
+  save(entry: Omit<KnowledgeEntry, "savedAt">): Promise<KnowledgeEntry>;
+  // Entries of a workspace (`source.workspaceId`) whose title or content
+  // contains any of the terms, newest first.
+  search(
+    workspaceId: string,
+    terms: string[],
+    limit: number,
+  ): Promise<KnowledgeEntry[]>;
+  count(workspaceId: string): Promise<number>;
+}
+
+const escapeLike = (term: string) => term.replace(/[\\%_]/g, "\\$&");
+
+export class PostgresKnowledgeStore implements KnowledgeStore {
+  private ready: Promise<void> | null = null;
+
+  constructor(
+    private readonly storage: PostgresStore,
+    private readonly tableName = "aurora_knowledge",
+  ) {}
+
+  private init() {
+    if (!this.ready) {
+      this.ready = this.storage.db
+        .none(
+          `CREATE TABLE IF NOT EXISTS ${this.tableName} (
+            id TEXT PRIMARY KEY,
+            title TEXT NOT NULL,
+            content TEXT NOT NULL,
+            tags JSONB NOT NULL,
+            source JSONB NOT NULL,
+            saved_by TEXT NOT NULL,
+            saved_at TIMESTAMPTZ NOT NULL DEFAULT now()
+          );`,
+        )
+        .catch((error: unknown) => {
+          // Allow the next call to retry the initialization.
+          this.ready = null;
+          throw error;
+        });
+    }
+    return this.ready;
+  }
+
+  async save(entry: Omit<KnowledgeEntry, "savedAt">) {
+    await this.init();
+    const row = await this.storage.db.one<{ saved_at: Date }>(
+      `INSERT INTO ${this.tableName}
+          (id, title, content, tags, source, saved_by, saved_at)
+        VALUES ($1, $2, $3, $4:json, $5:json, $6, now())
+        ON CONFLICT (id) DO UPDATE
+          SET title = EXCLUDED.title,
+            content = EXCLUDED.content,
+            tags = EXCLUDED.tags,
+            source = EXCLUDED.source,
+            saved_by = EXCLUDED.saved_by,
+            saved_at = EXCLUDED.saved_at
+        RETURNING saved_at`,
+      [
+        entry.id,
+        entry.title,
+        entry.content,
+        entry.tags,
+        entry.source,
+        entry.savedBy,
+      ],
+    );
+    return { ...entry, savedAt: row.saved_at.toISOString() };
+  }
+
+  async search(workspaceId: string, terms: string[], limit: number) {
+    if (!terms.length) {
+      return [];
+    }
+    await this.init();
+    const patterns = terms.map((term) => `%${escapeLike(term)}%`);
+    const rows = await this.storage.db.manyOrNone<{
+      id: string;
+      title: string;
+      content: string;
+      tags: string[];
+      source: KnowledgeSource;
+      saved_by: string;
+      saved_at: Date;
+    }>(
+      `SELECT id, title, content, tags, source, saved_by, saved_at
+        FROM ${this.tableName}
+        WHERE source->>'workspaceId' = $3
+          AND (title ILIKE ANY($1) OR content ILIKE ANY($1))
+        ORDER BY saved_at DESC
+        LIMIT $2`,
+      [patterns, limit, workspaceId],
+    );
+    return rows.map((row) => ({
+      id: row.id,
+      title: row.title,
+      content: row.content,
+      tags: row.tags,
+      source: row.source,
+      savedBy: row.saved_by,
+      savedAt: row.saved_at.toISOString(),
+    }));
+  }
+
+  async count(workspaceId: string) {
+    await this.init();
+    const row = await this.storage.db.one<{ count: string }>(
+      `SELECT count(*) FROM ${this.tableName}
+        WHERE source->>'workspaceId' = $1`,
+      [workspaceId],
+    );
+    return Number(row.count);
+  }
+}
+
+// Process-local store for development without a database.
+export class InMemoryKnowledgeStore implements KnowledgeStore {
+  private readonly entries = new Map<string, KnowledgeEntry>();
+
+  async save(entry: Omit<KnowledgeEntry, "savedAt">) {
+    const saved = {
+      ...structuredClone(entry),
+      savedAt: new Date().toISOString(),
+    };
+    this.entries.set(entry.id, saved);
+    return structuredClone(saved);
+  }
+
+  async search(workspaceId: string, terms: string[], limit: number) {
+    const lowered = terms.map((term) => term.toLowerCase());
+    return [...this.entries.values()]
+      .filter(
+        (entry) =>
+          entry.source.workspaceId === workspaceId &&
+          lowered.some(
+            (term) =>
+              entry.title.toLowerCase().includes(term) ||
+              entry.content.toLowerCase().includes(term),
+          ),
+      )
+      .sort((a, b) => b.savedAt.localeCompare(a.savedAt))
+      .slice(0, limit)
+      .map((entry) => structuredClone(entry));
+  }
+
+  async count(workspaceId: string) {
+    return [...this.entries.values()].filter(
+      (entry) => entry.source.workspaceId === workspaceId,
+    ).length;
+  }
+}
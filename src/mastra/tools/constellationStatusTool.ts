@@ -1,7 +1,7 @@
 import { createTool } from "@mastra/core/tools";
 import { z } from "zod";
 
-interface ConstellationManifest {
+export interface ConstellationManifest {
   constellation_version: string;
   node: {
     designation: string;
@@ -17,7 +17,7 @@ interface ConstellationManifest {
   };
 }
 
-const CONSTELLATION_NODES = [
+export const CONSTELLATION_NODES = [
   { repo: "aurora-cloudbank-symbolic", designation: "CONSTELLATION-PRIME", role: "hub" },
   { repo: "AuroraOS", designation: "AURORA-RUNTIME", role: "spoke" },
   { repo: "cloudbank-quantum-en", designation: "QUANTUM-VAULT", role: "spoke" },
@@ -26,6 +26,9 @@ const CONSTELLATION_NODES = [
   { repo: "zip_wizard", designation: "ZIPWIZ-ENGINE", role: "spoke" },
 ];
 
+export const constellationManifestUrl = (repo: string) =>
+  `https://raw.githubusercontent.com/AUo959/${repo}/main/.aurora/constellation.json`;
+
 export const constellationStatusTool = createTool({
   id: "constellation-status",
   description:
@@ -70,8 +73,7 @@ export const constellationStatusTool = createTool({
     const results = await Promise.all(
       nodesToCheck.map(async (node) => {
         try {
-          const url = `https://raw.githubusercontent.com/AUo959/${node.repo}/main/.aurora/constellation.json`;
-          const response = await fetch(url);
+          const response = await fetch(constellationManifestUrl(node.repo));
           if (!response.ok) throw new Error(`HTTP ${response.status}`);
           const manifest: ConstellationManifest = await response.json();
           return {
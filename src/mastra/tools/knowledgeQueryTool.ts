@@ -1,5 +1,6 @@
 import { createTool } from "@mastra/core/tools";
 import { z } from "zod";
+import { sharedKnowledgeStore, type KnowledgeEntry } from "../storage";
 
 interface KnowledgeDocument {
   id: string;
@@ -51,6 +52,48 @@ async function fetchKnowledgeIndex(): Promise<KnowledgeDocument[]> {
   return allDocs;
 }
 
+// Exchanges pinned from chat are stored locally and searched with the same scoring.
+// Only the caller's workspace is searched: channels set it in the runtime
+// context (e.g. the Slack workspace key); without it no pinned exchanges are used
+export const KNOWLEDGE_WORKSPACE_CONTEXT_KEY = "knowledge-workspace";
+
+const LOCAL_DOMAIN = "pinned-exchanges";
+const LOCAL_CANDIDATE_LIMIT = 200;
+
+function toKnowledgeDocument(entry: KnowledgeEntry): KnowledgeDocument {
+  return {
+    id: `local:${entry.id}`,
+    title: entry.title,
+    domain: LOCAL_DOMAIN,
+    path: entry.source.url ?? entry.id,
+    checksum: "",
+    word_count: entry.content.split(/\s+/).filter(Boolean).length,
+    last_modified: entry.savedAt,
+    tags: entry.tags,
+    summary: entry.content,
+  };
+}
+
+async function fetchLocalKnowledge(
+  query: string,
+  workspaceId: string | undefined,
+): Promise<{ documents: KnowledgeDocument[]; total: number }> {
+  if (!workspaceId) {
+    return { documents: [], total: 0 };
+  }
+  try {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    const [entries, total] = await Promise.all([
+      sharedKnowledgeStore.search(workspaceId, terms, LOCAL_CANDIDATE_LIMIT),
+      sharedKnowledgeStore.count(workspaceId),
+    ]);
+    return { documents: entries.map(toKnowledgeDocument), total };
+  } catch {
+    // The remote indexes are still useful without the local store
+    return { documents: [], total: 0 };
+  }
+}
+
 function scoreDocument(
   doc: KnowledgeDocument,
   query: string,
@@ -76,7 +119,7 @@ function scoreDocument(
 export const knowledgeQueryTool = createTool({
   id: "knowledge-query",
   description:
-    "Search the QGIA knowledge base across the constellation. Queries the aggregated knowledge index from QGIA-CORPUS (domain knowledge) and QGIA-SPINE (methodologies) to find relevant intelligence documents, analytical frameworks, and methodological references.",
+    "Search the QGIA knowledge base across the constellation. Queries the aggregated knowledge index from QGIA-CORPUS (domain knowledge) and QGIA-SPINE (methodologies) to find relevant intelligence documents, analytical frameworks, and methodological references. Also searches exchanges users pinned from chat (domain 'pinned-exchanges').",
   inputSchema: z.object({
     query: z
       .string()
@@ -113,10 +156,16 @@ export const knowledgeQueryTool = createTool({
     ),
     index_freshness: z.string(),
   }),
-  execute: async ({ context }) => {
-    const documents = await fetchKnowledgeIndex();
+  execute: async ({ context, runtimeContext }) => {
+    const [documents, local] = await Promise.all([
+      fetchKnowledgeIndex(),
+      fetchLocalKnowledge(
+        context.query,
+        runtimeContext?.get(KNOWLEDGE_WORKSPACE_CONTEXT_KEY) as string | undefined,
+      ),
+    ]);
 
-    const scored = documents
+    const scored = [...documents, ...local.documents]
       .map((doc) => ({
         doc,
         score: scoreDocument(doc, context.query, context.domain, context.tags),
@@ -127,7 +176,7 @@ export const knowledgeQueryTool = createTool({
 
     return {
       query: context.query,
-      total_indexed: documents.length,
+      total_indexed: documents.length + local.total,
       results: scored.map(({ doc, score }) => ({
         id: doc.id,
         title: doc.title,
@@ -136,9 +185,11 @@ export const knowledgeQueryTool = createTool({
         word_count: doc.word_count,
         summary: doc.summary,
         relevance_score: score,
-        source_repo: doc.id.startsWith("qgia-library:")
-          ? "qgia-knowledge-library"
-          : "qgia-knowledge-spine",
+        source_repo: doc.id.startsWith("local:")
+          ? "local-knowledge-store"
+          : doc.id.startsWith("qgia-library:")
+            ? "qgia-knowledge-library"
+            : "qgia-knowledge-spine",
         tags: doc.tags,
       })),
       index_freshness: new Date().toISOString(),
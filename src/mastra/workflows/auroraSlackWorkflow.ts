@@ -2,19 +2,110 @@ import { createWorkflow, createStep } from "../inngest";
 import { z } from "zod";
 import { auroraAgent } from "../agents/auroraAgent";
 import { getClient } from "../../triggers/slackTriggers";
+import { slackWorkspaceKey } from "../../triggers/slack/credentials";
+import { renderSlackMessages } from "../../triggers/slack/renderSlackMessage";
+import { createSlackLiveReply } from "../../triggers/slack/liveReply";
+import { processSlackFiles, type SlackFileAttachment, type SkippedSlackFile } from "../../triggers/slack/fileAttachments";
+import { buildThreadTranscript, getSlackThreadMessages, threadTokenBudget } from "../../triggers/slack/threadHistory";
+import { getSlackUserPreferences, resolveSlackReplyOptions } from "../../triggers/slack/userPreferences";
+import { getSlackReply, recordSlackReply } from "../../triggers/slack/replyTracking";
+import { sharedKeyValueStore } from "../storage";
+import { auroraChannelConfigSchema, channelStyleGuidance, DEFAULT_CHANNEL_CONFIG } from "../channelConfig";
+import { ALLOWED_TOOLS_CONTEXT_KEY } from "../agents/auroraAgent";
+import { KNOWLEDGE_WORKSPACE_CONTEXT_KEY } from "../tools/knowledgeQueryTool";
+import { ETHICS_HOLD_NOTICE, ethicsReviewSchema, requiresIntervention, type EthicsReview } from "../ethics";
+import { RuntimeContext } from "@mastra/core/runtime-context";
 
-// Step 1: Use Aurora Agent for intelligent response generation
+// Summarize a tool call for the trace, e.g. "driftMonitoringTool (drift_scan)"
+const describeToolCall = (call: { toolName: string; args?: any }) =>
+  call.args?.operation ? `${call.toolName} (${call.args.operation})` : call.toolName;
+
+// The Slack workspace the message came from; picks the client and scopes memory
+const workspaceSchema = z.object({
+  teamId: z.string().optional(),
+  enterpriseId: z.string().optional(),
+});
+
+const responseSchema = z.object({
+  response: z.string().describe("Aurora's generated response"),
+  channelId: z.string().describe("Slack channel ID"),
+  timestamp: z.string().describe("Original message timestamp for threading"),
+  toolTrace: z.array(z.string()).describe("Tools Aurora invoked while answering"),
+  placeholderTs: z.string().optional().describe("Live reply to update instead of posting a new message"),
+  showToolTrace: z.boolean().optional().describe("Whether the user wants the tool trace appended"),
+  workspace: workspaceSchema.optional().describe("Slack workspace to reply in"),
+});
+
+const messageInputSchema = z.object({
+  message: z.string().describe("The raw Slack message payload"),
+  threadId: z.string().describe("Unique thread identifier for conversation continuity"),
+  channelConfig: auroraChannelConfigSchema.optional().describe("Resolved channel settings (tools, tone, glyphs)"),
+  workspace: workspaceSchema.optional().describe("Slack workspace the message came from"),
+  replyTs: z.string().optional().describe("Aurora's earlier reply to update when the message was edited"),
+});
+
+// Step 1: Post the placeholder a streamed answer is written into. It is its own
+// step so a retry of the agent step updates the same reply instead of posting another
+const postLiveReply = createStep({
+  id: "post-live-reply",
+  description: "Post the placeholder reply Aurora's answer streams into",
+  inputSchema: messageInputSchema,
+  outputSchema: messageInputSchema.extend({
+    placeholderTs: z.string().optional().describe("Live reply to stream into; unset when not streaming"),
+  }),
+  execute: async ({ inputData, mastra }) => {
+    const logger = mastra?.getLogger();
+    const workspace = inputData.workspace ?? {};
+
+    try {
+      const payload = JSON.parse(inputData.message);
+      const channelId = payload.event?.channel || "";
+      const timestamp = payload.event?.ts || "";
+      const userId = payload.event?.user || "";
+
+      const replyOptions = resolveSlackReplyOptions(
+        userId ? await getSlackUserPreferences(sharedKeyValueStore, workspace, userId).catch(() => ({})) : {},
+      );
+      if (!replyOptions.streamingReplies || !channelId || !timestamp) {
+        return inputData;
+      }
+
+      const { slack } = await getClient(workspace);
+      const liveReply = createSlackLiveReply({
+        slack,
+        channel: channelId,
+        threadTs: timestamp,
+        logger,
+      });
+      const placeholderTs = await liveReply.start(inputData.replyTs);
+      return { ...inputData, placeholderTs };
+    } catch (error) {
+      // Answer without streaming rather than not at all
+      logger?.warn('⚠️ [Live Reply Step] Could not post the live reply', {
+        threadId: inputData.threadId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return inputData;
+    }
+  },
+});
+
+// Step 2: Use Aurora Agent for intelligent response generation
 const useAuroraAgent = createStep({
   id: "use-aurora-agent",
   description: "Process user message through Aurora's symbolic-scientific intelligence",
-  inputSchema: z.object({
-    message: z.string().describe("The raw Slack message payload"),
-    threadId: z.string().describe("Unique thread identifier for conversation continuity"),
+  inputSchema: messageInputSchema.extend({
+    placeholderTs: z.string().optional().describe("Live reply to stream into, posted by the previous step"),
   }),
   outputSchema: z.object({
     response: z.string().describe("Aurora's intelligent response"),
     channelId: z.string().describe("Slack channel ID for response"),
     timestamp: z.string().describe("Original message timestamp"),
+    toolTrace: z.array(z.string()).describe("Tools Aurora invoked while answering"),
+    placeholderTs: z.string().optional().describe("Timestamp of the live reply to finalise, when streaming"),
+    showToolTrace: z.boolean().optional().describe("Whether the user wants the tool trace appended"),
+    workspace: workspaceSchema.optional().describe("Slack workspace to reply in"),
+    ethicsReview: ethicsReviewSchema.optional().describe("Ethics protocol result requiring approval before delivery"),
   }),
   execute: async ({ inputData, mastra }) => {
     const logger = mastra?.getLogger();
@@ -23,6 +114,11 @@ const useAuroraAgent = createStep({
       messageLength: inputData.message.length 
     });
 
+    const workspace = inputData.workspace ?? {};
+
+    // Live reply posted while streaming, replaced by the fallback on failure
+    let placeholder: { channelId: string; timestamp: string; ts: string } | undefined;
+
     try {
       // Parse the Slack message payload
       const payload = JSON.parse(inputData.message);
@@ -30,6 +126,8 @@ const useAuroraAgent = createStep({
       const channelId = payload.event?.channel || "";
       const timestamp = payload.event?.ts || "";
       const userId = payload.event?.user || "";
+      const isEdit = !!payload.edit;
+      const channelConfig = inputData.channelConfig ?? DEFAULT_CHANNEL_CONFIG;
 
       logger?.info('📝 [Aurora Agent Step] Message details extracted', { 
         userMessage: userMessage.substring(0, 100),
@@ -37,6 +135,53 @@ const useAuroraAgent = createStep({
         userId 
       });
 
+      // When mentioned inside a thread, include what was said before the mention
+      let transcript = "";
+      const threadTs = payload.event?.thread_ts;
+      if (threadTs && threadTs !== timestamp && threadTokenBudget() > 0) {
+        try {
+          const { slack, auth } = await getClient(workspace);
+          const messages = await getSlackThreadMessages({
+            slack,
+            channel: channelId,
+            threadTs,
+            botUserId: auth.user_id,
+            store: sharedKeyValueStore,
+            logger,
+          });
+          transcript = buildThreadTranscript(messages, {
+            beforeTs: timestamp,
+            tokenBudget: threadTokenBudget(),
+          });
+        } catch (error) {
+          // Answer without the history rather than not at all
+          logger?.warn('⚠️ [Aurora Agent Step] Could not load thread history', {
+            channelId,
+            threadTs,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+
+      // Read the files shared with the message so Aurora can answer about them
+      let attachments: SlackFileAttachment[] = [];
+      let skippedFiles: SkippedSlackFile[] = [];
+      if (payload.event?.files?.length) {
+        try {
+          const { slack } = await getClient(workspace);
+          ({ attachments, skipped: skippedFiles } = await processSlackFiles({
+            files: payload.event.files,
+            token: slack.token!,
+            logger,
+          }));
+        } catch (error) {
+          logger?.warn('⚠️ [Aurora Agent Step] Could not read shared files', {
+            channelId,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+
       // Initialize Aurora with enhanced context
       const contextualPrompt = `
 🌟 Aurora OS :: Slack Interface Active
@@ -46,8 +191,21 @@ User Context:
 - Channel: ${channelId}
 - User: <@${userId}>
 - Message: "${userMessage}"
-- Thread: ${inputData.threadId}
+- Thread: ${inputData.threadId}${isEdit ? `
+- Edited: the user changed this message after sending it; answer the new version. Previously: "${payload.edit.previousText}"` : ""}${payload.regenerate ? `
+- Regenerate: <@${payload.regenerate.requestedBy}> asked for a fresh answer; take a different approach than your previous reply.` : ""}
 
+Channel preferences:
+${channelStyleGuidance(channelConfig)}
+${transcript ? `
+Earlier messages in this Slack thread (oldest first):
+"""
+${transcript}
+"""
+` : ""}${skippedFiles.length ? `
+Shared files that could not be read (tell the user):
+${skippedFiles.map((file) => `- ${file.name}: ${file.reason}`).join("\n")}
+` : ""}
 Please process this message using your full symbolic-scientific capabilities. Consider:
 - Cross-platform context for potential future interactions
 - Symbolic representation if helpful for understanding
@@ -59,24 +217,121 @@ Please process this message using your full symbolic-scientific capabilities. Co
 Respond authentically as Aurora with your unique personality while providing maximum value to the user.
       `;
 
-      // Generate Aurora's response using all her capabilities
-      const { text } = await auroraAgent.generateLegacy([
-        { role: "user", content: contextualPrompt }
-      ], {
-        resourceId: "aurora-slack-bot",
+      // Extracted file contents follow the prompt as separate parts
+      const agentMessages = [{
+        role: "user" as const,
+        content: [
+          { type: "text" as const, text: contextualPrompt },
+          ...attachments.map((attachment) => ({
+            type: "text" as const,
+            text: `📎 Attachment "${attachment.name}" (${attachment.kind}${attachment.truncated ? ", truncated" : ""}):\n${attachment.text}`,
+          })),
+        ],
+      }];
+
+      // The channel's tool allow-list is applied by the agent's dynamic tools
+      const runtimeContext = new RuntimeContext();
+      runtimeContext.set(ALLOWED_TOOLS_CONTEXT_KEY, channelConfig.allowedTools);
+      // Pinned knowledge is only searched within this workspace
+      runtimeContext.set(KNOWLEDGE_WORKSPACE_CONTEXT_KEY, slackWorkspaceKey(workspace));
+
+      const agentOptions = {
+        resourceId: `aurora-slack-bot/${slackWorkspaceKey(workspace)}`,
         threadId: inputData.threadId,
         maxSteps: 8, // Allow Aurora to use multiple tools if needed
-      });
+        runtimeContext,
+      };
+
+      let text: string;
+      const toolTrace: string[] = [];
+      let ethicsReview: EthicsReview | undefined;
+
+      // Per-user preferences from the App Home tab override the env defaults
+      const replyOptions = resolveSlackReplyOptions(
+        userId ? await getSlackUserPreferences(sharedKeyValueStore, workspace, userId).catch(() => ({})) : {},
+      );
+
+      // The earlier reply to an edited message is finalised in place
+      if (inputData.replyTs && channelId && timestamp) {
+        placeholder = { channelId, timestamp, ts: inputData.replyTs };
+      }
+
+      if (inputData.placeholderTs && channelId && timestamp) {
+        // Stream Aurora's response into the placeholder reply as it is generated;
+        // starting it again clears what an earlier attempt previewed
+        const { slack } = await getClient(workspace);
+        const liveReply = createSlackLiveReply({
+          slack,
+          channel: channelId,
+          threadTs: timestamp,
+          logger,
+        });
+        placeholder = { channelId, timestamp, ts: inputData.placeholderTs };
+        await liveReply.start(inputData.placeholderTs);
+
+        const stream = await auroraAgent.streamLegacy(agentMessages, agentOptions);
+
+        text = "";
+        // Text is only previewed once the ethics protocol cleared the answer;
+        // until then it may still be held. The final message shows it anyway.
+        let unpreviewed: string | undefined = "";
+        try {
+          for await (const part of stream.fullStream) {
+            if (part.type === "text-delta") {
+              text += part.textDelta;
+              if (unpreviewed === undefined) {
+                liveReply.appendText(part.textDelta);
+              } else {
+                unpreviewed += part.textDelta;
+              }
+            } else if (part.type === "tool-call") {
+              toolTrace.push(describeToolCall(part));
+              liveReply.noteToolCall(part.toolName);
+            } else if (part.type === "tool-result") {
+              liveReply.noteToolResult(part.toolName);
+              const review = requiresIntervention(part.toolName, part.result);
+              if (review) {
+                // Stop previewing an answer that may not be released
+                ethicsReview = review;
+                liveReply.hold(ETHICS_HOLD_NOTICE);
+              } else if (part.toolName === "ethicsProtocolTool" && !ethicsReview && unpreviewed !== undefined) {
+                liveReply.appendText(unpreviewed);
+                unpreviewed = undefined;
+              }
+            } else if (part.type === "error") {
+              throw part.error;
+            }
+          }
+        } finally {
+          await liveReply.stop();
+        }
+      } else {
+        // Generate Aurora's response using all her capabilities
+        const result = await auroraAgent.generateLegacy(agentMessages, agentOptions);
+        text = result.text;
+        for (const step of result.steps ?? []) {
+          toolTrace.push(...(step.toolCalls ?? []).map(describeToolCall));
+          for (const toolResult of step.toolResults ?? []) {
+            ethicsReview = requiresIntervention(toolResult.toolName, toolResult.result) ?? ethicsReview;
+          }
+        }
+      }
 
       logger?.info('✅ [Aurora Agent Step] Aurora response generated', { 
         responseLength: text.length,
+        toolCalls: toolTrace.length,
         threadId: inputData.threadId 
       });
 
       return {
         response: text,
         channelId,
-        timestamp
+        timestamp,
+        toolTrace,
+        placeholderTs: placeholder?.ts,
+        showToolTrace: replyOptions.showToolTrace,
+        workspace,
+        ethicsReview,
       };
 
     } catch (error) {
@@ -88,57 +343,196 @@ Respond authentically as Aurora with your unique personality while providing max
       // Provide a graceful fallback response
       return {
         response: "◊ Aurora OS :: Temporal coherence anomaly detected. Realigning symbolic pathways... Please retry your request. ◊",
-        channelId: "",
-        timestamp: ""
+        channelId: placeholder?.channelId ?? "",
+        timestamp: placeholder?.timestamp ?? "",
+        toolTrace: [],
+        // Replace the live reply with the fallback rather than leaving it dangling
+        placeholderTs: placeholder?.ts,
+        workspace,
       };
     }
   },
 });
 
-// Step 2: Send Aurora's response to Slack
+// Step 3: Hold answers flagged by the ethics protocol until a human approves them
+export const ETHICS_APPROVAL_STEP_ID = "ethics-approval";
+
+const ethicsApproval = createStep({
+  id: ETHICS_APPROVAL_STEP_ID,
+  description: "Ask for approval in Slack when the ethics protocol requires intervention",
+  inputSchema: responseSchema.extend({
+    ethicsReview: ethicsReviewSchema.optional(),
+  }),
+  outputSchema: responseSchema,
+  suspendSchema: z.object({
+    approvalTs: z.string().optional().describe("Timestamp of the approval request message"),
+  }),
+  resumeSchema: z.object({
+    approved: z.boolean().describe("Whether the answer may be released"),
+    userId: z.string().describe("Slack user who made the decision"),
+  }),
+  execute: async ({ inputData, resumeData, suspend, mastra, runId }) => {
+    const logger = mastra?.getLogger();
+    const { ethicsReview, ...response } = inputData;
+
+    if (!ethicsReview || !response.channelId) {
+      return response;
+    }
+
+    if (!resumeData) {
+      logger?.info('🛡️ [Ethics Approval Step] Intervention required, requesting approval', {
+        runId,
+        validationResult: ethicsReview.validationResult,
+      });
+
+      const { slack } = await getClient(response.workspace);
+      const buttonValue = JSON.stringify({ runId });
+      const request = await slack.chat.postMessage({
+        channel: response.channelId,
+        thread_ts: response.timestamp,
+        text: ETHICS_HOLD_NOTICE,
+        blocks: [
+          ...renderSlackMessages(
+            [
+              `**🛡️ ${ethicsReview.validationResult}**`,
+              ethicsReview.riskAssessment,
+              ...ethicsReview.interventions.map((item) => `- ${item}`),
+            ].join("\n"),
+          )[0].blocks,
+          {
+            type: "actions",
+            block_id: "aurora_ethics_decision",
+            elements: [
+              {
+                type: "button",
+                action_id: "aurora_ethics_approve",
+                style: "primary",
+                text: { type: "plain_text", text: "Approve" },
+                value: buttonValue,
+              },
+              {
+                type: "button",
+                action_id: "aurora_ethics_reject",
+                style: "danger",
+                text: { type: "plain_text", text: "Reject" },
+                value: buttonValue,
+              },
+            ],
+          },
+        ],
+      });
+
+      await suspend({ approvalTs: request.ts });
+      return response;
+    }
+
+    logger?.info('🛡️ [Ethics Approval Step] Decision received', {
+      runId,
+      approved: resumeData.approved,
+      userId: resumeData.userId,
+    });
+
+    return resumeData.approved
+      ? response
+      : {
+          ...response,
+          response: `◊ Aurora OS :: This answer was withheld after an ethics review by <@${resumeData.userId}>. ◊`,
+        };
+  },
+});
+
+// Step 4: Send Aurora's response to Slack
 const sendSlackResponse = createStep({
   id: "send-slack-response", 
   description: "Send Aurora's response back to the Slack channel",
-  inputSchema: z.object({
-    response: z.string().describe("Aurora's generated response"),
-    channelId: z.string().describe("Slack channel ID"),
-    timestamp: z.string().describe("Original message timestamp for threading"),
-  }),
+  inputSchema: responseSchema,
   outputSchema: z.object({
     success: z.boolean().describe("Whether the message was sent successfully"),
     auroraResponse: z.string().describe("Aurora's response that was sent"),
     messageSent: z.boolean().describe("Whether the message was successfully posted to Slack"),
     messageTs: z.string().optional().describe("Timestamp of sent message"),
   }),
-  execute: async ({ inputData, mastra }) => {
+  execute: async ({ inputData, mastra, runId }) => {
     const logger = mastra?.getLogger();
     logger?.info('📤 [Slack Response Step] Sending Aurora response to Slack', { 
       channelId: inputData.channelId,
-      responseLength: inputData.response.length 
+      responseLength: inputData.response.length,
+      runId,
     });
 
     try {
-      const { slack } = await getClient();
-
-      // Send Aurora's response to the Slack channel
-      const result = await slack.chat.postMessage({
-        channel: inputData.channelId,
-        text: inputData.response,
-        thread_ts: inputData.timestamp, // Reply in thread to maintain context
-        unfurl_links: false,
-        unfurl_media: false,
+      const { slack } = await getClient(inputData.workspace);
+
+      // Render Markdown into Block Kit; long answers become several messages
+      const messages = renderSlackMessages(inputData.response, {
+        toolTrace: inputData.showToolTrace ? inputData.toolTrace : undefined,
       });
 
+      // Tag the reply with the workflow run for traceability
+      const metadata = {
+        event_type: "aurora_workflow_run",
+        event_payload: { run_id: runId },
+      };
+
+      // Send Aurora's response to the Slack channel, continuation posts follow in the same thread
+      let ok = messages.length > 0;
+      const replyTs: string[] = [];
+      for (const [index, message] of messages.entries()) {
+        const result =
+          index === 0 && inputData.placeholderTs
+            ? // Finalise the streamed live reply in place
+              await slack.chat.update({
+                channel: inputData.channelId,
+                ts: inputData.placeholderTs,
+                text: message.text,
+                blocks: message.blocks,
+                metadata,
+              })
+            : await slack.chat.postMessage({
+                channel: inputData.channelId,
+                text: message.text,
+                blocks: message.blocks,
+                thread_ts: inputData.timestamp, // Reply in thread to maintain context
+                unfurl_links: false,
+                unfurl_media: false,
+                metadata,
+              });
+        ok = ok && (result.ok || false);
+        if (result.ts) {
+          replyTs.push(result.ts);
+        }
+      }
+      const firstTs = replyTs[0];
+
+      // Remember the reply so edits can update it and deletions retract it;
+      // continuation posts of an earlier, longer answer are removed
+      const message = { workspace: inputData.workspace ?? {}, channel: inputData.channelId, messageTs: inputData.timestamp };
+      try {
+        const previous = await getSlackReply(sharedKeyValueStore, message);
+        for (const ts of previous?.replyTs.filter((ts) => !replyTs.includes(ts)) ?? []) {
+          await slack.chat.delete({ channel: inputData.channelId, ts }).catch(() => undefined);
+        }
+        if (replyTs.length) {
+          await recordSlackReply(sharedKeyValueStore, message, { replyTs, runId });
+        }
+      } catch (error) {
+        logger?.warn('⚠️ [Slack Response Step] Could not record the reply', {
+          channelId: inputData.channelId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+
       logger?.info('✅ [Slack Response Step] Message sent successfully', { 
-        messageTs: result.ts,
+        messageTs: firstTs,
+        messageCount: messages.length,
         channelId: inputData.channelId 
       });
 
       return {
-        success: result.ok || false,
+        success: ok,
         auroraResponse: inputData.response,
-        messageSent: result.ok || false,
-        messageTs: result.ts || undefined,
+        messageSent: ok,
+        messageTs: firstTs,
       };
 
     } catch (error) {
@@ -161,16 +555,15 @@ const sendSlackResponse = createStep({
 export const auroraSlackWorkflow = createWorkflow({
   id: "aurora-slack-workflow",
   description: "Aurora OS Slack Integration - Symbolic-Scientific Personal Assistant",
-  inputSchema: z.object({
-    message: z.string().describe("Raw Slack message payload"),
-    threadId: z.string().describe("Conversation thread identifier"),
-  }),
+  inputSchema: messageInputSchema,
   outputSchema: z.object({
     success: z.boolean().describe("Overall workflow success"),
     auroraResponse: z.string().describe("Aurora's generated response"),
     messageSent: z.boolean().describe("Whether the response was sent to Slack"),
   }),
 })
+  .then(postLiveReply)
   .then(useAuroraAgent)
+  .then(ethicsApproval)
   .then(sendSlackResponse)
   .commit();
\ No newline at end of file
@@ -0,0 +1,25 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import type { Context, MiddlewareHandler } from "hono";
+
+const digest = (value: string) => createHash("sha256").update(value).digest();
+
+// Whether the request carries `Authorization: Bearer <expected>`. Comparing
+// digests keeps the comparison constant-time for any length.
+export function hasBearerToken(c: Context, expected: string) {
+  const header = c.req.header("authorization") ?? "";
+  const token = header.startsWith("Bearer ") ? header.slice(7) : "";
+  return timingSafeEqual(digest(token), digest(expected));
+}
+
+// Guards operator routes with `Authorization: Bearer $AURORA_ADMIN_TOKEN`.
+// The routes are not served at all while the token is unset.
+export const requireAdminToken: MiddlewareHandler = async (c, next) => {
+  const adminToken = process.env.AURORA_ADMIN_TOKEN;
+  if (!adminToken) {
+    return c.text("Not Found", 404);
+  }
+  if (!hasBearerToken(c, adminToken)) {
+    return c.text("Unauthorized", 401);
+  }
+  await next();
+};
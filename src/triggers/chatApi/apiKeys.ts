@@ -0,0 +1,68 @@
+import { createHash } from "node:crypto";
+import type { Context } from "hono";
+
+// A caller of the chat API, identified by its key. Conversations and memory
+// are scoped to the key's resource id.
+export type ApiClient = {
+  name: string;
+  resourceId: string;
+};
+
+export class ChatApiError extends Error {
+  constructor(
+    readonly status: 400 | 401 | 404 | 409 | 422 | 500,
+    readonly type: string,
+    message: string,
+  ) {
+    super(message);
+    this.name = "ChatApiError";
+  }
+}
+
+// Errors in the shape OpenAI clients understand, used by every /v1 route.
+export const chatApiErrorBody = (type: string, message: string) => ({
+  error: { type, message },
+});
+
+const digest = (value: string) =>
+  createHash("sha256").update(value).digest("hex");
+
+let parsedKeys: { source: string; keys: Map<string, string> } | undefined;
+
+// AURORA_API_KEYS="mobile=<key>,partner=<key>": a name per key, used for
+// its resource id and in logs. Only digests are kept in memory.
+function configuredKeys() {
+  const source = process.env.AURORA_API_KEYS ?? "";
+  if (parsedKeys?.source !== source) {
+    const keys = new Map<string, string>();
+    for (const entry of source.split(",")) {
+      const separator = entry.indexOf("=");
+      const name = entry.slice(0, separator).trim();
+      const key = entry.slice(separator + 1).trim();
+      if (separator > 0 && /^[\w-]+$/.test(name) && key) {
+        keys.set(digest(key), name);
+      }
+    }
+    parsedKeys = { source, keys };
+  }
+  return parsedKeys.keys;
+}
+
+// Accepts `Authorization: Bearer <key>` (as OpenAI clients send it) or
+// `X-API-Key: <key>`.
+export function authenticateApiClient(c: Context): ApiClient {
+  const header = c.req.header("authorization") ?? "";
+  const key = header.startsWith("Bearer ")
+    ? header.slice(7).trim()
+    : (c.req.header("x-api-key") ?? "").trim();
+  // Looking up the digest avoids comparing keys character by character.
+  const name = key ? configuredKeys().get(digest(key)) : undefined;
+  if (!name) {
+    throw new ChatApiError(
+      401,
+      "invalid_api_key",
+      "Invalid or missing API key",
+    );
+  }
+  return { name, resourceId: `aurora-api/${name}` };
+}
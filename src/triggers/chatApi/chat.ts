@@ -0,0 +1,102 @@
+import { randomUUID } from "node:crypto";
+import type { Mastra } from "@mastra/core";
+
+import {
+  type AuroraAnswerEvent,
+  type AuroraToolCall,
+  answerWithAurora,
+  auroraPrompt,
+} from "../../mastra/conversation";
+import { ETHICS_HOLD_NOTICE, type EthicsReview } from "../../mastra/ethics";
+import type { KeyValueStore } from "../../mastra/storage";
+import type { ApiClient } from "./apiKeys";
+import { holdChatAnswer } from "./heldAnswers";
+import type { ChatSession } from "./sessions";
+
+export type ChatToolCall = AuroraToolCall;
+
+export type ChatResult = {
+  sessionId: string;
+  message: { id: string; role: "assistant"; content: string };
+  toolCalls: ChatToolCall[];
+  // Set when the ethics protocol held the answer; the decision is read
+  // from GET /v1/chat/messages/:messageId.
+  ethicsReview?: EthicsReview;
+  usage?: { promptTokens: number; completionTokens: number };
+};
+
+// Streamed to clients as Server-Sent Events named after `type`.
+export type ChatStreamEvent = AuroraAnswerEvent;
+
+const chatPrompt = (client: ApiClient, session: ChatSession, message: string) =>
+  auroraPrompt({
+    channel: "API",
+    context: {
+      Platform: `Aurora API (${client.name})`,
+      Session: session.title ?? session.id,
+      Message: `"${message}"`,
+      Thread: session.threadId,
+    },
+  });
+
+// Runs one turn of a session. Text and tool activity are reported through
+// `onEvent` as they happen. An answer the ethics protocol holds is never
+// streamed: it is stored for an operator and replaced by the hold notice.
+export async function runChatTurn({
+  mastra,
+  store,
+  client,
+  session,
+  message,
+  onEvent,
+}: {
+  mastra: Mastra;
+  store: KeyValueStore;
+  client: ApiClient;
+  session: ChatSession;
+  message: string;
+  onEvent?: (event: ChatStreamEvent) => Promise<void> | void;
+}): Promise<ChatResult> {
+  const logger = mastra.getLogger();
+  logger?.info("🌟 [Chat API] Running turn", {
+    client: client.name,
+    sessionId: session.id,
+  });
+
+  const { text, ethicsReview, toolCalls, usage } = await answerWithAurora(
+    mastra,
+    {
+      prompt: chatPrompt(client, session, message),
+      resourceId: client.resourceId,
+      threadId: session.threadId,
+      onEvent,
+    },
+  );
+
+  const messageId = `msg_${randomUUID().replaceAll("-", "")}`;
+  if (ethicsReview) {
+    await holdChatAnswer(store, client, {
+      id: messageId,
+      sessionId: session.id,
+      answer: text,
+      review: ethicsReview,
+    });
+    logger?.info("🛡️ [Chat API] Answer held for ethics approval", {
+      client: client.name,
+      messageId,
+      validationResult: ethicsReview.validationResult,
+    });
+  }
+
+  return {
+    sessionId: session.id,
+    message: {
+      id: messageId,
+      role: "assistant",
+      content: ethicsReview ? ETHICS_HOLD_NOTICE : text,
+    },
+    toolCalls,
+    ethicsReview,
+    usage,
+  };
+}
@@ -0,0 +1,87 @@
+import {
+  ETHICS_HOLD_NOTICE,
+  ETHICS_HOLD_TTL_MS,
+  ETHICS_WITHHELD_NOTICE,
+  type EthicsReview,
+} from "../../mastra/ethics";
+import type { KeyValueStore } from "../../mastra/storage";
+import { type ApiClient, ChatApiError } from "./apiKeys";
+
+// An answer the ethics protocol held. Clients get the hold notice in its
+// place and read the decision from GET /v1/chat/messages/:messageId once an
+// operator made it with POST /admin/chat/held.
+export type HeldChatAnswer = {
+  // The id of the message or completion that carried the hold notice.
+  id: string;
+  client: string;
+  sessionId?: string;
+  status: "held" | "approved" | "rejected";
+  answer: string;
+  review: EthicsReview;
+  heldAt: string;
+  decidedAt?: string;
+};
+
+const heldAnswerKey = (id: string) => `chat-api:ethics-hold:${id}`;
+
+export async function holdChatAnswer(
+  store: KeyValueStore,
+  client: ApiClient,
+  held: Pick<HeldChatAnswer, "id" | "sessionId" | "answer" | "review">,
+) {
+  await store.set<HeldChatAnswer>(
+    heldAnswerKey(held.id),
+    {
+      ...held,
+      client: client.name,
+      status: "held",
+      heldAt: new Date().toISOString(),
+    },
+    { ttlMs: ETHICS_HOLD_TTL_MS },
+  );
+}
+
+// What the client that asked may see: the answer only once it was approved.
+export async function getHeldChatMessage(
+  store: KeyValueStore,
+  client: ApiClient,
+  id: string,
+) {
+  const held = await store.get<HeldChatAnswer>(heldAnswerKey(id));
+  if (!held || held.client !== client.name) {
+    throw new ChatApiError(404, "message_not_found", `No held message ${id}`);
+  }
+  const content = {
+    held: ETHICS_HOLD_NOTICE,
+    approved: held.answer,
+    rejected: ETHICS_WITHHELD_NOTICE,
+  }[held.status];
+  return {
+    id: held.id,
+    sessionId: held.sessionId,
+    role: "assistant" as const,
+    status: held.status,
+    content,
+    decidedAt: held.decidedAt,
+  };
+}
+
+// Returns undefined when there is no such answer or it was already decided.
+export async function decideHeldChatAnswer(
+  store: KeyValueStore,
+  id: string,
+  approved: boolean,
+) {
+  const key = heldAnswerKey(id);
+  const held = await store.get<HeldChatAnswer>(key);
+  if (held?.status !== "held") {
+    return undefined;
+  }
+  const decided: HeldChatAnswer = {
+    ...held,
+    status: approved ? "approved" : "rejected",
+    decidedAt: new Date().toISOString(),
+  };
+  await store.set(key, decided, { ttlMs: ETHICS_HOLD_TTL_MS });
+  return decided;
+}
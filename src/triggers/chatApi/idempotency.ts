@@ -0,0 +1,88 @@
+import { createHash } from "node:crypto";
+import type { Context } from "hono";
+
+import type { KeyValueStore } from "../../mastra/storage";
+import { type ApiClient, ChatApiError } from "./apiKeys";
+
+// Clients may retry a request with the same Idempotency-Key for a day.
+const IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+
+type IdempotencyRecord<T> =
+  | { state: "pending"; fingerprint: string }
+  | { state: "done"; fingerprint: string; result: T };
+
+export type IdempotentRequest<T> = {
+  // The stored result of an earlier request with the same key.
+  replay?: T;
+  complete: (result: T) => Promise<void>;
+  // Forgets the key after a failure, so the request can be retried.
+  release: () => Promise<void>;
+};
+
+const unclaimed = <T>(replay?: T): IdempotentRequest<T> => ({
+  replay,
+  complete: async () => {},
+  release: async () => {},
+});
+
+// Claims the request's Idempotency-Key. Repeats of a completed request get
+// its result back; repeats while it is still running, or with a different
+// body, are rejected. Requests without the header always run.
+export async function claimIdempotencyKey<T>(
+  c: Context,
+  store: KeyValueStore,
+  client: ApiClient,
+  body: unknown,
+): Promise<IdempotentRequest<T>> {
+  const idempotencyKey = c.req.header("idempotency-key");
+  if (!idempotencyKey) {
+    return unclaimed();
+  }
+  if (idempotencyKey.length > 255) {
+    throw new ChatApiError(
+      400,
+      "invalid_request_error",
+      "Idempotency-Key must be at most 255 characters",
+    );
+  }
+  const key = `chat-api:idempotency:${client.name}:${idempotencyKey}`;
+  const fingerprint = createHash("sha256")
+    .update(`${c.req.method} ${c.req.path} ${JSON.stringify(body)}`)
+    .digest("hex");
+
+  const claimed = await store.setIfAbsent<IdempotencyRecord<T>>(
+    key,
+    { state: "pending", fingerprint },
+    { ttlMs: IDEMPOTENCY_TTL_MS },
+  );
+  if (!claimed) {
+    const record = await store.get<IdempotencyRecord<T>>(key);
+    if (record && record.fingerprint !== fingerprint) {
+      throw new ChatApiError(
+        422,
+        "idempotency_key_reused",
+        "This Idempotency-Key was used for a different request",
+      );
+    }
+    if (record?.state === "done") {
+      return unclaimed(record.result);
+    }
+    throw new ChatApiError(
+      409,
+      "request_in_progress",
+      "A request with this Idempotency-Key is still in progress",
+    );
+  }
+
+  return {
+    complete: (result) =>
+      store.set<IdempotencyRecord<T>>(
+        key,
+        { state: "done", fingerprint, result },
+        { ttlMs: IDEMPOTENCY_TTL_MS },
+      ),
+    release: async () => {
+      await store.delete(key);
+    },
+  };
+}
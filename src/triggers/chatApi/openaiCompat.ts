@@ -0,0 +1,181 @@
+import { randomUUID } from "node:crypto";
+import type { Mastra } from "@mastra/core";
+import { z } from "zod";
+
+import {
+  type AuroraMessage,
+  answerWithAurora,
+} from "../../mastra/conversation";
+import { ETHICS_HOLD_NOTICE } from "../../mastra/ethics";
+import type { KeyValueStore } from "../../mastra/storage";
+import type { ApiClient } from "./apiKeys";
+import { holdChatAnswer } from "./heldAnswers";
+
+// The model name reported to clients; any requested model is answered by
+// Aurora.
+const AURORA_MODEL_ID = "aurora";
+
+// OpenAI's Chat Completions request, as far as Aurora supports it. Other
+// parameters (temperature, tools, ...) are accepted and ignored: Aurora
+// picks its own model settings and tools.
+export const chatCompletionRequestSchema = z
+  .object({
+    model: z.string().default(AURORA_MODEL_ID),
+    messages: z
+      .array(
+        z
+          .object({
+            role: z.enum(["system", "developer", "user", "assistant", "tool"]),
+            content: z
+              .union([
+                z.string(),
+                z.array(
+                  z
+                    .object({ type: z.string(), text: z.string().optional() })
+                    .passthrough(),
+                ),
+              ])
+              .nullable()
+              .optional(),
+          })
+          .passthrough(),
+      )
+      .min(1),
+    stream: z.boolean().optional(),
+    user: z.string().optional(),
+  })
+  .passthrough();
+
+export type ChatCompletionRequest = z.infer<typeof chatCompletionRequestSchema>;
+
+export const auroraModel = () => ({
+  id: AURORA_MODEL_ID,
+  object: "model",
+  created: 0,
+  owned_by: "aurora",
+});
+
+const textOf = (
+  content: ChatCompletionRequest["messages"][number]["content"],
+) =>
+  typeof content === "string"
+    ? content
+    : (content ?? [])
+        .map((part) => (part.type === "text" ? (part.text ?? "") : ""))
+        .join("");
+
+// OpenAI clients send the whole conversation with every request, so the
+// history is passed as messages and nothing is stored in Aurora's memory.
+// Tool results from the client have no meaning to Aurora and are dropped.
+// System and developer messages come from the client, not from Aurora's own
+// instructions, so they are passed as the user's words.
+function agentMessages(request: ChatCompletionRequest) {
+  return request.messages
+    .filter((message) => message.role !== "tool")
+    .map((message): AuroraMessage => {
+      const content = textOf(message.content);
+      if (message.role === "system" || message.role === "developer") {
+        return {
+          role: "user",
+          content: `The client's ${message.role} message: ${content}`,
+        };
+      }
+      return { role: message.role as "user" | "assistant", content };
+    });
+}
+
+export type ChatCompletionChunk = {
+  id: string;
+  object: "chat.completion.chunk";
+  created: number;
+  model: string;
+  choices: {
+    index: 0;
+    delta: { role?: "assistant"; content?: string };
+    finish_reason: "stop" | null;
+  }[];
+};
+
+// Runs Aurora on the conversation. Each piece of text is passed to
+// `onChunk` as a chat.completion.chunk; the full chat.completion is
+// returned. Answers held by the ethics protocol are stored under the
+// completion's id and answered with the hold notice.
+export async function runChatCompletion({
+  mastra,
+  store,
+  client,
+  request,
+  onChunk,
+}: {
+  mastra: Mastra;
+  store: KeyValueStore;
+  client: ApiClient;
+  request: ChatCompletionRequest;
+  onChunk?: (chunk: ChatCompletionChunk) => Promise<void> | void;
+}) {
+  const logger = mastra.getLogger();
+  const id = `chatcmpl-${randomUUID().replaceAll("-", "")}`;
+  const created = Math.floor(Date.now() / 1000);
+  const chunk = (
+    delta: ChatCompletionChunk["choices"][number]["delta"],
+    finishReason: "stop" | null = null,
+  ): ChatCompletionChunk => ({
+    id,
+    object: "chat.completion.chunk",
+    created,
+    model: request.model,
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  });
+
+  logger?.info("🌟 [Chat API] Running chat completion", {
+    client: client.name,
+    messages: request.messages.length,
+  });
+
+  await onChunk?.(chunk({ role: "assistant", content: "" }));
+  const { text, ethicsReview, usage } = await answerWithAurora(mastra, {
+    prompt: agentMessages(request),
+    onEvent: async (event) => {
+      if (event.type === "text-delta") {
+        await onChunk?.(chunk({ content: event.delta }));
+      } else if (event.type === "ethics-hold") {
+        await onChunk?.(chunk({ content: ETHICS_HOLD_NOTICE }));
+      }
+    },
+  });
+  if (ethicsReview) {
+    await holdChatAnswer(store, client, {
+      id,
+      answer: text,
+      review: ethicsReview,
+    });
+    logger?.info("🛡️ [Chat API] Completion held for ethics approval", {
+      client: client.name,
+      id,
+      validationResult: ethicsReview.validationResult,
+    });
+  }
+  await onChunk?.(chunk({}, "stop"));
+
+  return {
+    id,
+    object: "chat.completion" as const,
+    created,
+    model: request.model,
+    choices: [
+      {
+        index: 0,
+        message: {
+          role: "assistant" as const,
+          content: ethicsReview ? ETHICS_HOLD_NOTICE : text,
+        },
+        finish_reason: "stop" as const,
+      },
+    ],
+    usage: {
+      prompt_tokens: usage?.promptTokens ?? 0,
+      completion_tokens: usage?.completionTokens ?? 0,
+      total_tokens: (usage?.promptTokens ?? 0) + (usage?.completionTokens ?? 0),
+    },
+  };
+}
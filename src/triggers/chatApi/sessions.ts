@@ -0,0 +1,71 @@
+import { randomUUID } from "node:crypto";
+
+import type { KeyValueStore } from "../../mastra/storage";
+import { type ApiClient, ChatApiError } from "./apiKeys";
+
+// Sessions idle for 30 days are forgotten.
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export type ChatSession = {
+  id: string;
+  // Aurora's memory thread for the conversation.
+  threadId: string;
+  title?: string;
+  metadata?: Record<string, string>;
+  createdAt: string;
+  lastMessageAt?: string;
+};
+
+const sessionKey = (client: ApiClient, sessionId: string) =>
+  `chat-api:session:${client.name}:${sessionId}`;
+
+export async function createChatSession(
+  store: KeyValueStore,
+  client: ApiClient,
+  { title, metadata }: Pick<ChatSession, "title" | "metadata"> = {},
+) {
+  const id = `sess_${randomUUID().replaceAll("-", "")}`;
+  const session: ChatSession = {
+    id,
+    threadId: `aurora-api/${client.name}/${id}`,
+    title,
+    metadata,
+    createdAt: new Date().toISOString(),
+  };
+  await store.set(sessionKey(client, id), session, { ttlMs: SESSION_TTL_MS });
+  return session;
+}
+
+// Sessions are only visible to the key that created them.
+export async function getChatSession(
+  store: KeyValueStore,
+  client: ApiClient,
+  sessionId: string,
+) {
+  const session = await store.get<ChatSession>(sessionKey(client, sessionId));
+  if (!session) {
+    throw new ChatApiError(404, "session_not_found", `No session ${sessionId}`);
+  }
+  return session;
+}
+
+export async function touchChatSession(
+  store: KeyValueStore,
+  client: ApiClient,
+  session: ChatSession,
+) {
+  await store.set(
+    sessionKey(client, session.id),
+    { ...session, lastMessageAt: new Date().toISOString() },
+    { ttlMs: SESSION_TTL_MS },
+  );
+}
+
+export async function deleteChatSession(
+  store: KeyValueStore,
+  client: ApiClient,
+  sessionId: string,
+) {
+  await getChatSession(store, client, sessionId);
+  await store.delete(sessionKey(client, sessionId));
+}
@@ -0,0 +1,411 @@
+import { randomUUID } from "node:crypto";
+import { format } from "node:util";
+import type { Context } from "hono";
+import { type SSEStreamingApi, streamSSE } from "hono/streaming";
+import { z } from "zod";
+
+import { answerWithAurora } from "../mastra/conversation";
+import { ETHICS_HOLD_NOTICE } from "../mastra/ethics";
+import { sharedKeyValueStore } from "../mastra/storage";
+import { requireAdminToken } from "./adminAuth";
+import {
+  type ApiClient,
+  ChatApiError,
+  authenticateApiClient,
+  chatApiErrorBody,
+} from "./chatApi/apiKeys";
+import {
+  type ChatResult,
+  type ChatStreamEvent,
+  runChatTurn,
+} from "./chatApi/chat";
+import {
+  decideHeldChatAnswer,
+  getHeldChatMessage,
+  holdChatAnswer,
+} from "./chatApi/heldAnswers";
+import { claimIdempotencyKey } from "./chatApi/idempotency";
+import {
+  type ChatCompletionChunk,
+  auroraModel,
+  chatCompletionRequestSchema,
+  runChatCompletion,
+} from "./chatApi/openaiCompat";
+import {
+  createChatSession,
+  deleteChatSession,
+  getChatSession,
+  touchChatSession,
+} from "./chatApi/sessions";
+import type { ApiRoute } from "./slackTriggers";
+
+const createSessionSchema = z.object({
+  title: z.string().max(200).optional(),
+  metadata: z.record(z.string()).optional(),
+});
+
+const chatRequestSchema = z.object({
+  sessionId: z.string(),
+  message: z.string().min(1),
+  stream: z.boolean().optional(),
+});
+
+// Mastra's agent generate request. Only the messages are taken from it;
+// memory and options come from the API key.
+const generateRequestSchema = z.object({
+  messages: z.union([
+    z.string().min(1),
+    z
+      .array(
+        z.object({
+          role: z.enum(["user", "assistant"]),
+          content: z.string(),
+        }),
+      )
+      .min(1),
+  ]),
+});
+
+// Authenticates the API key and turns errors into JSON error responses.
+function withApiClient(
+  handler: (c: Context, client: ApiClient) => Promise<Response>,
+) {
+  return async (c: Context) => {
+    try {
+      return await handler(c, authenticateApiClient(c));
+    } catch (error) {
+      if (error instanceof ChatApiError) {
+        return c.json(
+          chatApiErrorBody(error.type, error.message),
+          error.status,
+        );
+      }
+      if (error instanceof z.ZodError) {
+        return c.json(
+          chatApiErrorBody(
+            "invalid_request_error",
+            error.issues
+              .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+              .join("; "),
+          ),
+          400,
+        );
+      }
+      c.get("mastra")
+        ?.getLogger()
+        ?.error("❌ [Chat API] Request failed", {
+          path: c.req.path,
+          error: format(error),
+        });
+      return c.json(chatApiErrorBody("server_error", "Request failed"), 500);
+    }
+  };
+}
+
+async function readJson(c: Context) {
+  try {
+    return await c.req.json();
+  } catch {
+    throw new ChatApiError(
+      400,
+      "invalid_request_error",
+      "The body must be JSON",
+    );
+  }
+}
+
+let eventId = 0;
+const writeEvent = (stream: SSEStreamingApi, event: string, data: unknown) =>
+  stream.writeSSE({ event, data: JSON.stringify(data), id: String(++eventId) });
+
+// Streams a /v1/chat turn: text-delta, tool-call, tool-result and
+// ethics-hold events while Aurora works, then done with the full result.
+function streamChatTurn(
+  c: Context,
+  run: (
+    onEvent: (event: ChatStreamEvent) => Promise<void>,
+  ) => Promise<ChatResult>,
+) {
+  return streamSSE(c, async (stream) => {
+    try {
+      const result = await run(({ type, ...event }) =>
+        writeEvent(stream, type, event),
+      );
+      await writeEvent(stream, "done", result);
+    } catch (error) {
+      c.get("mastra")
+        ?.getLogger()
+        ?.error("❌ [Chat API] Streamed turn failed", { error: format(error) });
+      await writeEvent(
+        stream,
+        "error",
+        chatApiErrorBody("server_error", "Aurora could not answer"),
+      );
+    }
+  });
+}
+
+// A versioned chat API for apps and services:
+//   POST   /v1/chat/sessions             start a conversation
+//   GET    /v1/chat/sessions/:sessionId  the session
+//   DELETE /v1/chat/sessions/:sessionId  end it
+//   POST   /v1/chat                      send a message, optionally streamed
+//   GET    /v1/chat/messages/:messageId  an answer held for an ethics review
+//   POST   /v1/chat/completions          OpenAI-compatible, stateless
+//   GET    /v1/models                    for OpenAI clients
+//   POST   /api/agents/auroraAgent/generate  Mastra's agent endpoint
+// Every route needs a key from AURORA_API_KEYS. POST requests accept an
+// Idempotency-Key header. Operators decide on held answers with
+// POST /admin/chat/held.
+export function registerChatApiRoutes(): Array<ApiRoute> {
+  return [
+    {
+      path: "/v1/chat/sessions",
+      method: "POST",
+      handler: withApiClient(async (c, client) => {
+        const body = createSessionSchema.parse(
+          await c.req.json().catch(() => ({})),
+        );
+        const idempotent = await claimIdempotencyKey<object>(
+          c,
+          sharedKeyValueStore,
+          client,
+          body,
+        );
+        if (idempotent.replay) {
+          return c.json(idempotent.replay, 201);
+        }
+        const session = await createChatSession(
+          sharedKeyValueStore,
+          client,
+          body,
+        );
+        const { threadId, ...publicSession } = session;
+        await idempotent.complete(publicSession);
+        return c.json(publicSession, 201);
+      }),
+    },
+    {
+      path: "/v1/chat/sessions/:sessionId",
+      method: "GET",
+      handler: withApiClient(async (c, client) => {
+        const { threadId, ...session } = await getChatSession(
+          sharedKeyValueStore,
+          client,
+          c.req.param("sessionId") ?? "",
+        );
+        return c.json(session);
+      }),
+    },
+    {
+      path: "/v1/chat/sessions/:sessionId",
+      method: "DELETE",
+      handler: withApiClient(async (c, client) => {
+        await deleteChatSession(
+          sharedKeyValueStore,
+          client,
+          c.req.param("sessionId") ?? "",
+        );
+        return c.body(null, 204);
+      }),
+    },
+    {
+      path: "/v1/chat",
+      method: "POST",
+      handler: withApiClient(async (c, client) => {
+        const body = chatRequestSchema.parse(await readJson(c));
+        const session = await getChatSession(
+          sharedKeyValueStore,
+          client,
+          body.sessionId,
+        );
+        const idempotent = await claimIdempotencyKey<ChatResult>(
+          c,
+          sharedKeyValueStore,
+          client,
+          body,
+        );
+        const mastra = c.get("mastra");
+
+        if (idempotent.replay) {
+          const result = idempotent.replay;
+          return body.stream
+            ? streamChatTurn(c, async (onEvent) => {
+                await onEvent({
+                  type: "text-delta",
+                  delta: result.message.content,
+                });
+                return result;
+              })
+            : c.json(result);
+        }
+
+        const run = async (
+          onEvent?: (event: ChatStreamEvent) => Promise<void>,
+        ) => {
+          try {
+            const result = await runChatTurn({
+              mastra,
+              store: sharedKeyValueStore,
+              client,
+              session,
+              message: body.message,
+              onEvent,
+            });
+            await touchChatSession(sharedKeyValueStore, client, session);
+            await idempotent.complete(result);
+            return result;
+          } catch (error) {
+            await idempotent.release();
+            throw error;
+          }
+        };
+        return body.stream ? streamChatTurn(c, run) : c.json(await run());
+      }),
+    },
+    {
+      path: "/v1/chat/messages/:messageId",
+      method: "GET",
+      handler: withApiClient(async (c, client) =>
+        c.json(
+          await getHeldChatMessage(
+            sharedKeyValueStore,
+            client,
+            c.req.param("messageId") ?? "",
+          ),
+        ),
+      ),
+    },
+    {
+      path: "/v1/chat/completions",
+      method: "POST",
+      handler: withApiClient(async (c, client) => {
+        const request = chatCompletionRequestSchema.parse(await readJson(c));
+        const idempotent = await claimIdempotencyKey<
+          Awaited<ReturnType<typeof runChatCompletion>>
+        >(c, sharedKeyValueStore, client, request);
+        const mastra = c.get("mastra");
+
+        if (!request.stream) {
+          if (idempotent.replay) {
+            return c.json(idempotent.replay);
+          }
+          try {
+            const completion = await runChatCompletion({
+              mastra,
+              store: sharedKeyValueStore,
+              client,
+              request,
+            });
+            await idempotent.complete(completion);
+            return c.json(completion);
+          } catch (error) {
+            await idempotent.release();
+            throw error;
+          }
+        }
+
+        // OpenAI streams unnamed events and ends with [DONE].
+        return streamSSE(c, async (stream) => {
+          const send = (chunk: ChatCompletionChunk) =>
+            stream.writeSSE({ data: JSON.stringify(chunk) });
+          try {
+            const replay = idempotent.replay;
+            if (replay) {
+              const chunk = (delta: object, finishReason: "stop" | null) => ({
+                id: replay.id,
+                object: "chat.completion.chunk" as const,
+                created: replay.created,
+                model: replay.model,
+                choices: [
+                  { index: 0 as const, delta, finish_reason: finishReason },
+                ],
+              });
+              await send(chunk(replay.choices[0].message, null));
+              await send(chunk({}, "stop"));
+            } else {
+              const completion = await runChatCompletion({
+                mastra,
+                store: sharedKeyValueStore,
+                client,
+                request,
+                onChunk: send,
+              }).catch(async (error) => {
+                await idempotent.release();
+                throw error;
+              });
+              await idempotent.complete(completion);
+            }
+          } catch (error) {
+            mastra
+              .getLogger()
+              ?.error("❌ [Chat API] Streamed completion failed", {
+                error: format(error),
+              });
+            await stream.writeSSE({
+              data: JSON.stringify(
+                chatApiErrorBody("server_error", "Aurora could not answer"),
+              ),
+            });
+          }
+          await stream.writeSSE({ data: "[DONE]" });
+        });
+      }),
+    },
+    {
+      path: "/v1/models",
+      method: "GET",
+      handler: withApiClient(async (c) =>
+        c.json({ object: "list", data: [auroraModel()] }),
+      ),
+    },
+    // Replaces Mastra's built-in endpoint, which takes the memory resource
+    // and thread from the body. Here they come from the key, so callers only
+    // see their own memory.
+    {
+      path: "/api/agents/auroraAgent/generate",
+      method: "POST",
+      handler: withApiClient(async (c, client) => {
+        const { messages } = generateRequestSchema.parse(await readJson(c));
+        const { text, ethicsReview } = await answerWithAurora(c.get("mastra"), {
+          prompt: messages,
+          resourceId: client.resourceId,
+          threadId: `${client.resourceId}/generate`,
+        });
+        if (!ethicsReview) {
+          return c.json({ text });
+        }
+        const messageId = `msg_${randomUUID().replaceAll("-", "")}`;
+        await holdChatAnswer(sharedKeyValueStore, client, {
+          id: messageId,
+          answer: text,
+          review: ethicsReview,
+        });
+        return c.json({ text: ETHICS_HOLD_NOTICE, messageId, ethicsReview });
+      }),
+    },
+    // Releases or discards an answer held by the ethics protocol:
+    // { messageId: "<message or completion id>", approve: boolean }.
+    {
+      path: "/admin/chat/held",
+      method: "POST",
+      middleware: requireAdminToken,
+      handler: async (c) => {
+        const body = await c.req.json().catch(() => ({}));
+        if (typeof body.messageId !== "string") {
+          return c.json({ error: "messageId is required" }, 400);
+        }
+        const approved = body.approve === true;
+        const decided = await decideHeldChatAnswer(
+          sharedKeyValueStore,
+          body.messageId,
+          approved,
+        );
+        if (!decided) {
+          return c.json({ error: "No held answer for this message" }, 404);
+        }
+        return c.json({ messageId: body.messageId, approved });
+      },
+    },
+  ];
+}
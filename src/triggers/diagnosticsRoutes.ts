@@ -0,0 +1,90 @@
+import type { Context } from "hono";
+import { streamSSE } from "hono/streaming";
+
+import { runDiagnostics } from "../mastra/diagnostics";
+import { DIAGNOSTIC_CHECKS } from "../mastra/diagnostics/checks";
+import { requireAdminToken } from "./adminAuth";
+import type { ApiRoute } from "./slackTriggers";
+
+// ?checks=postgres,openai runs a subset of the checks.
+function selectedChecks(c: Context) {
+  const ids = c.req.query("checks")?.split(",").filter(Boolean);
+  return ids?.length
+    ? DIAGNOSTIC_CHECKS.filter((check) => ids.includes(check.id))
+    : DIAGNOSTIC_CHECKS;
+}
+
+// Only the database is checked for the public liveness probe: the other
+// checks call paid APIs and their details are for operators.
+const LIVENESS_CHECKS = DIAGNOSTIC_CHECKS.filter(
+  (check) => check.id === "postgres",
+);
+
+// Integration checks for storage, Inngest, the model providers, Telegram,
+// the constellation manifests and the MCP server. /health/diagnostics
+// returns the report as JSON (503 when a check failed); /test/diagnostics
+// streams the steps as they finish, like /test/slack. Both need the admin
+// token; /health is an unauthenticated liveness probe without details.
+export function registerDiagnosticsRoutes(): Array<ApiRoute> {
+  return [
+    {
+      path: "/health",
+      method: "GET",
+      handler: async (c) => {
+        const report = await runDiagnostics({
+          mastra: c.get("mastra"),
+          checks: LIVENESS_CHECKS,
+        });
+        return c.json(
+          { status: report.status, checkedAt: report.checkedAt },
+          report.status === "ok" ? 200 : 503,
+        );
+      },
+    },
+    {
+      path: "/health/diagnostics",
+      method: "GET",
+      middleware: requireAdminToken,
+      handler: async (c) => {
+        const mastra = c.get("mastra");
+        const report = await runDiagnostics({
+          mastra,
+          checks: selectedChecks(c),
+        });
+        if (report.status === "failed") {
+          mastra.getLogger()?.warn("⚠️ [Diagnostics] Checks failed", {
+            failed: report.checks
+              .filter((check) => check.status === "failed")
+              .map((check) => check.id),
+          });
+        }
+        return c.json(report, report.status === "ok" ? 200 : 503);
+      },
+    },
+    {
+      path: "/test/diagnostics",
+      method: "GET",
+      middleware: requireAdminToken,
+      handler: async (c) => {
+        return streamSSE(c, async (stream) => {
+          let id = 1;
+          const report = await runDiagnostics({
+            mastra: c.get("mastra"),
+            checks: selectedChecks(c),
+            onUpdate: (steps) =>
+              stream.writeSSE({
+                data: JSON.stringify(steps),
+                event: "progress",
+                id: String(id++),
+              }),
+          });
+          await stream.writeSSE({
+            data: JSON.stringify(report),
+            event: report.status === "ok" ? "result" : "error",
+            id: String(id++),
+          });
+        });
+      },
+    },
+  ];
+}
@@ -0,0 +1,136 @@
+const DISCORD_API_BASE_URL = "https://discord.com/api/v10";
+
+export class DiscordApiError extends Error {
+  constructor(
+    readonly method: string,
+    readonly path: string,
+    readonly status: number,
+    readonly body: string,
+  ) {
+    super(`Discord ${method} ${path} failed: HTTP ${status} ${body}`);
+    this.name = "DiscordApiError";
+  }
+}
+
+export type DiscordButton = {
+  type: 2;
+  // 3 green, 4 red.
+  style: 3 | 4;
+  label: string;
+  custom_id: string;
+};
+
+export type DiscordMessage = {
+  content: string;
+  flags?: number;
+  components?: { type: 1; components: DiscordButton[] }[];
+  // Aurora never pings anyone by quoting a mention.
+  allowed_mentions?: { parse: string[] };
+};
+
+export type DiscordApplicationCommand = {
+  name: string;
+  description: string;
+  type?: number;
+  options?: DiscordApplicationCommandOption[];
+};
+
+export type DiscordApplicationCommandOption = {
+  // 1 subcommand, 3 string, 5 boolean.
+  type: 1 | 3 | 5;
+  name: string;
+  description: string;
+  required?: boolean;
+  options?: DiscordApplicationCommandOption[];
+};
+
+const NO_MENTIONS = { parse: [] };
+
+// Minimal Discord REST client. Interaction webhooks are authorised by their
+// token; the bot token is only needed to register commands.
+export class DiscordApi {
+  constructor(
+    private readonly applicationId: string,
+    private readonly botToken?: string,
+    private readonly baseUrl = DISCORD_API_BASE_URL,
+  ) {}
+
+  private async request<T>(method: string, path: string, body?: unknown) {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (this.botToken && !path.startsWith("/webhooks/")) {
+      headers.Authorization = `Bot ${this.botToken}`;
+    }
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    if (!response.ok) {
+      // The interaction token is part of webhook paths; keep it out of errors.
+      throw new DiscordApiError(
+        method,
+        path.replace(/^(\/webhooks\/\d+\/)[^/]+/, "$1…"),
+        response.status,
+        await response.text(),
+      );
+    }
+    return (response.status === 204 ? undefined : await response.json()) as T;
+  }
+
+  private commandsPath(guildId?: string) {
+    return guildId
+      ? `/applications/${this.applicationId}/guilds/${guildId}/commands`
+      : `/applications/${this.applicationId}/commands`;
+  }
+
+  getCommands(guildId?: string) {
+    return this.request<DiscordApplicationCommand[]>(
+      "GET",
+      this.commandsPath(guildId),
+    );
+  }
+
+  // Replaces all of the application's commands. Guild commands update
+  // immediately, global ones can take a while to reach every client.
+  overwriteCommands(commands: DiscordApplicationCommand[], guildId?: string) {
+    return this.request<DiscordApplicationCommand[]>(
+      "PUT",
+      this.commandsPath(guildId),
+      commands,
+    );
+  }
+
+  // Replaces the deferred "thinking…" response.
+  editOriginalResponse(token: string, message: DiscordMessage) {
+    return this.request<{ id: string }>(
+      "PATCH",
+      `/webhooks/${this.applicationId}/${token}/messages/@original`,
+      { allowed_mentions: NO_MENTIONS, components: [], ...message },
+    );
+  }
+
+  createFollowup(token: string, message: DiscordMessage) {
+    return this.request<{ id: string }>(
+      "POST",
+      `/webhooks/${this.applicationId}/${token}`,
+      { allowed_mentions: NO_MENTIONS, ...message },
+    );
+  }
+}
+
+let sharedDiscordApi: DiscordApi | undefined;
+
+export function getDiscordApi() {
+  const applicationId = process.env.DISCORD_APPLICATION_ID;
+  if (!applicationId) {
+    throw new Error("DISCORD_APPLICATION_ID is not set");
+  }
+  sharedDiscordApi ??= new DiscordApi(
+    applicationId,
+    process.env.DISCORD_BOT_TOKEN || undefined,
+    process.env.DISCORD_API_BASE_URL || undefined,
+  );
+  return sharedDiscordApi;
+}
@@ -0,0 +1,108 @@
+import { format } from "node:util";
+import type { Mastra } from "@mastra/core";
+
+import {
+  AuroraCommandError,
+  auroraCommandHelp,
+  auroraCommands,
+  runAuroraCommand,
+} from "../../mastra/commands";
+import { type DiscordApplicationCommand, getDiscordApi } from "./api";
+import { sendDiscordAnswer } from "./renderDiscordMessage";
+import { EPHEMERAL_FLAG } from "./types";
+
+export const DISCORD_COMMAND_NAME = "aurora";
+export const ASK_SUBCOMMAND = "ask";
+
+// `/aurora <command>` like Slack: one subcommand per registry command, with
+// its free-form arguments as the `input` option, plus `ask` for questions.
+// Results are only shown to the caller unless `public` is set.
+export function discordApplicationCommands(): DiscordApplicationCommand[] {
+  const publicOption = {
+    type: 5 as const,
+    name: "public",
+    description: "Post the result in the channel",
+  };
+  return [
+    {
+      name: DISCORD_COMMAND_NAME,
+      description: "Talk to Aurora and run Aurora commands",
+      options: [
+        {
+          type: 1,
+          name: ASK_SUBCOMMAND,
+          description: "Ask Aurora anything",
+          options: [
+            {
+              type: 3,
+              name: "question",
+              description: "Your question",
+              required: true,
+            },
+          ],
+        },
+        ...auroraCommands.map((command) => ({
+          type: 1 as const,
+          name: command.name,
+          description: command.summary.slice(0, 100),
+          options: [
+            {
+              type: 3 as const,
+              name: "input",
+              description: command.usage.slice(0, 100),
+            },
+            publicOption,
+          ],
+        })),
+        { type: 1, name: "help", description: "Show Aurora's commands" },
+      ],
+    },
+  ];
+}
+
+export const discordCommandHelp = () =>
+  [
+    auroraCommandHelp(`/${DISCORD_COMMAND_NAME} `).replace(
+      /`\/aurora (\S+) ([^`]+)`/g,
+      "`/aurora $1 input:$2`",
+    ),
+    `- \`/${DISCORD_COMMAND_NAME} ${ASK_SUBCOMMAND} question:<text>\` — Ask Aurora anything`,
+  ].join("\n");
+
+export type DiscordCommandInvocation = {
+  name: string;
+  args: string;
+  ephemeral: boolean;
+  token: string;
+  userId?: string;
+  channelId?: string;
+};
+
+// Runs the command with the shared command registry and replaces the
+// deferred response with the result.
+export async function runDiscordCommand(
+  mastra: Mastra,
+  invocation: DiscordCommandInvocation,
+) {
+  const logger = mastra.getLogger();
+  let markdown: string;
+  try {
+    ({ markdown } = await runAuroraCommand(
+      mastra,
+      invocation.name,
+      invocation.args,
+    ));
+  } catch (error) {
+    logger?.error("❌ [Discord Command] Error running command", {
+      command: invocation.name,
+      error: format(error),
+    });
+    markdown =
+      error instanceof AuroraCommandError
+        ? error.message
+        : "◊ Aurora OS :: Command failed. Please retry in a moment. ◊";
+  }
+  await sendDiscordAnswer(getDiscordApi(), invocation.token, markdown, {
+    flags: invocation.ephemeral ? EPHEMERAL_FLAG : undefined,
+  });
+}
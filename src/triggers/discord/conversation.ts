@@ -0,0 +1,79 @@
+import { format } from "node:util";
+import type { Mastra } from "@mastra/core";
+
+import {
+  FALLBACK_ANSWER,
+  answerWithAurora,
+  auroraPrompt,
+} from "../../mastra/conversation";
+import { getDiscordApi } from "./api";
+import { holdDiscordAnswer } from "./ethicsApproval";
+import { sendDiscordAnswer } from "./renderDiscordMessage";
+
+// A `/aurora ask` interaction, reduced to what answering it needs.
+export type DiscordQuestion = {
+  interactionId: string;
+  // Interaction token for the deferred response and follow-ups.
+  token: string;
+  question: string;
+  threadId: string;
+  guildId?: string;
+  userName: string;
+};
+
+const discordPrompt = (question: DiscordQuestion) =>
+  auroraPrompt({
+    channel: "Discord",
+    context: {
+      Platform: "Discord",
+      Server: question.guildId ?? "direct message",
+      User: question.userName,
+      Message: `"${question.question}"`,
+      Thread: question.threadId,
+    },
+    instructions: "Discord renders Markdown but not tables.",
+  });
+
+// Runs Aurora on the question and replaces the deferred response with the
+// answer.
+export async function answerDiscordQuestion(
+  mastra: Mastra,
+  question: DiscordQuestion,
+) {
+  const logger = mastra.getLogger();
+  const api = getDiscordApi();
+  const { threadId } = question;
+
+  logger?.info("🌟 [Discord] Answering question", {
+    interactionId: question.interactionId,
+    threadId,
+  });
+
+  const { text, ethicsReview } = await answerWithAurora(mastra, {
+    prompt: discordPrompt(question),
+    resourceId: `aurora-discord-bot/${question.guildId ?? "dm"}`,
+    threadId,
+  }).catch((error) => {
+    logger?.error("❌ [Discord] Error generating response", {
+      threadId,
+      error: format(error),
+    });
+    return FALLBACK_ANSWER;
+  });
+
+  if (ethicsReview) {
+    await holdDiscordAnswer({
+      api,
+      token: question.token,
+      interactionId: question.interactionId,
+      answer: text,
+      review: ethicsReview,
+      logger,
+    });
+    return { threadId, heldForEthicsReview: true };
+  }
+
+  await sendDiscordAnswer(api, question.token, text);
+  logger?.info("✅ [Discord] Reply sent", { threadId });
+  return { threadId, heldForEthicsReview: false };
+}
@@ -0,0 +1,136 @@
+import type { IMastraLogger } from "@mastra/core/logger";
+
+import {
+  ETHICS_HOLD_NOTICE,
+  ETHICS_HOLD_TTL_MS,
+  type EthicsReview,
+} from "../../mastra/ethics";
+import { sharedKeyValueStore } from "../../mastra/storage";
+import type { DiscordApi } from "./api";
+import { renderDiscordMessages } from "./renderDiscordMessage";
+
+export const ETHICS_CUSTOM_ID_PREFIX = "ethics:";
+
+type HeldAnswer = {
+  answer: string;
+  review: EthicsReview;
+};
+
+// Both keyed by the id of the interaction that asked the question.
+const heldAnswerKey = (ref: string) => `discord:ethics-hold:${ref}`;
+const decisionKey = (ref: string) => `discord:ethics-decision:${ref}`;
+
+// Stores the answer and replaces the deferred response with Approve and
+// Reject buttons.
+export async function holdDiscordAnswer({
+  api,
+  token,
+  interactionId,
+  answer,
+  review,
+  logger,
+}: {
+  api: DiscordApi;
+  token: string;
+  interactionId: string;
+  answer: string;
+  review: EthicsReview;
+  logger?: IMastraLogger;
+}) {
+  await sharedKeyValueStore.set<HeldAnswer>(
+    heldAnswerKey(interactionId),
+    { answer, review },
+    { ttlMs: ETHICS_HOLD_TTL_MS },
+  );
+  const [content] = renderDiscordMessages(
+    [
+      ETHICS_HOLD_NOTICE,
+      "",
+      `**${review.validationResult}**`,
+      review.riskAssessment,
+      ...review.interventions.map((item) => `- ${item}`),
+    ].join("\n"),
+  );
+  await api.editOriginalResponse(token, {
+    content,
+    components: [
+      {
+        type: 1,
+        components: [
+          {
+            type: 2,
+            style: 3,
+            label: "Approve",
+            custom_id: `${ETHICS_CUSTOM_ID_PREFIX}approve:${interactionId}`,
+          },
+          {
+            type: 2,
+            style: 4,
+            label: "Reject",
+            custom_id: `${ETHICS_CUSTOM_ID_PREFIX}reject:${interactionId}`,
+          },
+        ],
+      },
+    ],
+  });
+  logger?.info("🛡️ [Discord] Answer held for ethics approval", {
+    interactionId,
+    validationResult: review.validationResult,
+  });
+}
+
+export function parseEthicsCustomId(customId: string) {
+  const [decision, ref] = customId
+    .slice(ETHICS_CUSTOM_ID_PREFIX.length)
+    .split(":");
+  return { approved: decision === "approve", ref };
+}
+
+// Records the first decision on a held answer. Returns false when someone
+// already decided, e.g. on a double click.
+export function claimEthicsDecision(
+  ref: string,
+  approved: boolean,
+  userId: string,
+) {
+  return sharedKeyValueStore.setIfAbsent(
+    decisionKey(ref),
+    { approved, userId },
+    { ttlMs: ETHICS_HOLD_TTL_MS },
+  );
+}
+
+// Undoes claimEthicsDecision when the decision could not be acted on, so the
+// button can be pressed again.
+export function releaseEthicsDecision(ref: string) {
+  return sharedKeyValueStore.delete(decisionKey(ref));
+}
+
+// Posts the released answer, or the withheld notice, as follow-ups to the
+// button press.
+export async function deliverEthicsDecision({
+  api,
+  token,
+  ref,
+  approved,
+  decidedBy,
+}: {
+  api: DiscordApi;
+  token: string;
+  ref: string;
+  approved: boolean;
+  decidedBy: string;
+}) {
+  const held = await sharedKeyValueStore.get<HeldAnswer>(heldAnswerKey(ref));
+  if (!held) {
+    return false;
+  }
+  const markdown = approved
+    ? held.answer
+    : `◊ Aurora OS :: This answer was withheld after an ethics review by ${decidedBy}. ◊`;
+  for (const content of renderDiscordMessages(markdown)) {
+    await api.createFollowup(token, { content });
+  }
+  await sharedKeyValueStore.delete(heldAnswerKey(ref));
+  return true;
+}
@@ -0,0 +1,63 @@
+import { splitText } from "../splitText";
+import type { DiscordApi, DiscordMessage } from "./api";
+
+const DISCORD_MESSAGE_LIMIT = 2000;
+// Room for closing and reopening a code fence across a split.
+const PIECE_LIMIT = DISCORD_MESSAGE_LIMIT - 16;
+
+const isTableRow = (line: string) => /^\s*\|.*\|\s*$/.test(line);
+
+// Discord renders Markdown itself except tables, which are shown as code
+// blocks.
+function fenceTables(markdown: string) {
+  const output: string[] = [];
+  const lines = markdown.split("\n");
+  for (let i = 0; i < lines.length; i++) {
+    if (!isTableRow(lines[i])) {
+      output.push(lines[i]);
+      continue;
+    }
+    output.push("```");
+    for (; i < lines.length && isTableRow(lines[i]); i++) {
+      output.push(lines[i]);
+    }
+    i--;
+    output.push("```");
+  }
+  return output.join("\n");
+}
+
+// Splits Markdown into messages within Discord's 2000 characters. A code
+// block cut by a split is closed and reopened in the next message.
+export function renderDiscordMessages(markdown: string) {
+  const pieces = splitText(fenceTables(markdown), PIECE_LIMIT);
+  let openFence: string | null = null;
+  return pieces.map((piece) => {
+    let text = openFence ? `${openFence}\n${piece}` : piece;
+    for (const line of piece.split("\n")) {
+      const fence = line.trimStart().match(/^```\S*/);
+      if (fence) {
+        openFence = openFence ? null : fence[0];
+      }
+    }
+    if (openFence) {
+      text += "\n```";
+    }
+    return text;
+  });
+}
+
+// Replaces the deferred response with the answer; the rest of a long answer
+// follows as follow-up messages.
+export async function sendDiscordAnswer(
+  api: DiscordApi,
+  token: string,
+  markdown: string,
+  message: Omit<DiscordMessage, "content"> = {},
+) {
+  const [first, ...rest] = renderDiscordMessages(markdown);
+  await api.editOriginalResponse(token, { ...message, content: first ?? "…" });
+  for (const content of rest) {
+    await api.createFollowup(token, { flags: message.flags, content });
+  }
+}
@@ -0,0 +1,111 @@
+import { z } from "zod";
+
+// The subset of Discord's interaction payload Aurora uses, see
+// https://discord.com/developers/docs/interactions/receiving-and-responding.
+// Unknown fields are kept.
+
+export const DiscordInteractionType = {
+  PING: 1,
+  APPLICATION_COMMAND: 2,
+  MESSAGE_COMPONENT: 3,
+} as const;
+
+export const DiscordResponseType = {
+  PONG: 1,
+  CHANNEL_MESSAGE_WITH_SOURCE: 4,
+  // "Aurora is thinking…", replaced later through the interaction webhook.
+  DEFERRED_CHANNEL_MESSAGE_WITH_SOURCE: 5,
+  UPDATE_MESSAGE: 7,
+} as const;
+
+// Message flag that shows a message only to the person who invoked the
+// command.
+export const EPHEMERAL_FLAG = 1 << 6;
+
+// Public, private and announcement threads.
+const THREAD_CHANNEL_TYPES = [10, 11, 12];
+
+export const discordUserSchema = z
+  .object({
+    id: z.string(),
+    username: z.string(),
+    global_name: z.string().nullish(),
+    bot: z.boolean().optional(),
+  })
+  .passthrough();
+
+type DiscordCommandOption = {
+  name: string;
+  type: number;
+  value?: string | number | boolean;
+  options?: DiscordCommandOption[];
+};
+
+const discordCommandOptionSchema: z.ZodType<DiscordCommandOption> = z.lazy(() =>
+  z
+    .object({
+      name: z.string(),
+      type: z.number(),
+      value: z.union([z.string(), z.number(), z.boolean()]).optional(),
+      options: z.array(discordCommandOptionSchema).optional(),
+    })
+    .passthrough(),
+);
+
+export const discordInteractionSchema = z
+  .object({
+    id: z.string(),
+    application_id: z.string(),
+    type: z.number(),
+    // Valid for 15 minutes, for the response and follow-up messages.
+    token: z.string(),
+    data: z
+      .object({
+        name: z.string().optional(),
+        options: z.array(discordCommandOptionSchema).optional(),
+        custom_id: z.string().optional(),
+      })
+      .passthrough()
+      .optional(),
+    guild_id: z.string().optional(),
+    channel_id: z.string().optional(),
+    channel: z
+      .object({
+        id: z.string(),
+        type: z.number(),
+        parent_id: z.string().nullish(),
+      })
+      .passthrough()
+      .optional(),
+    // Set in servers; `user` is set in DMs.
+    member: z.object({ user: discordUserSchema }).passthrough().optional(),
+    user: discordUserSchema.optional(),
+    message: z.object({ id: z.string() }).passthrough().optional(),
+  })
+  .passthrough();
+
+export type DiscordUser = z.infer<typeof discordUserSchema>;
+export type DiscordInteraction = z.infer<typeof discordInteractionSchema>;
+
+export const interactionUser = (interaction: DiscordInteraction) =>
+  interaction.member?.user ?? interaction.user;
+
+// Conversations follow the channel, and each thread is its own conversation
+// under its parent channel.
+export function discordThreadId(interaction: DiscordInteraction) {
+  const scope = interaction.guild_id ?? "dm";
+  const channel = interaction.channel;
+  if (channel?.parent_id && THREAD_CHANNEL_TYPES.includes(channel.type)) {
+    return `aurora-discord/${scope}/${channel.parent_id}/${channel.id}`;
+  }
+  return `aurora-discord/${scope}/${channel?.id ?? interaction.channel_id}`;
+}
+
+// The subcommand and its options, for `/aurora <subcommand> ...`.
+export function commandInvocation(interaction: DiscordInteraction) {
+  const [subcommand] = interaction.data?.options ?? [];
+  const options = Object.fromEntries(
+    (subcommand?.options ?? []).map((option) => [option.name, option.value]),
+  );
+  return { name: subcommand?.name ?? "help", options };
+}
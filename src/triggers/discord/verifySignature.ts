@@ -0,0 +1,63 @@
+import { createPublicKey, verify } from "node:crypto";
+import type { IMastraLogger } from "@mastra/core/logger";
+import type { Context } from "hono";
+
+// DER prefix of an Ed25519 SubjectPublicKeyInfo, followed by the raw key.
+const ED25519_SPKI_PREFIX = Buffer.from("302a300506032b6570032100", "hex");
+
+// Checks Discord's Ed25519 signature over the timestamp and the raw body,
+// see https://discord.com/developers/docs/interactions/overview#setting-up-an-endpoint-validating-security-request-headers
+export function verifyDiscordSignature({
+  publicKey,
+  signature,
+  timestamp,
+  body,
+}: {
+  // Hex, as shown in the Developer Portal.
+  publicKey: string;
+  signature: string;
+  timestamp: string;
+  body: string;
+}) {
+  const rawKey = Buffer.from(publicKey, "hex");
+  const rawSignature = Buffer.from(signature, "hex");
+  if (rawKey.length !== 32 || rawSignature.length !== 64) {
+    return false;
+  }
+  try {
+    const key = createPublicKey({
+      key: Buffer.concat([ED25519_SPKI_PREFIX, rawKey]),
+      format: "der",
+      type: "spki",
+    });
+    return verify(null, Buffer.from(timestamp + body), key, rawSignature);
+  } catch {
+    return false;
+  }
+}
+
+// Reads the body of an interaction request. Returns null when the signature
+// is missing or does not match DISCORD_PUBLIC_KEY; Discord deliberately
+// sends invalid signatures and expects a 401 for them.
+export async function readVerifiedDiscordBody(
+  c: Context,
+  logger?: IMastraLogger,
+) {
+  const publicKey = process.env.DISCORD_PUBLIC_KEY;
+  if (!publicKey) {
+    logger?.error("❌ [Discord] DISCORD_PUBLIC_KEY is not set");
+    return null;
+  }
+  const body = await c.req.text();
+  const verified = verifyDiscordSignature({
+    publicKey,
+    signature: c.req.header("x-signature-ed25519") ?? "",
+    timestamp: c.req.header("x-signature-timestamp") ?? "",
+    body,
+  });
+  if (!verified) {
+    logger?.warn("⚠️ [Discord] Rejected request with an invalid signature");
+    return null;
+  }
+  return body;
+}
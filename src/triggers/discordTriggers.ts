@@ -0,0 +1,350 @@
+import { format } from "node:util";
+import { Mastra } from "@mastra/core";
+import type { IMastraLogger } from "@mastra/core/logger";
+import type { Context } from "hono";
+import { z } from "zod";
+
+import { AuroraCommandError, prepareAuroraCommand } from "../mastra/commands";
+import {
+  inngest,
+  registerApiRoute,
+  registerInngestFunction,
+} from "../mastra/inngest";
+import { requireAdminToken } from "./adminAuth";
+import { type DiscordApi, DiscordApiError, getDiscordApi } from "./discord/api";
+import {
+  ASK_SUBCOMMAND,
+  type DiscordCommandInvocation,
+  discordApplicationCommands,
+  discordCommandHelp,
+  runDiscordCommand,
+} from "./discord/commands";
+import type { DiscordQuestion } from "./discord/conversation";
+import {
+  ETHICS_CUSTOM_ID_PREFIX,
+  claimEthicsDecision,
+  deliverEthicsDecision,
+  parseEthicsCustomId,
+  releaseEthicsDecision,
+} from "./discord/ethicsApproval";
+import {
+  type DiscordInteraction,
+  DiscordInteractionType,
+  DiscordResponseType,
+  EPHEMERAL_FLAG,
+  commandInvocation,
+  discordInteractionSchema,
+  discordThreadId,
+  interactionUser,
+} from "./discord/types";
+import { readVerifiedDiscordBody } from "./discord/verifySignature";
+import type { ApiRoute } from "./slackTriggers";
+
+export type TriggerInfoDiscordOnQuestion = {
+  type: "discord/question";
+  params: {
+    userName: string;
+    message: string;
+  };
+  payload: DiscordQuestion;
+};
+
+const userLabel = (interaction: DiscordInteraction) => {
+  const user = interactionUser(interaction);
+  return user ? `@${user.global_name || user.username}` : "unknown";
+};
+
+const ephemeralMessage = (content: string) => ({
+  type: DiscordResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
+  data: { content, flags: EPHEMERAL_FLAG, allowed_mentions: { parse: [] } },
+});
+
+// Answers an application command within Discord's three-second deadline:
+// help and usage errors right away, everything else deferred and finished in
+// the background through the interaction webhook.
+async function handleApplicationCommand(
+  c: Context,
+  interaction: DiscordInteraction,
+  logger?: IMastraLogger,
+) {
+  const { name, options } = commandInvocation(interaction);
+  logger?.info("🎛️ [Discord] Received command", {
+    command: name,
+    guildId: interaction.guild_id,
+    channelId: interaction.channel_id,
+  });
+
+  if (name === "help") {
+    return c.json(ephemeralMessage(discordCommandHelp()));
+  }
+
+  if (name === ASK_SUBCOMMAND) {
+    const question: DiscordQuestion = {
+      interactionId: interaction.id,
+      token: interaction.token,
+      question: String(options.question ?? ""),
+      threadId: discordThreadId(interaction),
+      guildId: interaction.guild_id,
+      userName: userLabel(interaction),
+    };
+    await inngest.send({
+      id: `discord-${interaction.id}`,
+      name: "discord/question.received",
+      data: { question },
+    });
+    return c.json({
+      type: DiscordResponseType.DEFERRED_CHANNEL_MESSAGE_WITH_SOURCE,
+    });
+  }
+
+  const args = String(options.input ?? "");
+  try {
+    // Validate before deferring so usage errors are immediate.
+    prepareAuroraCommand(name, args);
+  } catch (error) {
+    if (error instanceof AuroraCommandError) {
+      return c.json(
+        ephemeralMessage(
+          `${error.message}\nTry \`/aurora help\` for the list of commands.`,
+        ),
+      );
+    }
+    throw error;
+  }
+
+  const ephemeral = options.public !== true;
+  const invocation: DiscordCommandInvocation = {
+    name,
+    args,
+    ephemeral,
+    token: interaction.token,
+    userId: interactionUser(interaction)?.id,
+    channelId: interaction.channel_id,
+  };
+  await inngest.send({
+    id: `discord-${interaction.id}`,
+    name: "discord/command.received",
+    data: { invocation },
+  });
+  return c.json({
+    type: DiscordResponseType.DEFERRED_CHANNEL_MESSAGE_WITH_SOURCE,
+    data: { flags: ephemeral ? EPHEMERAL_FLAG : 0 },
+  });
+}
+
+// Approve and Reject buttons on held answers. The message is updated right
+// away; the answer follows from the background.
+async function handleMessageComponent(
+  c: Context,
+  interaction: DiscordInteraction,
+  logger?: IMastraLogger,
+) {
+  const customId = interaction.data?.custom_id ?? "";
+  if (!customId.startsWith(ETHICS_CUSTOM_ID_PREFIX)) {
+    logger?.warn("⚠️ [Discord] Unknown component", { customId });
+    return c.json(ephemeralMessage("This button is no longer supported."));
+  }
+  const { approved, ref } = parseEthicsCustomId(customId);
+  const userId = interactionUser(interaction)?.id ?? "";
+  if (!(await claimEthicsDecision(ref, approved, userId))) {
+    return c.json(ephemeralMessage("This answer has already been reviewed."));
+  }
+
+  const decidedBy = userLabel(interaction);
+  logger?.info("🛡️ [Discord] Ethics decision received", {
+    ref,
+    approved,
+    userId,
+  });
+  try {
+    await inngest.send({
+      id: `discord-${interaction.id}`,
+      name: "discord/ethics.decided",
+      data: { ref, approved, decidedBy, token: interaction.token },
+    });
+  } catch (error) {
+    // Released so that the answer is not left undecidable.
+    await releaseEthicsDecision(ref).catch((releaseError) =>
+      logger?.error("❌ [Discord] Error releasing ethics decision", {
+        ref,
+        error: format(releaseError),
+      }),
+    );
+    throw error;
+  }
+  return c.json({
+    type: DiscordResponseType.UPDATE_MESSAGE,
+    data: {
+      content: `🛡️ ${approved ? "Approved" : "Rejected"} by ${decidedBy}`,
+      components: [],
+      allowed_mentions: { parse: [] },
+    },
+  });
+}
+
+async function withDiscordApi(
+  c: Context,
+  action: (api: DiscordApi, guildId?: string) => Promise<unknown>,
+) {
+  try {
+    return c.json(
+      await action(getDiscordApi(), process.env.DISCORD_GUILD_ID || undefined),
+    );
+  } catch (error) {
+    c.get("mastra")
+      ?.getLogger()
+      ?.error("❌ [Discord] Command admin call failed", {
+        method: c.req.method,
+        error: format(error),
+      });
+    const status = error instanceof DiscordApiError ? 502 : 500;
+    return c.json(
+      { error: error instanceof Error ? error.message : "failed" },
+      status,
+    );
+  }
+}
+
+export function registerDiscordTrigger({
+  triggerType,
+  handler,
+}: {
+  triggerType: string;
+  handler: (
+    mastra: Mastra,
+    triggerInfo: TriggerInfoDiscordOnQuestion,
+  ) => Promise<void>;
+}): Array<ApiRoute> {
+  registerInngestFunction((mastra) =>
+    inngest.createFunction(
+      {
+        id: "discord-process-question",
+        name: "Answer Discord question",
+        // Re-running the handler could answer twice.
+        retries: 0,
+      },
+      { event: "discord/question.received" },
+      async ({ event, step }) => {
+        const question = event.data.question as DiscordQuestion;
+        await step.run("run trigger handler", () =>
+          handler(mastra, {
+            type: triggerType,
+            params: {
+              userName: question.userName,
+              message: question.question,
+            },
+            payload: question,
+          } as TriggerInfoDiscordOnQuestion),
+        );
+        return { status: "handled" };
+      },
+    ),
+  );
+
+  registerInngestFunction((mastra) =>
+    inngest.createFunction(
+      {
+        id: "discord-run-command",
+        name: "Run Aurora Discord command",
+        retries: 0,
+      },
+      { event: "discord/command.received" },
+      async ({ event, step }) => {
+        const invocation = event.data.invocation as DiscordCommandInvocation;
+        await step.run("run command", () =>
+          runDiscordCommand(mastra, invocation),
+        );
+        return { status: "handled" };
+      },
+    ),
+  );
+
+  registerInngestFunction((mastra) =>
+    inngest.createFunction(
+      {
+        id: "discord-deliver-ethics-decision",
+        name: "Deliver Discord ethics decision",
+        retries: 0,
+      },
+      { event: "discord/ethics.decided" },
+      async ({ event, step }) => {
+        const delivered = await step.run("deliver decision", () =>
+          deliverEthicsDecision({ api: getDiscordApi(), ...event.data }),
+        );
+        if (!delivered) {
+          mastra.getLogger()?.warn("⚠️ [Discord] Held answer expired", {
+            ref: event.data.ref,
+          });
+        }
+        return { status: delivered ? "delivered" : "expired" };
+      },
+    ),
+  );
+
+  return [
+    registerApiRoute("/webhooks/discord/interactions", {
+      method: "POST",
+      handler: async (c) => {
+        const mastra = c.get("mastra");
+        const logger = mastra.getLogger();
+        try {
+          const body = await readVerifiedDiscordBody(c, logger);
+          if (body === null) {
+            return c.text("Unauthorized", 401);
+          }
+
+          let interaction: DiscordInteraction;
+          try {
+            interaction = discordInteractionSchema.parse(JSON.parse(body));
+          } catch (error) {
+            logger?.warn("⚠️ [Discord] Rejected malformed interaction", {
+              error: error instanceof z.ZodError ? error.issues : format(error),
+            });
+            return c.text("Bad Request", 400);
+          }
+
+          switch (interaction.type) {
+            case DiscordInteractionType.PING:
+              return c.json({ type: DiscordResponseType.PONG });
+            case DiscordInteractionType.APPLICATION_COMMAND:
+              return await handleApplicationCommand(c, interaction, logger);
+            case DiscordInteractionType.MESSAGE_COMPONENT:
+              return await handleMessageComponent(c, interaction, logger);
+            default:
+              logger?.info("⏭️ [Discord] Ignoring interaction", {
+                type: interaction.type,
+              });
+              return c.text("Bad Request", 400);
+          }
+        } catch (error) {
+          logger?.error("Error handling Discord interaction:", {
+            error: format(error),
+          });
+          return c.text("Internal Server Error", 500);
+        }
+      },
+    }),
+    // Operator routes for the `/aurora` command, guarded by
+    // AURORA_ADMIN_TOKEN:
+    //   GET /admin/discord/commands  the registered commands
+    //   PUT /admin/discord/commands  registers `/aurora` and its subcommands
+    // DISCORD_GUILD_ID registers them in one server, where changes apply
+    // immediately.
+    {
+      path: "/admin/discord/commands",
+      method: "GET",
+      middleware: requireAdminToken,
+      handler: (c) =>
+        withDiscordApi(c, (api, guildId) => api.getCommands(guildId)),
+    },
+    {
+      path: "/admin/discord/commands",
+      method: "PUT",
+      middleware: requireAdminToken,
+      handler: (c) =>
+        withDiscordApi(c, (api, guildId) =>
+          api.overwriteCommands(discordApplicationCommands(), guildId),
+        ),
+    },
+  ];
+}
@@ -0,0 +1,18 @@
+// EMAIL_ALLOWED_SENDERS lists who Aurora answers: addresses
+// (ann@example.com) and domains (example.com or @example.com), separated by
+// commas; `*` answers anyone. Unset, no one is answered, so a reachable
+// relay cannot turn Aurora into a source of replies to arbitrary (possibly
+// forged) senders.
+function allowedSenders() {
+  return (process.env.EMAIL_ALLOWED_SENDERS ?? "")
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase().replace(/^@/, ""))
+    .filter(Boolean);
+}
+
+export function isAllowedSender(address: string) {
+  const domain = address.split("@").pop() ?? "";
+  return allowedSenders().some(
+    (entry) => entry === "*" || entry === address || entry === domain,
+  );
+}
@@ -0,0 +1,101 @@
+import { format } from "node:util";
+import type { Mastra } from "@mastra/core";
+
+import {
+  FALLBACK_ANSWER,
+  answerWithAurora,
+  auroraPrompt,
+} from "../../mastra/conversation";
+import {
+  ETHICS_HOLD_NOTICE,
+  ETHICS_HOLD_TTL_MS,
+  type EthicsReview,
+} from "../../mastra/ethics";
+import { sharedKeyValueStore } from "../../mastra/storage";
+import type { InboundEmail } from "./parseEmail";
+import { sendEmailReply } from "./smtp";
+import { recordEmailThread, resolveEmailThreadId } from "./threading";
+
+export type HeldEmailAnswer = {
+  email: InboundEmail;
+  threadId: string;
+  answer: string;
+  review: EthicsReview;
+};
+
+// Keyed by the Message-ID of the question.
+export const heldEmailAnswerKey = (messageId: string) =>
+  `email:ethics-hold:${messageId.toLowerCase()}`;
+
+const emailPrompt = (email: InboundEmail, threadId: string) =>
+  auroraPrompt({
+    channel: "Email",
+    context: {
+      Platform: "Email",
+      From: email.from.name
+        ? `${email.from.name} <${email.from.address}>`
+        : email.from.address,
+      Subject: email.subject,
+      Message: `"${email.text}"`,
+      Thread: threadId,
+    },
+    instructions:
+      "Your reply is sent as an email, so write complete paragraphs; Markdown is rendered.",
+  });
+
+// Sends the reply and records its Message-ID so answers to it stay in the
+// thread.
+export async function deliverEmailAnswer(
+  email: InboundEmail,
+  threadId: string,
+  answer: string,
+) {
+  const replyMessageId = await sendEmailReply(email, answer);
+  await recordEmailThread(sharedKeyValueStore, replyMessageId, threadId);
+  return replyMessageId;
+}
+
+// Runs Aurora on an email and replies to the sender in the same thread.
+export async function answerEmail(mastra: Mastra, email: InboundEmail) {
+  const logger = mastra.getLogger();
+  const threadId = await resolveEmailThreadId(sharedKeyValueStore, email);
+  await recordEmailThread(sharedKeyValueStore, email.messageId, threadId);
+
+  logger?.info("📧 [Email] Answering message", {
+    messageId: email.messageId,
+    threadId,
+  });
+
+  const { text, ethicsReview } = await answerWithAurora(mastra, {
+    prompt: emailPrompt(email, threadId),
+    // Each sender has their own working memory.
+    resourceId: `aurora-email/${email.from.address}`,
+    threadId,
+  }).catch((error) => {
+    logger?.error("❌ [Email] Error generating response", {
+      threadId,
+      error: format(error),
+    });
+    return FALLBACK_ANSWER;
+  });
+
+  if (ethicsReview) {
+    // Email has no buttons; an operator decides with
+    // POST /admin/email/held.
+    await sharedKeyValueStore.set<HeldEmailAnswer>(
+      heldEmailAnswerKey(email.messageId),
+      { email, threadId, answer: text, review: ethicsReview },
+      { ttlMs: ETHICS_HOLD_TTL_MS },
+    );
+    await deliverEmailAnswer(email, threadId, ETHICS_HOLD_NOTICE);
+    logger?.info("🛡️ [Email] Answer held for ethics approval", {
+      messageId: email.messageId,
+      validationResult: ethicsReview.validationResult,
+    });
+    return { threadId, heldForEthicsReview: true };
+  }
+
+  const replyMessageId = await deliverEmailAnswer(email, threadId, text);
+  logger?.info("✅ [Email] Reply sent", { threadId, replyMessageId });
+  return { threadId, replyMessageId, heldForEthicsReview: false };
+}
@@ -0,0 +1,86 @@
+import { readFile, readdir, rename } from "node:fs/promises";
+import path from "node:path";
+import { format } from "node:util";
+import type { Mastra } from "@mastra/core";
+
+import { receiveInboundEmail } from "../emailTriggers";
+import { InvalidEmailError } from "./parseEmail";
+
+const DEFAULT_POLL_SECONDS = 10;
+
+// EMAIL_MAILDIR reads inbound mail from a local maildir (as written by
+// Postfix, fetchmail or getmail) instead of the inbound route.
+export const isMaildirPollingEnabled = () => !!process.env.EMAIL_MAILDIR;
+
+function pollIntervalMs() {
+  const seconds = Number(process.env.EMAIL_MAILDIR_POLL_SECONDS);
+  return (
+    (Number.isFinite(seconds) && seconds > 0 ? seconds : DEFAULT_POLL_SECONDS) *
+    1000
+  );
+}
+
+// Receives every message in new/ and moves it to cur/ marked as seen.
+// Messages that fail for other reasons than being invalid stay in new/ and
+// are retried on the next scan.
+export async function scanMaildir(maildir: string, mastra: Mastra) {
+  const logger = mastra.getLogger();
+  const names = (await readdir(path.join(maildir, "new"))).filter(
+    (name) => !name.startsWith("."),
+  );
+  for (const name of names) {
+    const file = path.join(maildir, "new", name);
+    try {
+      await receiveInboundEmail(await readFile(file), logger);
+    } catch (error) {
+      if (!(error instanceof InvalidEmailError)) {
+        logger?.error("❌ [Email] Error reading maildir message", {
+          file,
+          error: format(error),
+        });
+        continue;
+      }
+      logger?.warn("⚠️ [Email] Skipping invalid maildir message", {
+        file,
+        error: error.message,
+      });
+    }
+    await rename(file, path.join(maildir, "cur", `${name}:2,S`));
+  }
+  return names.length;
+}
+
+let pollTimer: NodeJS.Timeout | undefined;
+
+// Scans the maildir on an interval until stopped.
+export function startMaildirPolling(mastra: Mastra) {
+  const maildir = process.env.EMAIL_MAILDIR;
+  if (!maildir || pollTimer) {
+    return () => {};
+  }
+  const logger = mastra.getLogger();
+  let scanning = false;
+  const scan = async () => {
+    if (scanning) {
+      return;
+    }
+    scanning = true;
+    try {
+      await scanMaildir(maildir, mastra);
+    } catch (error) {
+      logger?.error("❌ [Email] Error scanning maildir", {
+        maildir,
+        error: format(error),
+      });
+    } finally {
+      scanning = false;
+    }
+  };
+  logger?.info("📬 [Email] Reading maildir", { maildir });
+  void scan();
+  pollTimer = setInterval(scan, pollIntervalMs());
+  return () => {
+    clearInterval(pollTimer);
+    pollTimer = undefined;
+  };
+}
@@ -0,0 +1,106 @@
+import { type AddressObject, simpleParser } from "mailparser";
+
+// The parts of an inbound message Aurora uses. Plain data, so it can be
+// passed through Inngest events unchanged.
+export type InboundEmail = {
+  messageId: string;
+  inReplyTo?: string;
+  // Oldest first, as in the References header.
+  references: string[];
+  from: { address: string; name?: string };
+  // Recipients of the message. Replies always come from EMAIL_FROM.
+  to: string[];
+  cc: string[];
+  subject: string;
+  // The new text of the message, without quoted earlier messages.
+  text: string;
+  date: string;
+  // Auto-replies, bounces and list mail, which Aurora never answers.
+  automated: boolean;
+};
+
+export class InvalidEmailError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidEmailError";
+  }
+}
+
+const addresses = (value?: AddressObject | AddressObject[]) =>
+  (Array.isArray(value) ? value : value ? [value] : [])
+    .flatMap((group) => group.value)
+    .map((address) => address.address?.toLowerCase())
+    .filter((address): address is string => !!address);
+
+const messageIds = (value?: string | string[]) =>
+  (Array.isArray(value) ? value : value ? [value] : []).flatMap(
+    (ids) => ids.match(/<[^<>\s]+>/g) ?? [],
+  );
+
+// Drops the quoted history mail clients add below a reply: "> " lines and
+// everything from an attribution line such as "On Mon, Ann wrote:".
+export function stripQuotedReply(text: string) {
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  const kept: string[] = [];
+  for (const [index, line] of lines.entries()) {
+    const attribution =
+      /^On .+wrote:\s*$/.test(line) ||
+      (/^On /.test(line) && /wrote:\s*$/.test(lines[index + 1] ?? ""));
+    if (
+      attribution ||
+      /^-{2,}\s*Original Message\s*-{2,}/i.test(line) ||
+      /^-- $/.test(line)
+    ) {
+      break;
+    }
+    if (!line.startsWith(">")) {
+      kept.push(line);
+    }
+  }
+  return kept.join("\n").trim();
+}
+
+function isAutomated(headers: Map<string, unknown>) {
+  const autoSubmitted = String(headers.get("auto-submitted") ?? "no");
+  const precedence = String(headers.get("precedence") ?? "");
+  return (
+    autoSubmitted.toLowerCase() !== "no" ||
+    /^(bulk|junk|list|auto_reply)$/i.test(precedence) ||
+    headers.has("list-id") ||
+    headers.has("x-autoreply") ||
+    headers.has("x-autorespond")
+  );
+}
+
+// Parses a raw RFC 822 / MIME message. Throws InvalidEmailError when it has
+// no sender or Message-ID, which replies could not be threaded without.
+export async function parseInboundEmail(
+  raw: Buffer | string,
+): Promise<InboundEmail> {
+  const parsed = await simpleParser(raw, { skipImageLinks: true });
+  const [from] = addresses(parsed.from);
+  const [messageId] = messageIds(parsed.messageId);
+  if (!from) {
+    throw new InvalidEmailError("The message has no From address");
+  }
+  if (!messageId) {
+    throw new InvalidEmailError("The message has no Message-ID");
+  }
+  const body =
+    parsed.text ??
+    (typeof parsed.html === "string"
+      ? parsed.html.replace(/<[^>]+>/g, "")
+      : "");
+  return {
+    messageId,
+    inReplyTo: messageIds(parsed.inReplyTo)[0],
+    references: messageIds(parsed.references),
+    from: { address: from, name: parsed.from?.value[0]?.name || undefined },
+    to: addresses(parsed.to),
+    cc: addresses(parsed.cc),
+    subject: parsed.subject ?? "",
+    text: stripQuotedReply(body),
+    date: (parsed.date ?? new Date()).toISOString(),
+    automated: isAutomated(parsed.headers),
+  };
+}
@@ -0,0 +1,141 @@
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"]/g, (char) =>
+    char === "&"
+      ? "&amp;"
+      : char === "<"
+        ? "&lt;"
+        : char === ">"
+          ? "&gt;"
+          : "&quot;",
+  );
+
+// Inline Markdown (code, links, bold, italics) to HTML. Code spans are
+// converted first so their content is left alone.
+function convertInline(text: string) {
+  return text
+    .split(/(`[^`]+`)/)
+    .map((part) => {
+      if (part.length > 1 && part.startsWith("`") && part.endsWith("`")) {
+        return `<code>${escapeHtml(part.slice(1, -1))}</code>`;
+      }
+      return escapeHtml(part)
+        .replace(
+          /\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g,
+          (_, label, url) => `<a href="${url}">${label}</a>`,
+        )
+        .replace(/\*\*(.+?)\*\*/g, "<strong>$1</strong>")
+        .replace(
+          /(^|[\s(])_(\S(?:.*?\S)?)_(?=$|[\s).,!?:;])/g,
+          "$1<em>$2</em>",
+        );
+    })
+    .join("");
+}
+
+const isTableRow = (line: string) => /^\s*\|.*\|\s*$/.test(line);
+const isTableSeparator = (line: string) => /^\s*\|[\s:|-]+\|\s*$/.test(line);
+const tableCells = (line: string) =>
+  line
+    .trim()
+    .replace(/^\||\|$/g, "")
+    .split("|")
+    .map((cell) => convertInline(cell.trim()));
+
+const LIST_ITEM = /^\s*(?:[-*]|\d+\.)\s+(.*)$/;
+
+function renderTable(rows: string[]) {
+  const [header, ...body] = rows.filter((row) => !isTableSeparator(row));
+  const cell = (tag: string, content: string) =>
+    `<${tag} style="border:1px solid #ddd;padding:4px 8px;text-align:left">${content}</${tag}>`;
+  return [
+    '<table style="border-collapse:collapse">',
+    `<tr>${tableCells(header)
+      .map((content) => cell("th", content))
+      .join("")}</tr>`,
+    ...body.map(
+      (row) =>
+        `<tr>${tableCells(row)
+          .map((content) => cell("td", content))
+          .join("")}</tr>`,
+    ),
+    "</table>",
+  ].join("\n");
+}
+
+// Renders Aurora's Markdown answer as the HTML alternative of a reply. The
+// Markdown itself is sent as the plain-text alternative.
+export function renderEmailHtml(markdown: string) {
+  const output: string[] = [];
+  const lines = markdown.split("\n");
+  let paragraph: string[] = [];
+  const endParagraph = () => {
+    if (paragraph.length) {
+      output.push(`<p>${paragraph.map(convertInline).join("<br>\n")}</p>`);
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.trimStart().startsWith("```")) {
+      endParagraph();
+      const code: string[] = [];
+      for (
+        i++;
+        i < lines.length && !lines[i].trimStart().startsWith("```");
+        i++
+      ) {
+        code.push(lines[i]);
+      }
+      output.push(`<pre>${escapeHtml(code.join("\n"))}</pre>`);
+      continue;
+    }
+    if (isTableRow(line)) {
+      endParagraph();
+      const rows: string[] = [];
+      for (; i < lines.length && isTableRow(lines[i]); i++) {
+        rows.push(lines[i]);
+      }
+      i--;
+      output.push(renderTable(rows));
+      continue;
+    }
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      endParagraph();
+      const level = Math.min(heading[1].length + 1, 4);
+      output.push(`<h${level}>${convertInline(heading[2])}</h${level}>`);
+      continue;
+    }
+    if (LIST_ITEM.test(line)) {
+      endParagraph();
+      const ordered = /^\s*\d+\./.test(line);
+      const items: string[] = [];
+      for (; i < lines.length && LIST_ITEM.test(lines[i]); i++) {
+        items.push(`<li>${convertInline(lines[i].match(LIST_ITEM)![1])}</li>`);
+      }
+      i--;
+      const tag = ordered ? "ol" : "ul";
+      output.push(`<${tag}>\n${items.join("\n")}\n</${tag}>`);
+      continue;
+    }
+    if (/^\s*(---|\*\*\*)\s*$/.test(line)) {
+      endParagraph();
+      output.push("<hr>");
+      continue;
+    }
+    if (!line.trim()) {
+      endParagraph();
+      continue;
+    }
+    paragraph.push(line);
+  }
+  endParagraph();
+
+  return [
+    "<!DOCTYPE html>",
+    '<html><body style="font-family:sans-serif;line-height:1.5">',
+    ...output,
+    "</body></html>",
+  ].join("\n");
+}
@@ -0,0 +1,50 @@
+import { createHash } from "node:crypto";
+
+import type { KeyValueStore } from "../../mastra/storage";
+import type { InboundEmail } from "./parseEmail";
+
+// Long enough for slow conversations; expired threads start over.
+const EMAIL_THREAD_TTL_MS = 90 * 24 * 60 * 60 * 1000;
+
+const threadKey = (messageId: string) =>
+  `email:thread:${messageId.toLowerCase()}`;
+
+// Message-IDs contain characters that do not belong in thread ids.
+const threadIdFor = (rootMessageId: string) =>
+  `aurora-email/${createHash("sha256")
+    .update(rootMessageId.toLowerCase())
+    .digest("hex")
+    .slice(0, 32)}`;
+
+// The Aurora thread a message belongs to. Messages answering one Aurora has
+// seen (In-Reply-To, then References from newest to oldest) join its thread.
+// Otherwise the thread is named after the conversation's first message, so
+// replies to mail Aurora was only copied on still line up.
+export async function resolveEmailThreadId(
+  store: KeyValueStore,
+  email: InboundEmail,
+) {
+  const parents = [
+    ...(email.inReplyTo ? [email.inReplyTo] : []),
+    ...[...email.references].reverse(),
+  ];
+  for (const parent of parents) {
+    const threadId = await store.get<string>(threadKey(parent));
+    if (threadId) {
+      return threadId;
+    }
+  }
+  return threadIdFor(email.references[0] ?? email.inReplyTo ?? email.messageId);
+}
+
+// Remembers the thread of a received or sent message, so replies to it can
+// be found.
+export function recordEmailThread(
+  store: KeyValueStore,
+  messageId: string,
+  threadId: string,
+) {
+  return store.set(threadKey(messageId), threadId, {
+    ttlMs: EMAIL_THREAD_TTL_MS,
+  });
+}
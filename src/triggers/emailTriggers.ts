@@ -0,0 +1,196 @@
+import { format } from "node:util";
+import { Mastra } from "@mastra/core";
+import type { IMastraLogger } from "@mastra/core/logger";
+
+import { ETHICS_WITHHELD_NOTICE } from "../mastra/ethics";
+import {
+  inngest,
+  registerApiRoute,
+  registerInngestFunction,
+} from "../mastra/inngest";
+import { sharedKeyValueStore } from "../mastra/storage";
+import { hasBearerToken, requireAdminToken } from "./adminAuth";
+import { isAllowedSender } from "./email/allowedSenders";
+import {
+  type HeldEmailAnswer,
+  deliverEmailAnswer,
+  heldEmailAnswerKey,
+} from "./email/conversation";
+import {
+  type InboundEmail,
+  InvalidEmailError,
+  parseInboundEmail,
+} from "./email/parseEmail";
+import { isOwnAddress } from "./email/smtp";
+import type { ApiRoute } from "./slackTriggers";
+
+export const EMAIL_INBOUND_PATH = "/webhooks/email/inbound";
+
+export type TriggerInfoEmailOnNewMessage = {
+  type: "email/message";
+  params: {
+    from: string;
+    subject: string;
+  };
+  payload: InboundEmail;
+};
+
+// Relays and maildirs can deliver a message more than once.
+const EMAIL_DEDUP_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type InboundEmailStatus = "queued" | "duplicate" | "ignored";
+
+// Parses a raw message and queues it for the background function. Shared by
+// the inbound route and the maildir reader. Throws InvalidEmailError for
+// messages that cannot be answered.
+export async function receiveInboundEmail(
+  raw: Buffer | string,
+  logger?: IMastraLogger,
+): Promise<InboundEmailStatus> {
+  const email = await parseInboundEmail(raw);
+  logger?.info("📧 [Email] message", {
+    messageId: email.messageId,
+    from: email.from.address,
+    inReplyTo: email.inReplyTo,
+  });
+
+  // Never answer auto-replies, bounces, list mail or Aurora itself, which
+  // could loop.
+  if (email.automated || isOwnAddress(email.from.address) || !email.text) {
+    logger?.info("⏭️ [Email] Not answering message", {
+      messageId: email.messageId,
+      automated: email.automated,
+    });
+    return "ignored";
+  }
+  if (!isAllowedSender(email.from.address)) {
+    logger?.warn("⛔ [Email] Sender is not in EMAIL_ALLOWED_SENDERS", {
+      messageId: email.messageId,
+      from: email.from.address,
+    });
+    return "ignored";
+  }
+
+  const messageKey = `email:message:${email.messageId.toLowerCase()}`;
+  const claimed = await sharedKeyValueStore.setIfAbsent(
+    messageKey,
+    { receivedAt: new Date().toISOString() },
+    { ttlMs: EMAIL_DEDUP_TTL_MS },
+  );
+  if (!claimed) {
+    logger?.info("🔁 [Email] Skipping duplicate message", {
+      messageId: email.messageId,
+    });
+    return "duplicate";
+  }
+
+  try {
+    await inngest.send({
+      name: "email/message.received",
+      data: { email },
+    });
+  } catch (error) {
+    // Released so that the relay's retry or the next maildir scan queues
+    // the message instead of skipping it as a duplicate.
+    await sharedKeyValueStore.delete(messageKey).catch((releaseError) =>
+      logger?.error("❌ [Email] Error releasing message claim", {
+        messageId: email.messageId,
+        error: format(releaseError),
+      }),
+    );
+    throw error;
+  }
+  return "queued";
+}
+
+export function registerEmailTrigger({
+  triggerType,
+  handler,
+}: {
+  triggerType: string;
+  handler: (
+    mastra: Mastra,
+    triggerInfo: TriggerInfoEmailOnNewMessage,
+  ) => Promise<void>;
+}): Array<ApiRoute> {
+  registerInngestFunction((mastra) =>
+    inngest.createFunction(
+      {
+        id: "email-process-message",
+        name: "Process inbound email",
+        // Re-running the handler could send a second reply.
+        retries: 0,
+      },
+      { event: "email/message.received" },
+      async ({ event, step }) => {
+        const email = event.data.email as InboundEmail;
+        await step.run("run trigger handler", () =>
+          handler(mastra, {
+            type: triggerType,
+            params: { from: email.from.address, subject: email.subject },
+            payload: email,
+          } as TriggerInfoEmailOnNewMessage),
+        );
+        return { status: "handled" };
+      },
+    ),
+  );
+
+  return [
+    // A mail relay posts the raw message, e.g. Postfix piping to curl with
+    // `--data-binary @- -H "Authorization: Bearer $EMAIL_INBOUND_SECRET"`.
+    registerApiRoute(EMAIL_INBOUND_PATH, {
+      method: "POST",
+      handler: async (c) => {
+        const mastra = c.get("mastra");
+        const logger = mastra.getLogger();
+        const secret = process.env.EMAIL_INBOUND_SECRET;
+        if (!secret || !hasBearerToken(c, secret)) {
+          return c.text("Unauthorized", 401);
+        }
+        try {
+          const raw = Buffer.from(await c.req.arrayBuffer());
+          const status = await receiveInboundEmail(raw, logger);
+          return c.json({ status });
+        } catch (error) {
+          if (error instanceof InvalidEmailError) {
+            logger?.warn("⚠️ [Email] Rejected message", {
+              error: error.message,
+            });
+            return c.json({ error: error.message }, 400);
+          }
+          logger?.error("Error handling inbound email:", {
+            error: format(error),
+          });
+          return c.text("Internal Server Error", 500);
+        }
+      },
+    }),
+    // Releases or discards an answer held by the ethics protocol:
+    // { messageId: "<question's Message-ID>", approve: boolean }.
+    {
+      path: "/admin/email/held",
+      method: "POST",
+      middleware: requireAdminToken,
+      handler: async (c) => {
+        const body = await c.req.json().catch(() => ({}));
+        if (typeof body.messageId !== "string") {
+          return c.json({ error: "messageId is required" }, 400);
+        }
+        const key = heldEmailAnswerKey(body.messageId);
+        const held = await sharedKeyValueStore.get<HeldEmailAnswer>(key);
+        if (!held) {
+          return c.json({ error: "No held answer for this message" }, 404);
+        }
+        await sharedKeyValueStore.delete(key);
+        const approved = body.approve === true;
+        await deliverEmailAnswer(
+          held.email,
+          held.threadId,
+          approved ? held.answer : ETHICS_WITHHELD_NOTICE,
+        );
+        return c.json({ messageId: body.messageId, approved });
+      },
+    },
+  ];
+}
@@ -0,0 +1,95 @@
+import type { IMastraLogger } from "@mastra/core/logger";
+import type { WebClient } from "@slack/web-api";
+
+import {
+  applyConfigCommand,
+  configCommandHelp,
+  describeChannelConfig,
+  parseConfigCommand,
+  resolveChannelConfig,
+} from "../../mastra/channelConfig";
+import { sharedChannelConfigStore } from "../../mastra/storage";
+import type { SlackCommandInvocation } from "../slackCommands";
+import { slackWorkspaceKey } from "./credentials";
+
+// Workspace admins and owners may change any setting; the creator of a
+// channel may change that channel's settings. AURORA_CONFIG_ADMINS lists
+// additional Slack user ids allowed to change everything.
+async function canEditConfig(
+  slack: WebClient,
+  userId: string,
+  channelId: string | undefined,
+) {
+  const configAdmins = (process.env.AURORA_CONFIG_ADMINS ?? "")
+    .split(",")
+    .map((id) => id.trim());
+  if (configAdmins.includes(userId)) {
+    return true;
+  }
+  const { user } = await slack.users.info({ user: userId });
+  if (user?.is_admin || user?.is_owner || user?.is_primary_owner) {
+    return true;
+  }
+  if (!channelId) {
+    return false;
+  }
+  const { channel } = await slack.conversations.info({ channel: channelId });
+  return channel?.creator === userId;
+}
+
+// Handles "/aurora config ..." and returns the Markdown reply.
+export async function handleSlackConfigCommand({
+  slack,
+  invocation,
+  prefix,
+  logger,
+}: {
+  slack: WebClient;
+  invocation: SlackCommandInvocation;
+  prefix: string;
+  logger?: IMastraLogger;
+}) {
+  const command = parseConfigCommand(invocation.args);
+  if (command.action === "help") {
+    return configCommandHelp(prefix);
+  }
+  const workspaceId = slackWorkspaceKey({
+    teamId: invocation.teamId || undefined,
+    enterpriseId: invocation.enterpriseId,
+  });
+  const channelId = invocation.channelId;
+
+  if (command.action === "set" || command.action === "reset") {
+    const scope = command.workspace
+      ? { workspaceId }
+      : { workspaceId, channelId };
+    if (!(await canEditConfig(slack, invocation.userId, scope.channelId))) {
+      return command.workspace
+        ? "Only workspace admins can change the workspace settings."
+        : "Only workspace admins and the channel's creator can change this channel's settings.";
+    }
+    await applyConfigCommand(
+      sharedChannelConfigStore,
+      scope,
+      command,
+      invocation.userId,
+    );
+    logger?.info("⚙️ [Slack Config] Settings updated", {
+      workspaceId,
+      channelId: scope.channelId ?? "workspace",
+      action: command.action,
+      userId: invocation.userId,
+    });
+  }
+
+  const resolved = await resolveChannelConfig(sharedChannelConfigStore, {
+    workspaceId,
+    channelId: command.workspace ? undefined : channelId,
+  });
+  return [
+    command.workspace
+      ? "## ⚙️ Aurora workspace settings"
+      : `## ⚙️ Aurora settings for <#${channelId}>`,
+    describeChannelConfig(resolved),
+  ].join("\n");
+}
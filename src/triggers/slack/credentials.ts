@@ -0,0 +1,265 @@
+import { type AuthTestResponse, WebClient } from "@slack/web-api";
+
+import { sharedKeyValueStore } from "../../mastra/storage";
+import { SlackInstallationStore } from "./installationStore";
+import { RateLimitedWebClient } from "./outbound";
+
+// Identifies the workspace an API call is made for. Single-workspace
+// providers ignore it.
+export type SlackWorkspaceRef = {
+  teamId?: string;
+  enterpriseId?: string;
+};
+
+// Team ids are unique across Slack, so they scope per-workspace state
+// (dedup keys, memory, caches). Org-wide events without a team fall back to
+// the enterprise id.
+export function slackWorkspaceKey({ teamId, enterpriseId }: SlackWorkspaceRef) {
+  return teamId ?? enterpriseId ?? "default";
+}
+
+// Reads the workspace from an Events API, slash command or interactivity
+// payload.
+export function slackWorkspaceFromPayload(payload: any): SlackWorkspaceRef {
+  const authorization = payload?.authorizations?.[0];
+  return {
+    teamId:
+      payload?.team_id ??
+      payload?.team?.id ??
+      payload?.user?.team_id ??
+      authorization?.team_id ??
+      undefined,
+    enterpriseId:
+      payload?.enterprise_id ??
+      payload?.enterprise?.id ??
+      authorization?.enterprise_id ??
+      undefined,
+  };
+}
+
+export type SlackCredentials = {
+  token: string;
+  // The user who installed or connected the app, if known.
+  installerUserId?: string;
+  // Epoch milliseconds after which the token must not be used.
+  expiresAt?: number;
+};
+
+export interface SlackCredentialProvider {
+  readonly name: string;
+  getCredentials(workspace: SlackWorkspaceRef): Promise<SlackCredentials>;
+}
+
+// Tokens are refreshed this long before they expire.
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// A single bot token from SLACK_BOT_TOKEN, for one workspace outside Replit.
+export class StaticTokenCredentialProvider implements SlackCredentialProvider {
+  readonly name = "token";
+
+  constructor(private readonly token: string) {}
+
+  async getCredentials() {
+    return { token: this.token };
+  }
+}
+
+// The Replit "slack-agent" connector, which manages the OAuth install and
+// token refresh itself.
+export class ReplitConnectorCredentialProvider
+  implements SlackCredentialProvider
+{
+  readonly name = "replit";
+  private connectionSettings: any;
+
+  async getCredentials(): Promise<SlackCredentials> {
+    const settings = this.connectionSettings?.settings;
+    if (
+      settings?.expires_at &&
+      new Date(settings.expires_at).getTime() - REFRESH_MARGIN_MS > Date.now()
+    ) {
+      return this.toCredentials(settings);
+    }
+
+    const hostname = process.env.REPLIT_CONNECTORS_HOSTNAME;
+    const xReplitToken = process.env.REPL_IDENTITY
+      ? "repl " + process.env.REPL_IDENTITY
+      : process.env.WEB_REPL_RENEWAL
+        ? "depl " + process.env.WEB_REPL_RENEWAL
+        : null;
+
+    if (!xReplitToken) {
+      throw new Error("X_REPLIT_TOKEN not found for repl/depl");
+    }
+
+    const res = await fetch(
+      "https://" +
+        hostname +
+        "/api/v2/connection?include_secrets=true&connector_names=slack-agent",
+      {
+        headers: {
+          Accept: "application/json",
+          X_REPLIT_TOKEN: xReplitToken,
+        },
+      },
+    );
+    const resJson = await res.json();
+    const connection = resJson?.items?.[0];
+    if (!connection || !connection.settings.access_token) {
+      throw new Error(
+        `Slack not connected: HTTP ${res.status} ${res.statusText}: ${JSON.stringify(resJson)}`,
+      );
+    }
+    this.connectionSettings = connection;
+    return this.toCredentials(connection.settings);
+  }
+
+  private toCredentials(settings: any): SlackCredentials {
+    return {
+      token: settings.access_token,
+      installerUserId: settings.oauth?.credentials?.raw?.authed_user?.id,
+      expiresAt: settings.expires_at
+        ? new Date(settings.expires_at).getTime()
+        : undefined,
+    };
+  }
+}
+
+// Installations created by the OAuth v2 flow (see ../slackOAuth). Rotating
+// bot tokens are refreshed with oauth.v2.access before they expire.
+export class OAuthCredentialProvider implements SlackCredentialProvider {
+  readonly name = "oauth";
+
+  constructor(
+    private readonly installations: SlackInstallationStore,
+    private readonly clientId: string,
+    private readonly clientSecret: string,
+  ) {}
+
+  async getCredentials(workspace: SlackWorkspaceRef) {
+    let installation = await this.installations.get(workspace);
+    if (!installation) {
+      throw new Error(
+        `Aurora is not installed in Slack workspace ${workspace.teamId ?? workspace.enterpriseId ?? "(default)"}; visit /slack/install`,
+      );
+    }
+
+    if (
+      installation.botRefreshToken &&
+      installation.botTokenExpiresAt &&
+      installation.botTokenExpiresAt - REFRESH_MARGIN_MS <= Date.now()
+    ) {
+      const refreshed = await new WebClient().oauth.v2.access({
+        client_id: this.clientId,
+        client_secret: this.clientSecret,
+        grant_type: "refresh_token",
+        refresh_token: installation.botRefreshToken,
+      });
+      installation = {
+        ...installation,
+        botToken: refreshed.access_token!,
+        botRefreshToken: refreshed.refresh_token,
+        botTokenExpiresAt: Date.now() + refreshed.expires_in! * 1000,
+      };
+      await this.installations.save(installation);
+    }
+
+    return {
+      token: installation.botToken,
+      installerUserId: installation.installerUserId,
+      expiresAt: installation.botTokenExpiresAt,
+    };
+  }
+}
+
+export function oauthConfig() {
+  const clientId = process.env.SLACK_CLIENT_ID;
+  const clientSecret = process.env.SLACK_CLIENT_SECRET;
+  return clientId && clientSecret ? { clientId, clientSecret } : null;
+}
+
+let installationStore: SlackInstallationStore | undefined;
+
+export function getSlackInstallationStore() {
+  installationStore ??= new SlackInstallationStore(sharedKeyValueStore);
+  return installationStore;
+}
+
+// SLACK_CREDENTIAL_PROVIDER selects "token", "oauth" or "replit". Without it,
+// SLACK_BOT_TOKEN wins, then an OAuth app (SLACK_CLIENT_ID/SECRET), then the
+// Replit connector.
+export function createSlackCredentialProvider(): SlackCredentialProvider {
+  const oauth = oauthConfig();
+  const name =
+    process.env.SLACK_CREDENTIAL_PROVIDER ??
+    (process.env.SLACK_BOT_TOKEN ? "token" : oauth ? "oauth" : "replit");
+
+  switch (name) {
+    case "token":
+      if (!process.env.SLACK_BOT_TOKEN) {
+        throw new Error("SLACK_BOT_TOKEN is required for the token provider");
+      }
+      return new StaticTokenCredentialProvider(process.env.SLACK_BOT_TOKEN);
+    case "oauth":
+      if (!oauth) {
+        throw new Error(
+          "SLACK_CLIENT_ID and SLACK_CLIENT_SECRET are required for the oauth provider",
+        );
+      }
+      return new OAuthCredentialProvider(
+        getSlackInstallationStore(),
+        oauth.clientId,
+        oauth.clientSecret,
+      );
+    case "replit":
+      return new ReplitConnectorCredentialProvider();
+    default:
+      throw new Error(`Unknown SLACK_CREDENTIAL_PROVIDER "${name}"`);
+  }
+}
+
+let provider: SlackCredentialProvider | undefined;
+
+export function getSlackCredentialProvider() {
+  provider ??= createSlackCredentialProvider();
+  return provider;
+}
+
+export type SlackClient = {
+  slack: WebClient;
+  auth: AuthTestResponse;
+  user: string | undefined;
+};
+
+// One WebClient and auth.test result per token. Refreshed tokens get a new
+// entry; the oldest entries are dropped once the cache is full.
+const MAX_CACHED_CLIENTS = 100;
+const clients = new Map<
+  string,
+  Promise<{ slack: WebClient; auth: AuthTestResponse }>
+>();
+
+function clientForToken(token: string, workspace: SlackWorkspaceRef) {
+  let client = clients.get(token);
+  if (!client) {
+    // Rate-limit buckets are per workspace, like Slack's own limits.
+    const slack = new RateLimitedWebClient(token, slackWorkspaceKey(workspace));
+    client = slack.auth.test().then((auth) => ({ slack, auth }));
+    // Don't cache failures (e.g. a revoked token), so the next call retries.
+    client.catch(() => clients.delete(token));
+    clients.set(token, client);
+    if (clients.size > MAX_CACHED_CLIENTS) {
+      clients.delete(clients.keys().next().value!);
+    }
+  }
+  return client;
+}
+
+export async function getSlackClient(
+  workspace: SlackWorkspaceRef = {},
+): Promise<SlackClient> {
+  const credentials =
+    await getSlackCredentialProvider().getCredentials(workspace);
+  const { slack, auth } = await clientForToken(credentials.token, workspace);
+  return { slack, auth, user: credentials.installerUserId };
+}
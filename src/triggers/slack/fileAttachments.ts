@@ -0,0 +1,192 @@
+import { format } from "node:util";
+import type { IMastraLogger } from "@mastra/core/logger";
+import mammoth from "mammoth";
+import { PDFParse } from "pdf-parse";
+
+// File types Aurora reads, keyed by Slack's `filetype`. Anything else is
+// skipped with a note so the user knows it was not considered.
+const SUPPORTED_FILE_TYPES = {
+  pdf: "pdf",
+  docx: "docx",
+  markdown: "text",
+  md: "text",
+  text: "text",
+  txt: "text",
+  csv: "text",
+  json: "json",
+} as const;
+
+type FileKind =
+  (typeof SUPPORTED_FILE_TYPES)[keyof typeof SUPPORTED_FILE_TYPES];
+
+const DEFAULT_MAX_FILE_BYTES = 10 * 1024 * 1024;
+const MAX_FILES_PER_MESSAGE = 5;
+// Extracted text is truncated so a large document cannot exhaust the
+// model's context window.
+const MAX_CHARS_PER_FILE = 20_000;
+const MAX_TOTAL_CHARS = 40_000;
+
+// Subset of Slack's file object, see https://api.slack.com/types/file
+export type SlackFile = {
+  id: string;
+  name?: string;
+  title?: string;
+  mimetype?: string;
+  filetype?: string;
+  size?: number;
+  url_private_download?: string;
+  url_private?: string;
+};
+
+export type SlackFileAttachment = {
+  name: string;
+  kind: FileKind;
+  text: string;
+  truncated: boolean;
+};
+
+export type SkippedSlackFile = {
+  name: string;
+  reason: string;
+};
+
+export function maxFileBytes() {
+  const limit = Number(process.env.SLACK_FILE_MAX_BYTES);
+  return Number.isFinite(limit) && limit > 0 ? limit : DEFAULT_MAX_FILE_BYTES;
+}
+
+function fileKind(file: SlackFile): FileKind | undefined {
+  const extension = file.name?.split(".").pop()?.toLowerCase();
+  return (
+    SUPPORTED_FILE_TYPES[file.filetype as keyof typeof SUPPORTED_FILE_TYPES] ??
+    SUPPORTED_FILE_TYPES[extension as keyof typeof SUPPORTED_FILE_TYPES]
+  );
+}
+
+async function downloadSlackFile(file: SlackFile, token: string) {
+  const url = file.url_private_download ?? file.url_private;
+  if (!url) {
+    throw new Error("File has no download URL");
+  }
+  const response = await fetch(url, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  if (!response.ok) {
+    throw new Error(`Download failed: HTTP ${response.status}`);
+  }
+  // Slack serves its sign-in page instead of the file when the token lacks
+  // the files:read scope.
+  if (response.headers.get("content-type")?.startsWith("text/html")) {
+    throw new Error("Download returned HTML; is the files:read scope granted?");
+  }
+  const buffer = Buffer.from(await response.arrayBuffer());
+  if (buffer.length > maxFileBytes()) {
+    throw new Error(`File exceeds ${maxFileBytes()} bytes`);
+  }
+  return buffer;
+}
+
+export async function extractFileText(
+  buffer: Buffer,
+  kind: FileKind,
+): Promise<string> {
+  switch (kind) {
+    case "pdf": {
+      const parser = new PDFParse({ data: new Uint8Array(buffer) });
+      try {
+        return (await parser.getText()).text;
+      } finally {
+        await parser.destroy();
+      }
+    }
+    case "docx":
+      return (await mammoth.extractRawText({ buffer })).value;
+    case "json": {
+      const raw = buffer.toString("utf8");
+      try {
+        return JSON.stringify(JSON.parse(raw), null, 2);
+      } catch {
+        return raw;
+      }
+    }
+    case "text":
+      return buffer.toString("utf8");
+  }
+}
+
+// Downloads and extracts the supported files shared with a message. Files
+// that are unsupported, too large or unreadable are reported in `skipped`
+// rather than failing the whole message.
+export async function processSlackFiles({
+  files,
+  token,
+  logger,
+}: {
+  files: SlackFile[];
+  token: string;
+  logger?: IMastraLogger;
+}) {
+  const attachments: SlackFileAttachment[] = [];
+  const skipped: SkippedSlackFile[] = [];
+  let remainingChars = MAX_TOTAL_CHARS;
+
+  for (const [index, file] of files.entries()) {
+    const name = file.name || file.title || file.id;
+    const kind = fileKind(file);
+    if (index >= MAX_FILES_PER_MESSAGE) {
+      skipped.push({
+        name,
+        reason: `only the first ${MAX_FILES_PER_MESSAGE} files are read`,
+      });
+      continue;
+    }
+    if (!kind) {
+      skipped.push({
+        name,
+        reason: `unsupported file type ${file.filetype ?? "unknown"}`,
+      });
+      continue;
+    }
+    if (file.size && file.size > maxFileBytes()) {
+      skipped.push({
+        name,
+        reason: `larger than ${Math.round(maxFileBytes() / 1024 / 1024)} MB`,
+      });
+      continue;
+    }
+    if (remainingChars <= 0) {
+      skipped.push({ name, reason: "attachment text budget exhausted" });
+      continue;
+    }
+
+    try {
+      const buffer = await downloadSlackFile(file, token);
+      const text = (await extractFileText(buffer, kind)).trim();
+      const limit = Math.min(MAX_CHARS_PER_FILE, remainingChars);
+      const truncated = text.length > limit;
+      attachments.push({
+        name,
+        kind,
+        text: truncated ? text.slice(0, limit) : text,
+        truncated,
+      });
+      remainingChars -= Math.min(text.length, limit);
+      logger?.info("📎 [Slack Files] Extracted file", {
+        name,
+        kind,
+        bytes: buffer.length,
+        chars: text.length,
+        truncated,
+      });
+    } catch (error) {
+      logger?.warn("⚠️ [Slack Files] Error reading file", {
+        name,
+        fileId: file.id,
+        error: format(error),
+      });
+      skipped.push({ name, reason: "could not be read" });
+    }
+  }
+
+  return { attachments, skipped };
+}
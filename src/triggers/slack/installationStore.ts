@@ -0,0 +1,149 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  scryptSync,
+} from "node:crypto";
+
+import type { KeyValueStore } from "../../mastra/storage";
+
+// A workspace (or Enterprise Grid org) that installed Aurora through the
+// OAuth v2 flow.
+export type SlackInstallation = {
+  teamId?: string;
+  teamName?: string;
+  // Set for Enterprise Grid installs; org-wide installs have no teamId.
+  enterpriseId?: string;
+  isEnterpriseInstall: boolean;
+  botToken: string;
+  botUserId: string;
+  // Only present when token rotation is enabled for the app.
+  botRefreshToken?: string;
+  botTokenExpiresAt?: number;
+  scopes: string[];
+  installerUserId?: string;
+  installedAt: string;
+};
+
+export type SlackInstallationQuery = {
+  teamId?: string;
+  enterpriseId?: string;
+};
+
+type EncryptedValue = {
+  v: 1;
+  iv: string;
+  tag: string;
+  data: string;
+};
+
+const KEY_SALT = "aurora-slack-installations";
+
+// SLACK_INSTALLATION_ENCRYPTION_KEY is either 64 hex characters (a raw
+// 256-bit key) or a passphrase the key is derived from.
+function encryptionKey(secret: string) {
+  return /^[0-9a-f]{64}$/i.test(secret)
+    ? Buffer.from(secret, "hex")
+    : scryptSync(secret, KEY_SALT, 32);
+}
+
+const installationKey = ({ teamId, enterpriseId }: SlackInstallationQuery) =>
+  `slack:installation:${enterpriseId ?? "-"}:${teamId ?? "*"}`;
+const LATEST_INSTALLATION_KEY = "slack:installation:latest";
+
+// Stores installations in the shared key-value store, encrypted with
+// AES-256-GCM so bot tokens are never persisted in plain text.
+export class SlackInstallationStore {
+  private readonly key: Buffer;
+
+  constructor(
+    private readonly store: KeyValueStore,
+    secret = process.env.SLACK_INSTALLATION_ENCRYPTION_KEY,
+  ) {
+    if (!secret) {
+      throw new Error(
+        "SLACK_INSTALLATION_ENCRYPTION_KEY is required to store Slack installations",
+      );
+    }
+    this.key = encryptionKey(secret);
+  }
+
+  private encrypt(installation: SlackInstallation): EncryptedValue {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", this.key, iv);
+    const data = Buffer.concat([
+      cipher.update(JSON.stringify(installation), "utf8"),
+      cipher.final(),
+    ]);
+    return {
+      v: 1,
+      iv: iv.toString("base64"),
+      tag: cipher.getAuthTag().toString("base64"),
+      data: data.toString("base64"),
+    };
+  }
+
+  private decrypt(value: EncryptedValue): SlackInstallation {
+    const decipher = createDecipheriv(
+      "aes-256-gcm",
+      this.key,
+      Buffer.from(value.iv, "base64"),
+    );
+    decipher.setAuthTag(Buffer.from(value.tag, "base64"));
+    return JSON.parse(
+      Buffer.concat([
+        decipher.update(Buffer.from(value.data, "base64")),
+        decipher.final(),
+      ]).toString("utf8"),
+    );
+  }
+
+  async save(installation: SlackInstallation) {
+    const query = installation.isEnterpriseInstall
+      ? { enterpriseId: installation.enterpriseId }
+      : {
+          teamId: installation.teamId,
+          enterpriseId: installation.enterpriseId,
+        };
+    await this.store.set(installationKey(query), this.encrypt(installation));
+    await this.store.set(LATEST_INSTALLATION_KEY, query);
+  }
+
+  // Looks up the workspace's own installation, then an org-wide one. Without
+  // a team or enterprise id the most recent installation is returned, which
+  // suits single-workspace deployments.
+  async get(query: SlackInstallationQuery = {}) {
+    const candidates: SlackInstallationQuery[] = [];
+    if (query.teamId) {
+      candidates.push({
+        teamId: query.teamId,
+        enterpriseId: query.enterpriseId,
+      });
+    }
+    if (query.enterpriseId) {
+      candidates.push({ enterpriseId: query.enterpriseId });
+    }
+    if (!candidates.length) {
+      const latest = await this.store.get<SlackInstallationQuery>(
+        LATEST_INSTALLATION_KEY,
+      );
+      if (latest) {
+        candidates.push(latest);
+      }
+    }
+
+    for (const candidate of candidates) {
+      const value = await this.store.get<EncryptedValue>(
+        installationKey(candidate),
+      );
+      if (value) {
+        return this.decrypt(value);
+      }
+    }
+    return null;
+  }
+
+  async delete(query: SlackInstallationQuery) {
+    await this.store.delete(installationKey(query));
+  }
+}
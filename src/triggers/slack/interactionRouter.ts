@@ -0,0 +1,113 @@
+import type { Mastra } from "@mastra/core";
+
+// Subset of Slack's interactivity payloads used by Aurora, see
+// https://api.slack.com/reference/interaction-payloads
+
+export type SlackBlockAction = {
+  type: string;
+  action_id: string;
+  block_id: string;
+  value?: string;
+  selected_option?: { value: string };
+  action_ts: string;
+};
+
+export type SlackBlockActionsPayload = {
+  type: "block_actions";
+  user: { id: string; username?: string; team_id?: string };
+  team: { id: string } | null;
+  enterprise?: { id: string } | null;
+  channel?: { id: string; name?: string };
+  message?: { ts: string; thread_ts?: string; text?: string };
+  container: Record<string, unknown>;
+  trigger_id: string;
+  response_url?: string;
+  actions: SlackBlockAction[];
+};
+
+export type SlackViewStateValue = {
+  type: string;
+  value?: string | null;
+  selected_option?: { value: string } | null;
+};
+
+export type SlackViewSubmissionPayload = {
+  type: "view_submission";
+  user: { id: string; username?: string; team_id?: string };
+  team: { id: string } | null;
+  enterprise?: { id: string } | null;
+  trigger_id: string;
+  view: {
+    id: string;
+    callback_id: string;
+    private_metadata: string;
+    state: { values: Record<string, Record<string, SlackViewStateValue>> };
+  };
+};
+
+export type SlackInteractionPayload =
+  | SlackBlockActionsPayload
+  | SlackViewSubmissionPayload;
+
+// Returned from a view submission handler to keep the modal open with
+// validation errors, keyed by block_id.
+export type SlackViewSubmissionResponse = {
+  response_action: "errors";
+  errors: Record<string, string>;
+};
+
+export type SlackActionHandler = (args: {
+  mastra: Mastra;
+  payload: SlackBlockActionsPayload;
+  action: SlackBlockAction;
+}) => Promise<void>;
+
+// View submissions must be answered within three seconds; handlers should
+// validate and enqueue any slow work.
+export type SlackViewHandler = (args: {
+  mastra: Mastra;
+  payload: SlackViewSubmissionPayload;
+}) => Promise<SlackViewSubmissionResponse | void>;
+
+export function createSlackInteractionRouter() {
+  const actionHandlers = new Map<string, SlackActionHandler>();
+  const viewHandlers = new Map<string, SlackViewHandler>();
+
+  return {
+    action(actionId: string, handler: SlackActionHandler) {
+      actionHandlers.set(actionId, handler);
+    },
+    view(callbackId: string, handler: SlackViewHandler) {
+      viewHandlers.set(callbackId, handler);
+    },
+    async dispatchActions(mastra: Mastra, payload: SlackBlockActionsPayload) {
+      const logger = mastra.getLogger();
+      for (const action of payload.actions) {
+        const handler = actionHandlers.get(action.action_id);
+        if (!handler) {
+          logger?.warn("⚠️ [Slack Interactivity] No handler for action", {
+            actionId: action.action_id,
+          });
+          continue;
+        }
+        await handler({ mastra, payload, action });
+      }
+    },
+    async dispatchView(mastra: Mastra, payload: SlackViewSubmissionPayload) {
+      const handler = viewHandlers.get(payload.view.callback_id);
+      if (!handler) {
+        mastra
+          .getLogger()
+          ?.warn("⚠️ [Slack Interactivity] No handler for view", {
+            callbackId: payload.view.callback_id,
+          });
+        return undefined;
+      }
+      return handler({ mastra, payload });
+    },
+  };
+}
+
+export type SlackInteractionRouter = ReturnType<
+  typeof createSlackInteractionRouter
+>;
@@ -0,0 +1,152 @@
+import { format } from "node:util";
+import type { IMastraLogger } from "@mastra/core/logger";
+import type { WebClient } from "@slack/web-api";
+
+import { markdownToMrkdwn } from "./renderSlackMessage";
+
+// chat.update is a Tier 3 method (~50 calls per minute per workspace); one
+// update every 1.5s keeps a single live reply well below that.
+const DEFAULT_UPDATE_INTERVAL_MS = 1500;
+// Live previews only show the tail end of long answers; the final message is
+// rendered (and split) by renderSlackMessages.
+const PREVIEW_TEXT_LIMIT = 3500;
+
+const PLACEHOLDER_TEXT = "◊ Aurora OS :: aligning symbolic pathways… ◊";
+
+export type SlackLiveReply = {
+  // Posts the placeholder reply, or turns an existing reply (e.g. to a
+  // question that was edited) into one, and returns its timestamp.
+  start(existingTs?: string): Promise<string | undefined>;
+  appendText(delta: string): void;
+  noteToolCall(toolName: string): void;
+  noteToolResult(toolName: string): void;
+  // Stops previewing the answer and shows a notice instead, e.g. while the
+  // answer awaits an ethics approval.
+  hold(notice: string): void;
+  // Flushes pending updates. The caller finalises the message afterwards.
+  stop(): Promise<void>;
+  readonly ts: string | undefined;
+};
+
+export function createSlackLiveReply({
+  slack,
+  channel,
+  threadTs,
+  logger,
+  updateIntervalMs = DEFAULT_UPDATE_INTERVAL_MS,
+}: {
+  slack: WebClient;
+  channel: string;
+  threadTs: string;
+  logger?: IMastraLogger;
+  updateIntervalMs?: number;
+}): SlackLiveReply {
+  let ts: string | undefined;
+  let text = "";
+  const runningTools: string[] = [];
+  let lastUpdate = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let inFlight: Promise<void> = Promise.resolve();
+  let stopped = false;
+  let heldNotice: string | null = null;
+
+  const preview = () => {
+    if (heldNotice !== null) {
+      return heldNotice;
+    }
+    let body = markdownToMrkdwn(text);
+    if (body.length > PREVIEW_TEXT_LIMIT) {
+      body = "…" + body.slice(body.length - PREVIEW_TEXT_LIMIT);
+    }
+    const status = runningTools.length
+      ? `\n\n⚙️ _Running ${runningTools.map((t) => `\`${t}\``).join(", ")}…_`
+      : "";
+    return (body || PLACEHOLDER_TEXT) + (stopped ? "" : " ▍") + status;
+  };
+
+  const update = () => {
+    timer = null;
+    lastUpdate = Date.now();
+    if (!ts) {
+      return;
+    }
+    const messageTs = ts;
+    // Serialise updates so they land in order.
+    inFlight = inFlight.then(async () => {
+      try {
+        await slack.chat.update({ channel, ts: messageTs, text: preview() });
+      } catch (error) {
+        // A failed preview is not fatal; the final update will catch up.
+        logger?.warn("⚠️ [Slack Live Reply] Error updating live reply", {
+          channel,
+          ts: messageTs,
+          error: format(error),
+        });
+      }
+    });
+  };
+
+  const scheduleUpdate = () => {
+    if (stopped || timer) {
+      return;
+    }
+    const wait = Math.max(0, lastUpdate + updateIntervalMs - Date.now());
+    timer = setTimeout(update, wait);
+  };
+
+  return {
+    async start(existingTs) {
+      if (existingTs) {
+        await slack.chat.update({
+          channel,
+          ts: existingTs,
+          text: PLACEHOLDER_TEXT,
+          blocks: [],
+        });
+        ts = existingTs;
+        lastUpdate = Date.now();
+        return ts;
+      }
+      const result = await slack.chat.postMessage({
+        channel,
+        thread_ts: threadTs,
+        text: PLACEHOLDER_TEXT,
+        unfurl_links: false,
+        unfurl_media: false,
+      });
+      ts = result.ts;
+      lastUpdate = Date.now();
+      return ts;
+    },
+    appendText(delta) {
+      text += delta;
+      scheduleUpdate();
+    },
+    noteToolCall(toolName) {
+      runningTools.push(toolName);
+      scheduleUpdate();
+    },
+    noteToolResult(toolName) {
+      const index = runningTools.indexOf(toolName);
+      if (index !== -1) {
+        runningTools.splice(index, 1);
+      }
+      scheduleUpdate();
+    },
+    hold(notice) {
+      heldNotice = notice;
+      scheduleUpdate();
+    },
+    async stop() {
+      stopped = true;
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      await inFlight;
+    },
+    get ts() {
+      return ts;
+    },
+  };
+}
@@ -0,0 +1,177 @@
+import { setTimeout as sleep } from "node:timers/promises";
+import {
+  ErrorCode,
+  type WebAPIRateLimitedError,
+  WebClient,
+} from "@slack/web-api";
+
+// Slack's published rate-limit tiers, as calls per minute per workspace, see
+// https://api.slack.com/apis/rate-limits. "post" is chat.postMessage's
+// special limit of about one message per second per channel.
+export type SlackRateTier = 1 | 2 | 3 | 4 | "post";
+
+const TIER_CALLS_PER_MINUTE: Record<SlackRateTier, number> = {
+  1: 1,
+  2: 20,
+  3: 50,
+  4: 100,
+  post: 60,
+};
+
+// Methods Aurora calls; anything else is assumed to be Tier 3.
+const SLACK_METHOD_TIERS: Record<string, SlackRateTier> = {
+  "auth.test": 4,
+  "chat.delete": 3,
+  "chat.postEphemeral": "post",
+  "chat.postMessage": "post",
+  "chat.update": 3,
+  "conversations.history": 3,
+  "conversations.info": 3,
+  "conversations.open": 3,
+  "conversations.replies": 3,
+  "files.info": 4,
+  "reactions.add": 3,
+  "reactions.remove": 3,
+  "users.conversations": 3,
+  "users.info": 4,
+  "views.open": 4,
+  "views.publish": 4,
+};
+
+export const slackMethodTier = (method: string): SlackRateTier =>
+  SLACK_METHOD_TIERS[method] ?? 3;
+
+// A 429 is retried after Retry-After (or an exponential backoff when Slack
+// sends none) this many times before the call fails.
+const MAX_RATE_LIMIT_RETRIES = 3;
+const MAX_BACKOFF_MS = 60 * 1000;
+
+type SlackMethodMetrics = {
+  calls: number;
+  // Calls that waited for their rate-limit bucket before being sent.
+  delayed: number;
+  delayedMs: number;
+  rateLimited: number;
+  retries: number;
+  // Calls that still failed after all retries.
+  dropped: number;
+};
+
+const metrics = new Map<string, SlackMethodMetrics>();
+
+function methodMetrics(method: string) {
+  let entry = metrics.get(method);
+  if (!entry) {
+    entry = {
+      calls: 0,
+      delayed: 0,
+      delayedMs: 0,
+      rateLimited: 0,
+      retries: 0,
+      dropped: 0,
+    };
+    metrics.set(method, entry);
+  }
+  return entry;
+}
+
+// Counters since the process started, per Slack method.
+export function slackOutboundMetrics() {
+  return Object.fromEntries(
+    [...metrics].map(([method, entry]) => [
+      method,
+      { tier: slackMethodTier(method), ...entry },
+    ]),
+  );
+}
+
+type Bucket = { tokens: number; updatedAt: number; burst: number };
+
+// Token buckets per workspace, method and (for posts) channel. They pace
+// calls made by this process; other replicas have their own buckets, and
+// 429s returned because of them are retried below.
+const buckets = new Map<string, Bucket>();
+const MAX_BUCKETS = 10_000;
+
+// Takes a token and returns how long to wait before sending.
+function reserve(key: string, tier: SlackRateTier) {
+  const perMinute = TIER_CALLS_PER_MINUTE[tier];
+  const refillPerMs = perMinute / 60_000;
+  const now = Date.now();
+  let bucket = buckets.get(key);
+  if (!bucket) {
+    // Allow short bursts, as Slack does.
+    const burst = tier === "post" ? 1 : Math.max(1, Math.ceil(perMinute / 10));
+    bucket = { tokens: burst, updatedAt: now, burst };
+    buckets.set(key, bucket);
+    if (buckets.size > MAX_BUCKETS) {
+      buckets.delete(buckets.keys().next().value!);
+    }
+  }
+  bucket.tokens = Math.min(
+    bucket.burst,
+    bucket.tokens + (now - bucket.updatedAt) * refillPerMs,
+  );
+  bucket.updatedAt = now;
+  bucket.tokens -= 1;
+  return bucket.tokens >= 0 ? 0 : Math.ceil(-bucket.tokens / refillPerMs);
+}
+
+function isRateLimitedError(error: unknown): error is WebAPIRateLimitedError {
+  return (
+    error !== null &&
+    typeof error === "object" &&
+    "code" in error &&
+    error.code === ErrorCode.RateLimitedError
+  );
+}
+
+// A WebClient that paces every call by its method's tier and handles 429s
+// itself, so all Slack calls share one place for rate limits and metrics.
+export class RateLimitedWebClient extends WebClient {
+  constructor(
+    token: string,
+    private readonly bucketPrefix: string,
+  ) {
+    super(token, { rejectRateLimitedCalls: true });
+  }
+
+  override async apiCall(method: string, options?: Record<string, unknown>) {
+    const tier = slackMethodTier(method);
+    const stats = methodMetrics(method);
+    const bucketKey =
+      tier === "post" && typeof options?.channel === "string"
+        ? `${this.bucketPrefix}:${method}:${options.channel}`
+        : `${this.bucketPrefix}:${method}`;
+    stats.calls++;
+
+    const wait = reserve(bucketKey, tier);
+    if (wait > 0) {
+      stats.delayed++;
+      stats.delayedMs += wait;
+      await sleep(wait);
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await super.apiCall(method, options);
+      } catch (error) {
+        if (!isRateLimitedError(error)) {
+          throw error;
+        }
+        stats.rateLimited++;
+        if (attempt >= MAX_RATE_LIMIT_RETRIES) {
+          stats.dropped++;
+          throw error;
+        }
+        stats.retries++;
+        const backoff = error.retryAfter
+          ? error.retryAfter * 1000
+          : Math.min(MAX_BACKOFF_MS, 1000 * 2 ** attempt);
+        stats.delayedMs += backoff;
+        // Jitter keeps concurrent callers from retrying in lockstep.
+        await sleep(backoff + Math.random() * 250);
+      }
+    }
+  }
+}
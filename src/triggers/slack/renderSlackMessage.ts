@@ -0,0 +1,307 @@
+import type { Block, KnownBlock } from "@slack/web-api";
+
+import { splitText } from "../splitText";
+
+// Slack limits, see https://api.slack.com/reference/block-kit/blocks
+const SECTION_TEXT_LIMIT = 3000;
+const HEADER_TEXT_LIMIT = 150;
+const CONTEXT_TEXT_LIMIT = 3000;
+const MAX_BLOCKS_PER_MESSAGE = 50;
+// Slack truncates `text` at 40k characters, but very long single messages are
+// hard to read in a thread. Continuation posts are started well before that.
+const MESSAGE_TEXT_BUDGET = 12000;
+
+export type SlackRenderedMessage = {
+  // Fallback used for notifications and clients that cannot render blocks.
+  text: string;
+  blocks: (KnownBlock | Block)[];
+};
+
+export type RenderSlackMessageOptions = {
+  // Tool invocations made while producing the answer. When provided they are
+  // collapsed into a single context block at the end of the last message.
+  toolTrace?: string[];
+};
+
+type Segment =
+  | { type: "heading"; level: number; text: string }
+  | { type: "text"; text: string }
+  | { type: "code"; lang: string; text: string }
+  | { type: "divider" };
+
+// Slack-formatted tokens (mentions, channel links, special commands and links)
+// that must survive escaping untouched.
+const SLACK_TOKEN = /(<(?:[@#!][^>\s]+|https?:\/\/[^>\s]+)>)/;
+
+function escapeSlackText(text: string) {
+  return text
+    .split(SLACK_TOKEN)
+    .map((part, i) =>
+      i % 2 === 1
+        ? part
+        : part
+            .replaceAll("&", "&amp;")
+            .replaceAll("<", "&lt;")
+            .replaceAll(">", "&gt;"),
+    )
+    .join("");
+}
+
+// Converts inline Markdown to Slack mrkdwn. Inline code spans are left as-is.
+function convertInline(text: string) {
+  return text
+    .split(/(`[^`\n]+`)/)
+    .map((part, i) => {
+      if (i % 2 === 1) {
+        return part;
+      }
+      const links: string[] = [];
+      return (
+        escapeSlackText(part)
+          // [label](url) -> <url|label>
+          .replace(
+            /!?\[([^\]\n]+)\]\((https?:\/\/[^)\s]+)\)/g,
+            (_, label: string, url: string) => {
+              links.push(`<${url}|${label}>`);
+              return `\u0000${links.length - 1}\u0000`;
+            },
+          )
+          // **bold** / __bold__ -> *bold*, keeping it apart from italics
+          .replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, "\u0001$2\u0001")
+          // *italic* -> _italic_
+          .replace(/(?<![*\w])\*(?=\S)([^*\n]+?)(?<=\S)\*(?![*\w])/g, "_$1_")
+          .replaceAll("\u0001", "*")
+          // ~~strike~~ -> ~strike~
+          .replace(/~~(?=\S)(.+?)(?<=\S)~~/g, "~$1~")
+          .replace(/\u0000(\d+)\u0000/g, (_, i: string) => links[Number(i)])
+      );
+    })
+    .join("");
+}
+
+function convertLine(line: string) {
+  const bullet = line.match(/^(\s*)[-*+]\s+(?:\[( |x|X)\]\s+)?(.*)$/);
+  if (bullet) {
+    const [, indent, task, rest] = bullet;
+    const marker = task === undefined ? "•" : task.trim() === "" ? "☐" : "☑";
+    const depth = Math.floor(indent.replace(/\t/g, "  ").length / 2);
+    return `${"    ".repeat(depth)}${marker} ${convertInline(rest)}`;
+  }
+  const quote = line.match(/^>\s?(.*)$/);
+  if (quote) {
+    return `>${convertInline(quote[1])}`;
+  }
+  return convertInline(line);
+}
+
+// Markdown tables have no mrkdwn equivalent; render them as aligned
+// preformatted text.
+function renderTable(lines: string[]) {
+  const rows = lines
+    .filter((line) => !/^\s*\|?\s*:?-{3,}/.test(line))
+    .map((line) =>
+      line
+        .trim()
+        .replace(/^\||\|$/g, "")
+        .split("|")
+        .map((cell) => cell.trim()),
+    );
+  const widths = rows.reduce<number[]>(
+    (acc, row) => row.map((cell, i) => Math.max(acc[i] ?? 0, cell.length)),
+    [],
+  );
+  return rows
+    .map((row) => row.map((cell, i) => cell.padEnd(widths[i])).join("  "))
+    .join("\n");
+}
+
+function parseMarkdown(markdown: string): Segment[] {
+  const segments: Segment[] = [];
+  const lines = markdown.replace(/\r\n/g, "\n").split("\n");
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    const text = paragraph.join("\n").trim();
+    if (text) {
+      segments.push({ type: "text", text });
+    }
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = line.match(/^\s*```(\S*)/);
+    if (fence) {
+      flushParagraph();
+      const code: string[] = [];
+      for (i++; i < lines.length && !/^\s*```/.test(lines[i]); i++) {
+        code.push(lines[i]);
+      }
+      segments.push({
+        type: "code",
+        lang: fence[1],
+        text: escapeSlackText(code.join("\n")),
+      });
+      continue;
+    }
+
+    if (/^\s*\|.*\|\s*$/.test(line)) {
+      flushParagraph();
+      const table: string[] = [];
+      for (; i < lines.length && /^\s*\|.*\|\s*$/.test(lines[i]); i++) {
+        table.push(lines[i]);
+      }
+      i--;
+      segments.push({
+        type: "code",
+        lang: "",
+        text: escapeSlackText(renderTable(table)),
+      });
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      flushParagraph();
+      segments.push({
+        type: "heading",
+        level: heading[1].length,
+        text: heading[2],
+      });
+      continue;
+    }
+
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      flushParagraph();
+      segments.push({ type: "divider" });
+      continue;
+    }
+
+    if (line.trim() === "") {
+      paragraph.push("");
+      continue;
+    }
+
+    paragraph.push(convertLine(line));
+  }
+  flushParagraph();
+
+  return segments;
+}
+
+// Converts Aurora's Markdown answer to Slack mrkdwn text, without blocks.
+export function markdownToMrkdwn(markdown: string) {
+  return parseMarkdown(markdown)
+    .map((segment) => {
+      switch (segment.type) {
+        case "heading":
+          return `*${convertInline(segment.text)}*`;
+        case "text":
+          return segment.text;
+        case "code":
+          return "```\n" + segment.text + "\n```";
+        case "divider":
+          return "───";
+      }
+    })
+    .join("\n\n");
+}
+
+function sectionBlock(text: string): KnownBlock {
+  return { type: "section", text: { type: "mrkdwn", text } };
+}
+
+function segmentToBlocks(segment: Segment): KnownBlock[] {
+  switch (segment.type) {
+    case "heading": {
+      const text = segment.text.replace(/\*\*|__|~~|`/g, "");
+      if (segment.level <= 2 && text.length <= HEADER_TEXT_LIMIT) {
+        return [
+          { type: "header", text: { type: "plain_text", text, emoji: true } },
+        ];
+      }
+      return [sectionBlock(`*${convertInline(segment.text)}*`)];
+    }
+    case "text":
+      return splitText(segment.text, SECTION_TEXT_LIMIT).map(sectionBlock);
+    case "code":
+      // Leave room for the fences around each piece.
+      return splitText(segment.text, SECTION_TEXT_LIMIT - 8).map((piece) =>
+        sectionBlock("```\n" + piece + "\n```"),
+      );
+    case "divider":
+      return [{ type: "divider" }];
+  }
+}
+
+function blockText(block: KnownBlock | Block) {
+  const text = (block as { text?: { text?: string } }).text?.text;
+  return text ?? "";
+}
+
+function fallbackText(blocks: (KnownBlock | Block)[]) {
+  const text = blocks.map(blockText).filter(Boolean).join("\n");
+  return text.length > SECTION_TEXT_LIMIT
+    ? text.slice(0, SECTION_TEXT_LIMIT - 1) + "…"
+    : text || "Aurora OS response";
+}
+
+export function renderToolTrace(toolTrace: string[]): KnownBlock {
+  let text = `⚙️ _Tools used:_ ${toolTrace.map((t) => `\`${t}\``).join(" · ")}`;
+  if (text.length > CONTEXT_TEXT_LIMIT) {
+    text = text.slice(0, CONTEXT_TEXT_LIMIT - 1) + "…";
+  }
+  return { type: "context", elements: [{ type: "mrkdwn", text }] };
+}
+
+// Renders Aurora's Markdown answer into one or more Slack messages. The first
+// message is the reply; the others are meant to be posted as continuation
+// replies in the same thread.
+export function renderSlackMessages(
+  markdown: string,
+  options: RenderSlackMessageOptions = {},
+): SlackRenderedMessage[] {
+  const messages: (KnownBlock | Block)[][] = [[]];
+  let budget = MESSAGE_TEXT_BUDGET;
+
+  for (const block of parseMarkdown(markdown).flatMap(segmentToBlocks)) {
+    let current = messages[messages.length - 1];
+    const size = blockText(block).length;
+    if (
+      current.length > 0 &&
+      (current.length >= MAX_BLOCKS_PER_MESSAGE || size > budget)
+    ) {
+      current = [];
+      messages.push(current);
+      budget = MESSAGE_TEXT_BUDGET;
+    }
+    // Merge consecutive sections to keep the block count low.
+    const previous = current[current.length - 1];
+    if (
+      previous?.type === "section" &&
+      block.type === "section" &&
+      blockText(previous).length + size + 2 <= SECTION_TEXT_LIMIT
+    ) {
+      current[current.length - 1] = sectionBlock(
+        `${blockText(previous)}\n\n${blockText(block)}`,
+      );
+    } else {
+      current.push(block);
+    }
+    budget -= size;
+  }
+
+  if (options.toolTrace?.length) {
+    let last = messages[messages.length - 1];
+    if (last.length >= MAX_BLOCKS_PER_MESSAGE) {
+      last = [];
+      messages.push(last);
+    }
+    last.push(renderToolTrace(options.toolTrace));
+  }
+
+  return messages
+    .filter((blocks) => blocks.length > 0)
+    .map((blocks) => ({ text: fallbackText(blocks), blocks }));
+}
@@ -0,0 +1,151 @@
+import { format } from "node:util";
+import type { IMastraLogger } from "@mastra/core/logger";
+import type { WebClient } from "@slack/web-api";
+
+import type { KeyValueStore } from "../../mastra/storage";
+import { type SlackWorkspaceRef, slackWorkspaceKey } from "./credentials";
+
+// Maps a user's message to Aurora's reply, so the reply can be updated when
+// the message is edited and retracted when it is deleted. Edits after the
+// mapping expires are answered with a new reply.
+const REPLY_MAPPING_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+type SlackMessageRef = {
+  workspace: SlackWorkspaceRef;
+  channel: string;
+  messageTs: string;
+};
+
+export type SlackReplyRecord = {
+  // Aurora's reply first, followed by continuation posts of long answers.
+  replyTs: string[];
+  runId?: string;
+  updatedAt: string;
+};
+
+const replyKey = ({ workspace, channel, messageTs }: SlackMessageRef) =>
+  `slack:reply:${slackWorkspaceKey(workspace)}:${channel}:${messageTs}`;
+
+// The reverse mapping, from each of Aurora's reply messages to the user's
+// message it answers (used by reaction actions).
+const replySourceKey = ({ workspace, channel, messageTs }: SlackMessageRef) =>
+  `slack:reply-source:${slackWorkspaceKey(workspace)}:${channel}:${messageTs}`;
+
+export type SlackReplySource = {
+  messageTs: string;
+  runId?: string;
+};
+
+export async function recordSlackReply(
+  store: KeyValueStore,
+  message: SlackMessageRef,
+  { replyTs, runId }: { replyTs: string[]; runId?: string },
+) {
+  await store.set<SlackReplyRecord>(
+    replyKey(message),
+    { replyTs, runId, updatedAt: new Date().toISOString() },
+    { ttlMs: REPLY_MAPPING_TTL_MS },
+  );
+  for (const ts of replyTs) {
+    await store.set<SlackReplySource>(
+      replySourceKey({ ...message, messageTs: ts }),
+      { messageTs: message.messageTs, runId },
+      { ttlMs: REPLY_MAPPING_TTL_MS },
+    );
+  }
+}
+
+export function getSlackReply(store: KeyValueStore, message: SlackMessageRef) {
+  return store.get<SlackReplyRecord>(replyKey(message));
+}
+
+// Finds the user's message that one of Aurora's messages replied to.
+export function getSlackReplySource(
+  store: KeyValueStore,
+  reply: SlackMessageRef,
+) {
+  return store.get<SlackReplySource>(replySourceKey(reply));
+}
+
+// Turns a message_changed event into the payload of a regular message
+// event, with `edit` describing the change. Returns null for changes that
+// are not text edits by a user (unfurls, bot updates, thread broadcasts).
+export function editedMessagePayload(payload: any) {
+  const { message, previous_message: previous } = payload.event ?? {};
+  if (!message?.user || message.bot_id || message.text === previous?.text) {
+    return null;
+  }
+  return {
+    ...payload,
+    event: {
+      ...message,
+      type: "message",
+      channel: payload.event.channel,
+      channel_type: payload.event.channel_type,
+      event_ts: payload.event.event_ts,
+    },
+    edit: { previousText: previous?.text ?? "" },
+  };
+}
+
+// SLACK_DELETED_MESSAGE_REPLY=annotate keeps Aurora's reply with a notice
+// instead of deleting it when the user deletes their message.
+const retractMode = () =>
+  process.env.SLACK_DELETED_MESSAGE_REPLY === "annotate"
+    ? "annotate"
+    : "delete";
+
+const RETRACTED_NOTICE =
+  "◊ Aurora OS :: The message this replied to was deleted. ◊";
+
+export async function retractSlackReply({
+  slack,
+  store,
+  message,
+  logger,
+}: {
+  slack: WebClient;
+  store: KeyValueStore;
+  message: SlackMessageRef;
+  logger?: IMastraLogger;
+}) {
+  const record = await getSlackReply(store, message);
+  if (!record) {
+    return { retracted: false };
+  }
+  const mode = retractMode();
+  const [first, ...continuations] = record.replyTs;
+
+  for (const ts of mode === "annotate" ? continuations : record.replyTs) {
+    try {
+      await slack.chat.delete({ channel: message.channel, ts });
+    } catch (error) {
+      // The reply may already be gone; keep retracting the rest.
+      logger?.warn("⚠️ [Slack] Error deleting reply", {
+        channel: message.channel,
+        ts,
+        error: format(error),
+      });
+    }
+  }
+  if (mode === "annotate" && first) {
+    await slack.chat.update({
+      channel: message.channel,
+      ts: first,
+      text: RETRACTED_NOTICE,
+      blocks: [],
+    });
+  }
+
+  await store.delete(replyKey(message));
+  for (const ts of record.replyTs) {
+    await store.delete(replySourceKey({ ...message, messageTs: ts }));
+  }
+  logger?.info("🗑️ [Slack] Retracted reply to deleted message", {
+    channel: message.channel,
+    messageTs: message.messageTs,
+    mode,
+    replies: record.replyTs.length,
+  });
+  return { retracted: true, mode };
+}
@@ -0,0 +1,227 @@
+import { format } from "node:util";
+import type { IMastraLogger } from "@mastra/core/logger";
+import type { WebClient } from "@slack/web-api";
+
+import type { KeyValueStore } from "../../mastra/storage";
+
+// Rough budget for the transcript included in Aurora's prompt. Tokens are
+// estimated at four characters each, which is close enough for English text.
+const DEFAULT_TOKEN_BUDGET = 3000;
+const CHARS_PER_TOKEN = 4;
+// A single pasted log should not crowd out the rest of the discussion.
+const MAX_MESSAGE_CHARS = 1500;
+// Upper bound on how much of a very long thread is kept: the newest replies.
+const MAX_THREAD_MESSAGES = 400;
+
+const THREAD_CACHE_TTL_MS = 10 * 60 * 1000;
+const USER_NAME_TTL_MS = 24 * 60 * 60 * 1000;
+
+export type ThreadMessage = {
+  ts: string;
+  author: string;
+  text: string;
+};
+
+type CachedThread = {
+  messages: ThreadMessage[];
+  latestTs: string;
+};
+
+const tsValue = (ts: string) => Number.parseFloat(ts);
+
+export function threadTokenBudget() {
+  const budget = Number(process.env.SLACK_THREAD_CONTEXT_TOKENS);
+  return Number.isFinite(budget) && budget >= 0 ? budget : DEFAULT_TOKEN_BUDGET;
+}
+
+function createUserNameResolver({
+  slack,
+  store,
+  logger,
+}: {
+  slack: WebClient;
+  store: KeyValueStore;
+  logger?: IMastraLogger;
+}) {
+  const resolved = new Map<string, Promise<string>>();
+
+  const lookup = async (userId: string) => {
+    const key = `slack:user-name:${userId}`;
+    const cached = await store.get<string>(key);
+    if (cached) {
+      return cached;
+    }
+    try {
+      const { user } = await slack.users.info({ user: userId });
+      const name =
+        user?.profile?.display_name ||
+        user?.profile?.real_name ||
+        user?.real_name ||
+        user?.name ||
+        userId;
+      await store.set(key, name, { ttlMs: USER_NAME_TTL_MS });
+      return name;
+    } catch (error) {
+      logger?.warn("⚠️ [Slack Thread History] Error resolving user name", {
+        userId,
+        error: format(error),
+      });
+      return userId;
+    }
+  };
+
+  return (userId: string) => {
+    if (!resolved.has(userId)) {
+      resolved.set(userId, lookup(userId));
+    }
+    return resolved.get(userId)!;
+  };
+}
+
+// Slack returns replies oldest first, so every page is read and only the
+// newest MAX_THREAD_MESSAGES are kept.
+async function fetchReplies({
+  slack,
+  channel,
+  threadTs,
+  oldest,
+}: {
+  slack: WebClient;
+  channel: string;
+  threadTs: string;
+  oldest?: string;
+}) {
+  const messages: Array<{
+    ts?: string;
+    user?: string;
+    bot_profile?: { name?: string };
+    username?: string;
+    text?: string;
+  }> = [];
+  let cursor: string | undefined;
+  do {
+    const page = await slack.conversations.replies({
+      channel,
+      ts: threadTs,
+      oldest,
+      inclusive: false,
+      limit: 200,
+      cursor,
+    });
+    messages.push(...(page.messages ?? []));
+    messages.splice(0, messages.length - MAX_THREAD_MESSAGES);
+    cursor = page.response_metadata?.next_cursor || undefined;
+  } while (cursor);
+  return messages;
+}
+
+// Returns the messages of a thread with authors resolved to display names
+// and user mentions rewritten to "@name". The result is cached, and later
+// calls for the same thread only fetch replies newer than the cached ones.
+export async function getSlackThreadMessages({
+  slack,
+  channel,
+  threadTs,
+  botUserId,
+  store,
+  logger,
+}: {
+  slack: WebClient;
+  channel: string;
+  threadTs: string;
+  botUserId?: string;
+  store: KeyValueStore;
+  logger?: IMastraLogger;
+}): Promise<ThreadMessage[]> {
+  const cacheKey = `slack:thread:${channel}:${threadTs}`;
+  const cached = await store.get<CachedThread>(cacheKey);
+  const resolveName = createUserNameResolver({ slack, store, logger });
+
+  const fetched = await fetchReplies({
+    slack,
+    channel,
+    threadTs,
+    oldest: cached?.latestTs,
+  });
+
+  const newMessages: ThreadMessage[] = [];
+  for (const message of fetched) {
+    if (!message.ts || !message.text) {
+      continue;
+    }
+    if (cached && tsValue(message.ts) <= tsValue(cached.latestTs)) {
+      continue;
+    }
+    const author =
+      message.user && message.user === botUserId
+        ? "Aurora"
+        : message.user
+          ? await resolveName(message.user)
+          : message.bot_profile?.name || message.username || "bot";
+
+    let text = message.text;
+    for (const [mention, userId] of text.matchAll(/<@([UW][A-Z0-9]+)>/g)) {
+      const name = userId === botUserId ? "Aurora" : await resolveName(userId);
+      text = text.replace(mention, `@${name}`);
+    }
+    newMessages.push({ ts: message.ts, author, text });
+  }
+
+  const messages = [...(cached?.messages ?? []), ...newMessages].slice(
+    -MAX_THREAD_MESSAGES,
+  );
+  const latestTs = messages.at(-1)?.ts ?? cached?.latestTs ?? threadTs;
+
+  logger?.info("🧵 [Slack Thread History] Thread messages loaded", {
+    channel,
+    threadTs,
+    cachedMessages: cached?.messages.length ?? 0,
+    newMessages: newMessages.length,
+  });
+
+  await store.set<CachedThread>(
+    cacheKey,
+    { messages, latestTs },
+    { ttlMs: THREAD_CACHE_TTL_MS },
+  );
+  return messages;
+}
+
+// Formats the most recent messages that fit in the token budget, oldest
+// first. Messages at or after `beforeTs` (the message being answered) are
+// left out.
+export function buildThreadTranscript(
+  messages: ThreadMessage[],
+  {
+    beforeTs,
+    tokenBudget = DEFAULT_TOKEN_BUDGET,
+  }: { beforeTs?: string; tokenBudget?: number } = {},
+) {
+  let remaining = tokenBudget * CHARS_PER_TOKEN;
+  const lines: string[] = [];
+  let omitted = 0;
+
+  const earlier = beforeTs
+    ? messages.filter((message) => tsValue(message.ts) < tsValue(beforeTs))
+    : messages;
+
+  for (let i = earlier.length - 1; i >= 0; i--) {
+    const { author, text } = earlier[i];
+    const body =
+      text.length > MAX_MESSAGE_CHARS
+        ? `${text.slice(0, MAX_MESSAGE_CHARS)}… [truncated]`
+        : text;
+    const line = `${author}: ${body}`;
+    if (line.length > remaining) {
+      omitted = i + 1;
+      break;
+    }
+    remaining -= line.length + 1;
+    lines.unshift(line);
+  }
+
+  if (omitted) {
+    lines.unshift(`[${omitted} earlier messages omitted]`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,57 @@
+import type { KeyValueStore } from "../../mastra/storage";
+import { type SlackWorkspaceRef, slackWorkspaceKey } from "./credentials";
+
+// Per-user reply preferences, edited from the App Home tab. Unset values
+// fall back to the workspace-wide environment defaults.
+export type SlackUserPreferences = {
+  streamingReplies?: boolean;
+  showToolTrace?: boolean;
+};
+
+export type SlackReplyOptions = {
+  streamingReplies: boolean;
+  showToolTrace: boolean;
+};
+
+// Enterprise Grid users keep their id across workspaces, so preferences
+// are kept per workspace.
+const preferencesKey = (workspace: SlackWorkspaceRef, userId: string) =>
+  `slack:user-prefs:${slackWorkspaceKey(workspace)}:${userId}`;
+
+export async function getSlackUserPreferences(
+  store: KeyValueStore,
+  workspace: SlackWorkspaceRef,
+  userId: string,
+): Promise<SlackUserPreferences> {
+  return (
+    (await store.get<SlackUserPreferences>(
+      preferencesKey(workspace, userId),
+    )) ?? {}
+  );
+}
+
+export async function updateSlackUserPreferences(
+  store: KeyValueStore,
+  workspace: SlackWorkspaceRef,
+  userId: string,
+  changes: SlackUserPreferences,
+) {
+  const preferences = {
+    ...(await getSlackUserPreferences(store, workspace, userId)),
+    ...changes,
+  };
+  await store.set(preferencesKey(workspace, userId), preferences);
+  return preferences;
+}
+
+export function resolveSlackReplyOptions(
+  preferences: SlackUserPreferences,
+): SlackReplyOptions {
+  return {
+    streamingReplies:
+      preferences.streamingReplies ??
+      process.env.SLACK_STREAMING_REPLIES !== "false",
+    showToolTrace:
+      preferences.showToolTrace ?? process.env.SLACK_SHOW_TOOL_TRACE === "true",
+  };
+}
@@ -0,0 +1,114 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { IMastraLogger } from "@mastra/core/logger";
+import type { Context } from "hono";
+
+// Slack recommends rejecting requests older than five minutes to prevent
+// replay attacks.
+const SLACK_SIGNATURE_MAX_AGE_SECONDS = 5 * 60;
+
+export type SlackSignatureVerification =
+  | { ok: true }
+  | {
+      ok: false;
+      reason:
+        | "missing_signing_secret"
+        | "missing_headers"
+        | "invalid_timestamp"
+        | "stale_timestamp"
+        | "invalid_signature";
+    };
+
+export function verifySlackSignature({
+  signingSecret,
+  body,
+  timestamp,
+  signature,
+  now = Date.now(),
+}: {
+  signingSecret: string | undefined;
+  body: string;
+  timestamp: string | undefined;
+  signature: string | undefined;
+  now?: number;
+}): SlackSignatureVerification {
+  if (!signingSecret) {
+    return { ok: false, reason: "missing_signing_secret" };
+  }
+  if (!timestamp || !signature) {
+    return { ok: false, reason: "missing_headers" };
+  }
+
+  const requestTime = Number(timestamp);
+  if (!Number.isInteger(requestTime)) {
+    return { ok: false, reason: "invalid_timestamp" };
+  }
+  if (
+    Math.abs(Math.floor(now / 1000) - requestTime) >
+    SLACK_SIGNATURE_MAX_AGE_SECONDS
+  ) {
+    return { ok: false, reason: "stale_timestamp" };
+  }
+
+  const expected = Buffer.from(
+    "v0=" +
+      createHmac("sha256", signingSecret)
+        .update(`v0:${timestamp}:${body}`)
+        .digest("hex"),
+  );
+  const received = Buffer.from(signature);
+  if (
+    expected.length !== received.length ||
+    !timingSafeEqual(expected, received)
+  ) {
+    return { ok: false, reason: "invalid_signature" };
+  }
+
+  return { ok: true };
+}
+
+// Local development (e.g. replaying payloads with curl) can opt out of
+// verification. The flag is ignored in production.
+function isVerificationBypassed() {
+  return (
+    process.env.NODE_ENV !== "production" &&
+    process.env.SLACK_SKIP_SIGNATURE_VERIFICATION === "true"
+  );
+}
+
+// Reads the raw request body and verifies it was signed by Slack. Returns the
+// raw body on success so callers can parse it (JSON or form-encoded); returns
+// null after logging when the request must be rejected.
+export async function readVerifiedSlackBody(
+  c: Context,
+  logger: IMastraLogger | undefined,
+): Promise<string | null> {
+  const body = await c.req.text();
+
+  if (isVerificationBypassed()) {
+    logger?.warn(
+      "⚠️ [Slack] Signature verification bypassed (SLACK_SKIP_SIGNATURE_VERIFICATION)",
+      { path: c.req.path },
+    );
+    return body;
+  }
+
+  const timestamp = c.req.header("x-slack-request-timestamp");
+  const verification = verifySlackSignature({
+    signingSecret: process.env.SLACK_SIGNING_SECRET,
+    body,
+    timestamp,
+    signature: c.req.header("x-slack-signature"),
+  });
+
+  if (!verification.ok) {
+    logger?.warn("🚫 [Slack] Rejected request with invalid signature", {
+      path: c.req.path,
+      reason: verification.reason,
+      timestamp,
+      retryNum: c.req.header("x-slack-retry-num"),
+    });
+    return null;
+  }
+
+  return body;
+}
@@ -0,0 +1,361 @@
+import { format } from "node:util";
+import type { Mastra } from "@mastra/core";
+import type { IMastraLogger } from "@mastra/core/logger";
+import type { z } from "zod";
+
+import { runAuroraCommand } from "../mastra/commands";
+import { sharedKeyValueStore, type KeyValueStore } from "../mastra/storage";
+import type { constellationStatusTool } from "../mastra/tools/constellationStatusTool";
+import type { continuityManagementTool } from "../mastra/tools/continuityManagementTool";
+import type { driftMonitoringTool } from "../mastra/tools/driftMonitoringTool";
+import {
+  type SlackWorkspaceRef,
+  slackWorkspaceFromPayload,
+  slackWorkspaceKey,
+} from "./slack/credentials";
+import type { SlackActionHandler } from "./slack/interactionRouter";
+import {
+  getSlackUserPreferences,
+  resolveSlackReplyOptions,
+  updateSlackUserPreferences,
+} from "./slack/userPreferences";
+import { slackInteractionRouter } from "./slackInteractivity";
+import { getClient } from "./slackTriggers";
+
+// The Home tab shows tool results that are shared by every user, so they
+// are cached and only re-run when stale or when someone clicks Refresh.
+const STATUS_SNAPSHOT_TTL_MS = 15 * 60 * 1000;
+const RECENT_THREADS_LIMIT = 5;
+const RECENT_THREADS_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+type StatusSnapshot<T> = {
+  output: T;
+  updatedAt: string;
+};
+
+type ConstellationSnapshot = StatusSnapshot<
+  z.infer<typeof constellationStatusTool.outputSchema>
+>;
+type ContinuitySnapshot = StatusSnapshot<{
+  drift: z.infer<typeof driftMonitoringTool.outputSchema>;
+  seal: z.infer<typeof continuityManagementTool.outputSchema>;
+}>;
+
+export type RecentSlackThread = {
+  channel: string;
+  threadTs: string;
+  text: string;
+  at: string;
+};
+
+// Enterprise Grid users keep their id across workspaces, so the list is
+// kept per workspace.
+const recentThreadsKey = (workspace: SlackWorkspaceRef, userId: string) =>
+  `slack:recent-threads:${slackWorkspaceKey(workspace)}:${userId}`;
+
+// Remembers the threads a user talked to Aurora in, most recent first.
+export async function recordRecentSlackThread({
+  store,
+  workspace,
+  userId,
+  thread,
+  logger,
+}: {
+  store: KeyValueStore;
+  workspace: SlackWorkspaceRef;
+  userId: string;
+  thread: RecentSlackThread;
+  logger?: IMastraLogger;
+}) {
+  try {
+    const threads =
+      (await store.get<RecentSlackThread[]>(
+        recentThreadsKey(workspace, userId),
+      )) ?? [];
+    await store.set(
+      recentThreadsKey(workspace, userId),
+      [
+        thread,
+        ...threads.filter(
+          (t) => t.channel !== thread.channel || t.threadTs !== thread.threadTs,
+        ),
+      ].slice(0, RECENT_THREADS_LIMIT),
+      { ttlMs: RECENT_THREADS_TTL_MS },
+    );
+  } catch (error) {
+    logger?.warn("⚠️ [Slack App Home] Error recording recent thread", {
+      userId,
+      error: format(error),
+    });
+  }
+}
+
+async function loadSnapshot<T>(
+  key: string,
+  refresh: boolean,
+  load: () => Promise<T>,
+): Promise<StatusSnapshot<T>> {
+  if (!refresh) {
+    const cached = await sharedKeyValueStore.get<StatusSnapshot<T>>(key);
+    if (cached) {
+      return cached;
+    }
+  }
+  const snapshot = {
+    output: await load(),
+    updatedAt: new Date().toISOString(),
+  };
+  await sharedKeyValueStore.set(key, snapshot, {
+    ttlMs: STATUS_SNAPSHOT_TTL_MS,
+  });
+  return snapshot;
+}
+
+const slackDate = (iso: string) =>
+  `<!date^${Math.floor(new Date(iso).getTime() / 1000)}^{date_short_pretty} at {time}|${iso}>`;
+
+const threadLink = ({ channel, threadTs, text }: RecentSlackThread) =>
+  `<https://slack.com/archives/${channel}/p${threadTs.replace(".", "")}|${
+    text.replace(/[<>&|]/g, "").slice(0, 80) || "(no text)"
+  }>`;
+
+const nodeStatusEmoji = (status: string) =>
+  status === "active"
+    ? "🟢"
+    : status === "initializing"
+      ? "🟡"
+      : status === "unreachable"
+        ? "🔴"
+        : "⚪";
+
+const refreshButton = (actionId: string) => ({
+  type: "button",
+  action_id: actionId,
+  text: { type: "plain_text", text: "↻ Refresh" },
+});
+
+const toggleButton = (actionId: string, enabled: boolean) => ({
+  type: "button",
+  action_id: actionId,
+  text: { type: "plain_text", text: enabled ? "Turn off" : "Turn on" },
+  value: enabled ? "off" : "on",
+});
+
+function buildAppHomeView({
+  constellation,
+  continuity,
+  threads,
+  replyOptions,
+}: {
+  constellation: ConstellationSnapshot;
+  continuity: ContinuitySnapshot;
+  threads: RecentSlackThread[];
+  replyOptions: ReturnType<typeof resolveSlackReplyOptions>;
+}) {
+  const { summary, nodes, constellation_version } = constellation.output;
+  const { drift, seal } = continuity.output;
+
+  return {
+    type: "home" as const,
+    blocks: [
+      {
+        type: "header",
+        text: { type: "plain_text", text: "◊ Aurora OS" },
+      },
+      {
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text:
+            `*✦ Constellation ${constellation_version}*\n` +
+            `${summary.active_nodes}/${summary.total_nodes} active · ` +
+            `${summary.initializing_nodes} initializing · ` +
+            `${summary.unreachable_nodes} unreachable`,
+        },
+        accessory: refreshButton("aurora_home_refresh_constellation"),
+      },
+      {
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text: nodes
+            .map(
+              (node) =>
+                `${nodeStatusEmoji(node.status)} *${node.designation}* (${node.role}) — ${node.status}` +
+                (node.last_sync
+                  ? ` · synced ${slackDate(node.last_sync)}`
+                  : ""),
+            )
+            .join("\n"),
+        },
+      },
+      {
+        type: "context",
+        elements: [
+          {
+            type: "mrkdwn",
+            text: `Checked ${slackDate(constellation.updatedAt)}`,
+          },
+        ],
+      },
+      { type: "divider" },
+      {
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text:
+            `*◊ Drift*\n${drift.driftStatus} · alert level ${drift.alertLevel} · ${drift.systemHealth}\n` +
+            `*⟢ Continuity seal*\n${seal.continuityStatus} · ${seal.sealReport}`,
+        },
+        accessory: refreshButton("aurora_home_refresh_continuity"),
+      },
+      {
+        type: "context",
+        elements: [
+          {
+            type: "mrkdwn",
+            text: `Checked ${slackDate(continuity.updatedAt)}`,
+          },
+        ],
+      },
+      { type: "divider" },
+      {
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text:
+            "*🧵 Your recent threads*\n" +
+            (threads.length
+              ? threads
+                  .map(
+                    (thread) =>
+                      `• ${threadLink(thread)} · ${slackDate(thread.at)}`,
+                  )
+                  .join("\n")
+              : "_Mention Aurora or send Aurora a DM to start a thread._"),
+        },
+      },
+      { type: "divider" },
+      {
+        type: "section",
+        text: { type: "mrkdwn", text: "*⚙️ Your preferences*" },
+      },
+      {
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text: `*Live replies:* ${replyOptions.streamingReplies ? "on" : "off"}\nShow answers as they are written.`,
+        },
+        accessory: toggleButton(
+          "aurora_home_toggle_streaming",
+          replyOptions.streamingReplies,
+        ),
+      },
+      {
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text: `*Tool trace:* ${replyOptions.showToolTrace ? "on" : "off"}\nList the tools Aurora used under each answer.`,
+        },
+        accessory: toggleButton(
+          "aurora_home_toggle_tool_trace",
+          replyOptions.showToolTrace,
+        ),
+      },
+    ],
+  };
+}
+
+// Builds and publishes the Home tab for a user. `refresh` re-runs the
+// corresponding tools instead of using the cached snapshot.
+export async function publishAppHome(
+  mastra: Mastra,
+  userId: string,
+  {
+    workspace = {},
+    refresh,
+  }: {
+    workspace?: SlackWorkspaceRef;
+    refresh?: "constellation" | "continuity";
+  } = {},
+) {
+  const logger = mastra.getLogger();
+  logger?.info("🏠 [Slack App Home] Publishing Home tab", { userId, refresh });
+
+  const [constellation, continuity, threads, preferences] = await Promise.all([
+    loadSnapshot(
+      "slack:app-home:constellation",
+      refresh === "constellation",
+      async () =>
+        (await runAuroraCommand(mastra, "constellation", ""))
+          .output as ConstellationSnapshot["output"],
+    ),
+    loadSnapshot(
+      "slack:app-home:continuity",
+      refresh === "continuity",
+      async () => {
+        const [drift, seal] = await Promise.all([
+          runAuroraCommand(mastra, "drift", ""),
+          runAuroraCommand(mastra, "seal-check", ""),
+        ]);
+        return {
+          drift: drift.output,
+          seal: seal.output,
+        } as ContinuitySnapshot["output"];
+      },
+    ),
+    sharedKeyValueStore.get<RecentSlackThread[]>(
+      recentThreadsKey(workspace, userId),
+    ),
+    getSlackUserPreferences(sharedKeyValueStore, workspace, userId),
+  ]);
+
+  const { slack } = await getClient(workspace);
+  await slack.views.publish({
+    user_id: userId,
+    view: buildAppHomeView({
+      constellation,
+      continuity,
+      threads: threads ?? [],
+      replyOptions: resolveSlackReplyOptions(preferences),
+    }),
+  });
+}
+
+const refreshHome =
+  (refresh: "constellation" | "continuity"): SlackActionHandler =>
+  ({ mastra, payload }) =>
+    publishAppHome(mastra, payload.user.id, {
+      workspace: slackWorkspaceFromPayload(payload),
+      refresh,
+    });
+
+const togglePreference =
+  (preference: "streamingReplies" | "showToolTrace"): SlackActionHandler =>
+  async ({ mastra, payload, action }) => {
+    const workspace = slackWorkspaceFromPayload(payload);
+    await updateSlackUserPreferences(
+      sharedKeyValueStore,
+      workspace,
+      payload.user.id,
+      { [preference]: action.value === "on" },
+    );
+    await publishAppHome(mastra, payload.user.id, { workspace });
+  };
+
+slackInteractionRouter.action(
+  "aurora_home_refresh_constellation",
+  refreshHome("constellation"),
+);
+slackInteractionRouter.action(
+  "aurora_home_refresh_continuity",
+  refreshHome("continuity"),
+);
+slackInteractionRouter.action(
+  "aurora_home_toggle_streaming",
+  togglePreference("streamingReplies"),
+);
+slackInteractionRouter.action(
+  "aurora_home_toggle_tool_trace",
+  togglePreference("showToolTrace"),
+);
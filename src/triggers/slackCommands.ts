@@ -0,0 +1,235 @@
+import { format } from "node:util";
+import type { Mastra } from "@mastra/core";
+
+import {
+  AuroraCommandError,
+  auroraCommandHelp,
+  parseAuroraCommand,
+  prepareAuroraCommand,
+  runAuroraCommand,
+} from "../mastra/commands";
+import {
+  inngest,
+  registerApiRoute,
+  registerInngestFunction,
+} from "../mastra/inngest";
+import {
+  markdownToMrkdwn,
+  renderSlackMessages,
+} from "./slack/renderSlackMessage";
+import { handleSlackConfigCommand } from "./slack/configCommand";
+import { slackWorkspaceKey } from "./slack/credentials";
+import { readVerifiedSlackBody } from "./slack/verifySlackSignature";
+import { openQgiaForecastModal } from "./slackInteractivity";
+import { type ApiRoute, getClient } from "./slackTriggers";
+
+type SlackResponseType = "ephemeral" | "in_channel";
+
+// A trailing "--public" posts the result in the channel instead of only to
+// the caller.
+const PUBLIC_FLAG = /(?:^|\s)--(?:public|in-channel)\s*$/;
+
+export type SlackCommandInvocation = {
+  command: string;
+  args: string;
+  responseType: SlackResponseType;
+  responseUrl: string;
+  userId: string;
+  channelId: string;
+  teamId: string;
+  // Set for Enterprise Grid workspaces.
+  enterpriseId?: string;
+  triggerId: string;
+};
+
+export function parseSlackCommand(
+  form: URLSearchParams,
+): SlackCommandInvocation {
+  let text = form.get("text") ?? "";
+  let responseType: SlackResponseType = "ephemeral";
+  if (PUBLIC_FLAG.test(text)) {
+    text = text.replace(PUBLIC_FLAG, "");
+    responseType = "in_channel";
+  }
+  const { name, args } = parseAuroraCommand(text);
+  return {
+    command: name || "help",
+    args,
+    responseType,
+    responseUrl: form.get("response_url") ?? "",
+    userId: form.get("user_id") ?? "",
+    channelId: form.get("channel_id") ?? "",
+    teamId: form.get("team_id") ?? "",
+    enterpriseId: form.get("enterprise_id") || undefined,
+    triggerId: form.get("trigger_id") ?? "",
+  };
+}
+
+const slackWorkspaceOf = ({
+  teamId,
+  enterpriseId,
+}: SlackCommandInvocation) => ({
+  teamId,
+  enterpriseId,
+});
+
+async function postToResponseUrl(responseUrl: string, body: object) {
+  const response = await fetch(responseUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    throw new Error(
+      `Slack response_url rejected the message: HTTP ${response.status} ${await response.text()}`,
+    );
+  }
+}
+
+function ephemeral(markdown: string) {
+  return { response_type: "ephemeral", text: markdownToMrkdwn(markdown) };
+}
+
+export function registerSlackCommands(): Array<ApiRoute> {
+  // Tools can take longer than Slack's three-second deadline, so commands are
+  // acknowledged right away and answered through the response_url.
+  registerInngestFunction((mastra: Mastra) =>
+    inngest.createFunction(
+      { id: "slack-run-command", name: "Run Aurora Slack command", retries: 1 },
+      { event: "slack/command.received" },
+      async ({ event, step }) => {
+        const invocation: SlackCommandInvocation = event.data.invocation;
+        const logger = mastra.getLogger();
+
+        const markdown = await step.run("run command", async () => {
+          try {
+            const result = await runAuroraCommand(
+              mastra,
+              invocation.command,
+              invocation.args,
+              { workspaceId: slackWorkspaceKey(slackWorkspaceOf(invocation)) },
+            );
+            return result.markdown;
+          } catch (error) {
+            logger?.error("❌ [Slack Command] Error running command", {
+              command: invocation.command,
+              error: format(error),
+            });
+            return error instanceof AuroraCommandError
+              ? error.message
+              : "◊ Aurora OS :: Command failed. Please retry in a moment. ◊";
+          }
+        });
+
+        await step.run("post response", async () => {
+          for (const [index, message] of renderSlackMessages(
+            markdown,
+          ).entries()) {
+            await postToResponseUrl(invocation.responseUrl, {
+              ...message,
+              response_type: invocation.responseType,
+              // Replace the "running" acknowledgement with the result
+              replace_original:
+                index === 0 && invocation.responseType === "ephemeral",
+            });
+          }
+        });
+      },
+    ),
+  );
+
+  return [
+    registerApiRoute("/webhooks/slack/commands", {
+      method: "POST",
+      handler: async (c) => {
+        const mastra = c.get("mastra");
+        const logger = mastra.getLogger();
+        try {
+          const body = await readVerifiedSlackBody(c, logger);
+          if (body === null) {
+            return c.text("Unauthorized", 401);
+          }
+          const form = new URLSearchParams(body);
+          const invocation = parseSlackCommand(form);
+          const prefix = `${form.get("command") ?? "/aurora"} `;
+
+          logger?.info("🎛️ [Slack Command] Received command", {
+            command: invocation.command,
+            userId: invocation.userId,
+            channelId: invocation.channelId,
+            responseType: invocation.responseType,
+          });
+
+          if (invocation.command === "help") {
+            return c.json(
+              ephemeral(
+                `${auroraCommandHelp(prefix)}\n- \`${prefix}config help\` — View or change Aurora's settings for this channel`,
+              ),
+            );
+          }
+
+          if (invocation.command === "config") {
+            // Settings are answered synchronously; they only touch the database
+            // and Slack's user and channel info
+            try {
+              const { slack } = await getClient(slackWorkspaceOf(invocation));
+              const markdown = await handleSlackConfigCommand({
+                slack,
+                invocation,
+                prefix,
+                logger,
+              });
+              return c.json({
+                ...renderSlackMessages(markdown)[0],
+                response_type: "ephemeral",
+              });
+            } catch (error) {
+              if (error instanceof AuroraCommandError) {
+                return c.json(ephemeral(error.message));
+              }
+              throw error;
+            }
+          }
+
+          // A bare "forecast" opens a form instead of parsing arguments
+          if (invocation.command === "forecast" && !invocation.args) {
+            const { slack } = await getClient(slackWorkspaceOf(invocation));
+            await openQgiaForecastModal(slack, invocation.triggerId, {
+              responseUrl: invocation.responseUrl,
+              channelId: invocation.channelId,
+            });
+            return c.body(null, 200);
+          }
+
+          try {
+            // Validate before acknowledging so usage errors are immediate.
+            prepareAuroraCommand(invocation.command, invocation.args);
+          } catch (error) {
+            if (error instanceof AuroraCommandError) {
+              return c.json(
+                ephemeral(
+                  `${error.message}\nTry \`${prefix}help\` for the list of commands.`,
+                ),
+              );
+            }
+            throw error;
+          }
+
+          await inngest.send({
+            name: "slack/command.received",
+            data: { invocation },
+          });
+
+          return c.json(
+            ephemeral(`⏳ Running \`${prefix}${invocation.command}\`…`),
+          );
+        } catch (error) {
+          logger?.error("Error handling Slack command", {
+            error: format(error),
+          });
+          return c.text("Internal Server Error", 500);
+        }
+      },
+    }),
+  ];
+}
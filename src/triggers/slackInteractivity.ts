@@ -0,0 +1,393 @@
+import { format } from "node:util";
+import type { Mastra } from "@mastra/core";
+import type { WebClient } from "@slack/web-api";
+
+import {
+  AuroraCommandError,
+  runAuroraCommandWithInput,
+} from "../mastra/commands";
+import {
+  inngest,
+  registerApiRoute,
+  registerInngestFunction,
+} from "../mastra/inngest";
+import { sharedKeyValueStore } from "../mastra/storage";
+import { qgiaForecastTool } from "../mastra/tools/qgiaForecastTool";
+import { ETHICS_APPROVAL_STEP_ID } from "../mastra/workflows/auroraSlackWorkflow";
+import {
+  type SlackWorkspaceRef,
+  slackWorkspaceFromPayload,
+  slackWorkspaceKey,
+} from "./slack/credentials";
+import {
+  createSlackInteractionRouter,
+  type SlackActionHandler,
+  type SlackInteractionPayload,
+} from "./slack/interactionRouter";
+import { renderSlackMessages } from "./slack/renderSlackMessage";
+import { readVerifiedSlackBody } from "./slack/verifySlackSignature";
+import { queueSlackReaction, reactionStatusForResult } from "./slackOutbound";
+import { type ApiRoute, getClient } from "./slackTriggers";
+
+// Handlers for buttons and modals. Other Slack features register their own
+// action_ids and callback_ids on this router.
+export const slackInteractionRouter = createSlackInteractionRouter();
+
+// Guards against double clicks and concurrent approvers resuming a run twice.
+const ETHICS_DECISION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+function resolveEthicsDecision(approved: boolean): SlackActionHandler {
+  return async ({ mastra, payload, action }) => {
+    const logger = mastra.getLogger();
+    const { runId } = JSON.parse(action.value ?? "{}") as { runId?: string };
+    const channel = payload.channel?.id;
+    const message = payload.message;
+    if (!runId || !channel || !message) {
+      logger?.warn("⚠️ [Slack Interactivity] Malformed ethics decision", {
+        actionId: action.action_id,
+        value: action.value,
+      });
+      return;
+    }
+
+    const decisionKey = `slack:ethics-decision:${runId}`;
+    const claimed = await sharedKeyValueStore.setIfAbsent(
+      decisionKey,
+      { approved, userId: payload.user.id },
+      { ttlMs: ETHICS_DECISION_TTL_MS },
+    );
+    if (!claimed) {
+      logger?.info("🛡️ [Slack Interactivity] Ethics decision already made", {
+        runId,
+        userId: payload.user.id,
+      });
+      return;
+    }
+
+    logger?.info("🛡️ [Slack Interactivity] Ethics decision received", {
+      runId,
+      approved,
+      userId: payload.user.id,
+    });
+
+    let result;
+    try {
+      const run = await mastra
+        .getWorkflow("auroraSlackWorkflow")
+        .createRunAsync({ runId });
+      result = await run.resume({
+        step: ETHICS_APPROVAL_STEP_ID,
+        resumeData: { approved, userId: payload.user.id },
+      });
+    } catch (error) {
+      // Released so that the buttons, which are still shown, can be used
+      // again.
+      await sharedKeyValueStore.delete(decisionKey).catch((releaseError) =>
+        logger?.error("❌ [Slack Interactivity] Error releasing decision", {
+          runId,
+          error: format(releaseError),
+        }),
+      );
+      throw error;
+    }
+
+    // Replace the buttons with the decision once the run has it
+    try {
+      const { slack } = await getClient(slackWorkspaceFromPayload(payload));
+      await slack.chat.update({
+        channel,
+        ts: message.ts,
+        text: `🛡️ ${approved ? "Approved" : "Rejected"} by <@${payload.user.id}>`,
+        blocks: [],
+      });
+    } catch (error) {
+      // The decision stands; pressing a button again only reports that.
+      logger?.warn("⚠️ [Slack Interactivity] Error updating approval request", {
+        runId,
+        error: format(error),
+      });
+    }
+
+    // The approval request is posted in the thread of the original message
+    if (message.thread_ts) {
+      await queueSlackReaction({
+        workspace: slackWorkspaceFromPayload(payload),
+        channel,
+        timestamp: message.thread_ts,
+        status: reactionStatusForResult(result),
+        runId,
+      });
+    }
+  };
+}
+
+slackInteractionRouter.action(
+  "aurora_ethics_approve",
+  resolveEthicsDecision(true),
+);
+slackInteractionRouter.action(
+  "aurora_ethics_reject",
+  resolveEthicsDecision(false),
+);
+
+export const QGIA_FORECAST_CALLBACK_ID = "aurora_qgia_forecast";
+
+const FORECAST_REGIONS = [
+  "indo-pacific",
+  "middle-east",
+  "europe",
+  "africa",
+  "americas",
+  "central-asia",
+  "arctic",
+  "global",
+];
+
+type ForecastModalMetadata = {
+  responseUrl?: string;
+  channelId?: string;
+};
+
+// Block ids double as the keys for validation errors.
+const forecastBlockIds: Record<string, string> = {
+  scenario: "scenario",
+  region: "region",
+  timeframe_months: "horizon",
+  analyst_context: "context",
+};
+
+export async function openQgiaForecastModal(
+  slack: WebClient,
+  triggerId: string,
+  metadata: ForecastModalMetadata,
+) {
+  await slack.views.open({
+    trigger_id: triggerId,
+    view: {
+      type: "modal",
+      callback_id: QGIA_FORECAST_CALLBACK_ID,
+      private_metadata: JSON.stringify(metadata),
+      title: { type: "plain_text", text: "QSFE Forecast" },
+      submit: { type: "plain_text", text: "Forecast" },
+      close: { type: "plain_text", text: "Cancel" },
+      blocks: [
+        {
+          type: "input",
+          block_id: "scenario",
+          label: { type: "plain_text", text: "Scenario" },
+          element: {
+            type: "plain_text_input",
+            action_id: "value",
+            multiline: true,
+            placeholder: {
+              type: "plain_text",
+              text: "Describe the geopolitical scenario to forecast",
+            },
+          },
+        },
+        {
+          type: "input",
+          block_id: "region",
+          label: { type: "plain_text", text: "Region" },
+          element: {
+            type: "static_select",
+            action_id: "value",
+            options: FORECAST_REGIONS.map((region) => ({
+              text: { type: "plain_text", text: region },
+              value: region,
+            })),
+          },
+        },
+        {
+          type: "input",
+          block_id: "horizon",
+          label: { type: "plain_text", text: "Horizon (months)" },
+          element: {
+            type: "number_input",
+            action_id: "value",
+            is_decimal_allowed: false,
+            min_value: "1",
+            max_value: "120",
+            initial_value: "12",
+          },
+        },
+        {
+          type: "input",
+          block_id: "context",
+          optional: true,
+          label: { type: "plain_text", text: "Analyst context" },
+          element: {
+            type: "plain_text_input",
+            action_id: "value",
+            multiline: true,
+          },
+        },
+      ],
+    },
+  });
+}
+
+slackInteractionRouter.view(
+  QGIA_FORECAST_CALLBACK_ID,
+  async ({ mastra, payload }) => {
+    const values = payload.view.state.values;
+    const field = (blockId: string) => values[blockId]?.value;
+    const horizon = field("horizon")?.value;
+
+    const parsed = qgiaForecastTool.inputSchema.safeParse({
+      scenario: field("scenario")?.value ?? "",
+      region: field("region")?.selected_option?.value ?? "",
+      timeframe_months: horizon ? Number(horizon) : undefined,
+      analyst_context: field("context")?.value || undefined,
+    });
+    if (!parsed.success) {
+      const errors: Record<string, string> = {};
+      for (const issue of parsed.error.issues) {
+        const blockId = forecastBlockIds[String(issue.path[0])] ?? "scenario";
+        errors[blockId] ??= issue.message;
+      }
+      return { response_action: "errors", errors };
+    }
+
+    const metadata = JSON.parse(
+      payload.view.private_metadata || "{}",
+    ) as ForecastModalMetadata;
+    mastra.getLogger()?.info("⟡ [Slack Interactivity] Forecast submitted", {
+      userId: payload.user.id,
+      region: parsed.data.region,
+    });
+    await inngest.send({
+      name: "slack/forecast.submitted",
+      data: {
+        input: parsed.data,
+        userId: payload.user.id,
+        workspace: slackWorkspaceFromPayload(payload),
+        ...metadata,
+      },
+    });
+  },
+);
+
+export function registerSlackInteractivity(): Array<ApiRoute> {
+  registerInngestFunction((mastra: Mastra) =>
+    inngest.createFunction(
+      {
+        id: "slack-handle-interaction",
+        name: "Handle Slack interaction",
+        retries: 0,
+      },
+      { event: "slack/interaction.received" },
+      async ({ event, step }) => {
+        await step.run("dispatch actions", () =>
+          slackInteractionRouter.dispatchActions(mastra, event.data.payload),
+        );
+      },
+    ),
+  );
+
+  registerInngestFunction((mastra: Mastra) =>
+    inngest.createFunction(
+      { id: "slack-run-forecast", name: "Run QSFE forecast", retries: 1 },
+      { event: "slack/forecast.submitted" },
+      async ({ event, step }) => {
+        const { input, userId, workspace, responseUrl } = event.data as {
+          input: unknown;
+          userId: string;
+          workspace?: SlackWorkspaceRef;
+        } & ForecastModalMetadata;
+        const logger = mastra.getLogger();
+
+        const markdown = await step.run("run forecast", async () => {
+          try {
+            const result = await runAuroraCommandWithInput(
+              mastra,
+              "forecast",
+              input,
+              { workspaceId: slackWorkspaceKey(workspace ?? {}) },
+            );
+            return result.markdown;
+          } catch (error) {
+            logger?.error("❌ [Slack Interactivity] Error running forecast", {
+              error: format(error),
+            });
+            return error instanceof AuroraCommandError
+              ? error.message
+              : "◊ Aurora OS :: Forecast failed. Please retry in a moment. ◊";
+          }
+        });
+
+        await step.run("post forecast", async () => {
+          const messages = renderSlackMessages(markdown);
+          if (responseUrl) {
+            for (const message of messages) {
+              await fetch(responseUrl, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                  ...message,
+                  response_type: "ephemeral",
+                }),
+              });
+            }
+            return;
+          }
+          // Without a response_url (e.g. a modal opened from a button), the
+          // result goes to the user's DM with Aurora.
+          const { slack } = await getClient(workspace);
+          for (const message of messages) {
+            await slack.chat.postMessage({ channel: userId, ...message });
+          }
+        });
+      },
+    ),
+  );
+
+  return [
+    registerApiRoute("/webhooks/slack/interactivity", {
+      method: "POST",
+      handler: async (c) => {
+        const mastra = c.get("mastra");
+        const logger = mastra.getLogger();
+        try {
+          const body = await readVerifiedSlackBody(c, logger);
+          if (body === null) {
+            return c.text("Unauthorized", 401);
+          }
+          const payload = JSON.parse(
+            new URLSearchParams(body).get("payload") ?? "{}",
+          ) as SlackInteractionPayload;
+
+          logger?.info("🖱️ [Slack Interactivity] Received interaction", {
+            type: payload.type,
+            userId: payload.user?.id,
+          });
+
+          switch (payload.type) {
+            case "block_actions":
+              // Actions may resume long-running workflows, so they are
+              // acknowledged first and handled in the background.
+              await inngest.send({
+                name: "slack/interaction.received",
+                data: { payload },
+              });
+              return c.text("", 200);
+            case "view_submission": {
+              const response = await slackInteractionRouter.dispatchView(
+                mastra,
+                payload,
+              );
+              return response ? c.json(response) : c.body(null, 200);
+            }
+            default:
+              return c.text("", 200);
+          }
+        } catch (error) {
+          logger?.error("Error handling Slack interaction", {
+            error: format(error),
+          });
+          return c.text("Internal Server Error", 500);
+        }
+      },
+    }),
+  ];
+}
@@ -0,0 +1,196 @@
+import { randomBytes } from "node:crypto";
+import { format } from "node:util";
+import { WebClient } from "@slack/web-api";
+import { deleteCookie, getCookie, setCookie } from "hono/cookie";
+
+import { sharedKeyValueStore } from "../mastra/storage";
+import { getSlackInstallationStore, oauthConfig } from "./slack/credentials";
+import type { ApiRoute } from "./slackTriggers";
+
+// Scopes used by the event handler, slash commands, App Home, thread history
+// and file support. Override with SLACK_BOT_SCOPES (comma-separated).
+const DEFAULT_BOT_SCOPES = [
+  "app_mentions:read",
+  "channels:history",
+  "channels:read",
+  "chat:write",
+  "commands",
+  "files:read",
+  "files:write",
+  "groups:history",
+  "groups:read",
+  "im:history",
+  "im:read",
+  "im:write",
+  "reactions:read",
+  "reactions:write",
+  "users:read",
+];
+
+const OAUTH_STATE_TTL_MS = 10 * 60 * 1000;
+const oauthStateKey = (state: string) => `slack:oauth-state:${state}`;
+// The state is also kept in the installing browser, so a callback only
+// succeeds in the browser that started the install.
+const OAUTH_STATE_COOKIE = "aurora_slack_oauth_state";
+const OAUTH_STATE_COOKIE_OPTIONS = {
+  path: "/slack",
+  httpOnly: true,
+  secure: true,
+  // Lax still sends the cookie on Slack's top-level redirect back.
+  sameSite: "Lax",
+} as const;
+
+function botScopes() {
+  return process.env.SLACK_BOT_SCOPES
+    ? process.env.SLACK_BOT_SCOPES.split(",").map((scope) => scope.trim())
+    : DEFAULT_BOT_SCOPES;
+}
+
+function oauthPage(title: string, message: string) {
+  return `<!doctype html>
+<html>
+  <head><meta charset="utf-8"><title>${title}</title></head>
+  <body style="font-family: sans-serif; max-width: 36rem; margin: 4rem auto">
+    <h1>${title}</h1>
+    <p>${message}</p>
+  </body>
+</html>`;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(
+    /[&<>"']/g,
+    (char) =>
+      ({
+        "&": "&amp;",
+        "<": "&lt;",
+        ">": "&gt;",
+        '"': "&quot;",
+        "'": "&#39;",
+      })[char]!,
+  );
+
+// OAuth v2 install flow for distributing Aurora to other workspaces. Visiting
+// /slack/install redirects to Slack; Slack redirects back to
+// /slack/oauth_redirect (SLACK_REDIRECT_URI) with a code that is exchanged
+// for a bot token and saved in the encrypted installation store.
+export function registerSlackOAuth(): Array<ApiRoute> {
+  return [
+    {
+      path: "/slack/install",
+      method: "GET",
+      handler: async (c) => {
+        const config = oauthConfig();
+        if (!config) {
+          return c.text("Slack OAuth is not configured", 404);
+        }
+        const state = randomBytes(16).toString("hex");
+        await sharedKeyValueStore.set(oauthStateKey(state), true, {
+          ttlMs: OAUTH_STATE_TTL_MS,
+        });
+        setCookie(c, OAUTH_STATE_COOKIE, state, {
+          ...OAUTH_STATE_COOKIE_OPTIONS,
+          maxAge: OAUTH_STATE_TTL_MS / 1000,
+        });
+
+        const url = new URL("https://slack.com/oauth/v2/authorize");
+        url.searchParams.set("client_id", config.clientId);
+        url.searchParams.set("scope", botScopes().join(","));
+        url.searchParams.set("state", state);
+        if (process.env.SLACK_REDIRECT_URI) {
+          url.searchParams.set("redirect_uri", process.env.SLACK_REDIRECT_URI);
+        }
+        return c.redirect(url.toString());
+      },
+    },
+    {
+      path: "/slack/oauth_redirect",
+      method: "GET",
+      handler: async (c) => {
+        const mastra = c.get("mastra");
+        const logger = mastra.getLogger();
+        const config = oauthConfig();
+        if (!config) {
+          return c.text("Slack OAuth is not configured", 404);
+        }
+
+        const error = c.req.query("error");
+        if (error) {
+          return c.html(
+            oauthPage("Installation cancelled", escapeHtml(error)),
+            400,
+          );
+        }
+
+        // Each state is single use: deleting it is the check, so of two
+        // callbacks with the same state only one gets through.
+        const state = c.req.query("state");
+        const code = c.req.query("code");
+        const browserState = getCookie(c, OAUTH_STATE_COOKIE);
+        deleteCookie(c, OAUTH_STATE_COOKIE, OAUTH_STATE_COOKIE_OPTIONS);
+        const stateValid =
+          !!state &&
+          state === browserState &&
+          (await sharedKeyValueStore.delete(oauthStateKey(state)));
+        if (!stateValid || !code) {
+          logger?.warn("⚠️ [Slack OAuth] Invalid or expired state");
+          return c.html(
+            oauthPage(
+              "Installation failed",
+              'The install link expired. Please <a href="/slack/install">start again</a>.',
+            ),
+            400,
+          );
+        }
+
+        try {
+          const response = await new WebClient().oauth.v2.access({
+            client_id: config.clientId,
+            client_secret: config.clientSecret,
+            code,
+            redirect_uri: process.env.SLACK_REDIRECT_URI,
+          });
+          const installation = {
+            teamId: response.team?.id,
+            teamName: response.team?.name,
+            enterpriseId: response.enterprise?.id,
+            isEnterpriseInstall: response.is_enterprise_install ?? false,
+            botToken: response.access_token!,
+            botUserId: response.bot_user_id!,
+            botRefreshToken: response.refresh_token,
+            botTokenExpiresAt: response.expires_in
+              ? Date.now() + response.expires_in * 1000
+              : undefined,
+            scopes: response.scope?.split(",") ?? [],
+            installerUserId: response.authed_user?.id,
+            installedAt: new Date().toISOString(),
+          };
+          await getSlackInstallationStore().save(installation);
+
+          logger?.info("✅ [Slack OAuth] Aurora installed", {
+            teamId: installation.teamId,
+            enterpriseId: installation.enterpriseId,
+            installerUserId: installation.installerUserId,
+          });
+          return c.html(
+            oauthPage(
+              "Aurora installed",
+              `Aurora is now available in ${escapeHtml(installation.teamName ?? "your workspace")}. Mention @Aurora in a channel or try <code>/aurora help</code>.`,
+            ),
+          );
+        } catch (error) {
+          logger?.error("❌ [Slack OAuth] Token exchange failed", {
+            error: format(error),
+          });
+          return c.html(
+            oauthPage(
+              "Installation failed",
+              'Slack did not accept the authorization. Please <a href="/slack/install">try again</a>.',
+            ),
+            500,
+          );
+        }
+      },
+    },
+  ];
+}
@@ -0,0 +1,198 @@
+import { format } from "node:util";
+import type { Mastra, WorkflowResult } from "@mastra/core";
+import { ErrorCode } from "@slack/web-api";
+import { RetryAfterError } from "inngest";
+
+import { inngest, registerInngestFunction } from "../mastra/inngest";
+import { sharedKeyValueStore } from "../mastra/storage";
+import {
+  getSlackClient,
+  type SlackWorkspaceRef,
+  slackWorkspaceKey,
+} from "./slack/credentials";
+import { slackOutboundMetrics } from "./slack/outbound";
+import { type ApiRoute, isWebAPICallError } from "./slackTriggers";
+
+// The status Aurora shows on a message as a reaction.
+export type SlackReactionStatus =
+  | "processing"
+  | "success"
+  | "failed"
+  | "suspended"
+  | "timed_out";
+
+const REACTION_EMOJI: Record<SlackReactionStatus, string> = {
+  processing: "hourglass_flowing_sand",
+  success: "white_check_mark",
+  failed: "x",
+  // Waiting on a human decision, e.g. an ethics approval
+  suspended: "raised_hand",
+  timed_out: "alarm_clock",
+};
+
+export function reactionStatusForResult(
+  result: WorkflowResult<any, any> | null,
+): SlackReactionStatus | null {
+  switch (result?.status) {
+    case undefined:
+      return null;
+    case "success":
+    case "failed":
+    case "suspended":
+      return result.status;
+    default:
+      return "timed_out";
+  }
+}
+
+// Reactions change several times per message within seconds. Requests for
+// the same message are debounced, so only the latest status is applied.
+const REACTION_DEBOUNCE = "2s";
+const REACTION_STATE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+type SlackReactionRequest = {
+  workspace: SlackWorkspaceRef;
+  channel: string;
+  timestamp: string;
+  // null removes Aurora's status reaction.
+  status: SlackReactionStatus | null;
+  runId?: string;
+};
+
+const messageKey = ({ workspace, channel, timestamp }: SlackReactionRequest) =>
+  `${slackWorkspaceKey(workspace)}:${channel}:${timestamp}`;
+
+const reactionMetrics = {
+  queued: 0,
+  applied: 0,
+  // Requests whose status was already shown.
+  unchanged: 0,
+  failed: 0,
+};
+
+export async function queueSlackReaction(request: SlackReactionRequest) {
+  reactionMetrics.queued++;
+  await inngest.send({
+    name: "slack/reaction.requested",
+    data: { ...request, messageKey: messageKey(request) },
+  });
+}
+
+const ignoredReactionErrors = new Set(["no_reaction", "already_reacted"]);
+
+function isIgnoredReactionError(error: unknown) {
+  return (
+    isWebAPICallError(error) &&
+    error.code === ErrorCode.PlatformError &&
+    ignoredReactionErrors.has(error.data.error)
+  );
+}
+
+// Swaps the reaction Aurora last set on the message for the requested one.
+// Only the emoji Aurora set is removed, so it takes at most two calls.
+async function applySlackReaction(request: SlackReactionRequest) {
+  const stateKey = `slack:reaction:${messageKey(request)}`;
+  const current = await sharedKeyValueStore.get<string>(stateKey);
+  const desired = request.status ? REACTION_EMOJI[request.status] : null;
+  if (current === desired) {
+    reactionMetrics.unchanged++;
+    return { changed: false };
+  }
+
+  const { slack } = await getSlackClient(request.workspace);
+  const { channel, timestamp } = request;
+  try {
+    if (current) {
+      await slack.reactions.remove({ channel, timestamp, name: current });
+    }
+  } catch (error) {
+    if (!isIgnoredReactionError(error)) {
+      throw error;
+    }
+  }
+  try {
+    if (desired) {
+      await slack.reactions.add({ channel, timestamp, name: desired });
+    }
+  } catch (error) {
+    if (!isIgnoredReactionError(error)) {
+      throw error;
+    }
+  }
+
+  if (desired) {
+    await sharedKeyValueStore.set(stateKey, desired, {
+      ttlMs: REACTION_STATE_TTL_MS,
+    });
+  } else {
+    await sharedKeyValueStore.delete(stateKey);
+  }
+  reactionMetrics.applied++;
+  return { changed: true };
+}
+
+export function registerSlackOutbound(): Array<ApiRoute> {
+  registerInngestFunction((mastra: Mastra) =>
+    inngest.createFunction(
+      {
+        id: "slack-apply-reaction",
+        name: "Apply Slack reaction",
+        retries: 3,
+        debounce: { key: "event.data.messageKey", period: REACTION_DEBOUNCE },
+        // Changes to one message are applied one at a time.
+        concurrency: { limit: 1, key: "event.data.messageKey" },
+      },
+      { event: "slack/reaction.requested" },
+      async ({ event, step, attempt }) => {
+        const logger = mastra.getLogger();
+        const request = event.data as SlackReactionRequest;
+
+        return step.run("apply reaction", async () => {
+          try {
+            return await applySlackReaction(request);
+          } catch (error) {
+            logger?.error("❌ [Slack] Error applying reaction", {
+              channel: request.channel,
+              timestamp: request.timestamp,
+              status: request.status,
+              runId: request.runId,
+              attempt,
+              error: format(error),
+            });
+            if (attempt >= 3) {
+              reactionMetrics.failed++;
+            }
+            // Still rate limited after the client's own retries: let
+            // Inngest retry once Slack allows it.
+            if (
+              isWebAPICallError(error) &&
+              error.code === ErrorCode.RateLimitedError
+            ) {
+              throw new RetryAfterError(
+                "Slack rate limit",
+                error.retryAfter * 1000,
+              );
+            }
+            throw error;
+          }
+        });
+      },
+    ),
+  );
+
+  return [
+    {
+      path: "/metrics/slack",
+      method: "GET",
+      handler: async (c) =>
+        c.json({
+          // Per Slack method: calls, delays for rate-limit tiers, 429s,
+          // retries and calls dropped after the last retry.
+          methods: slackOutboundMetrics(),
+          // Requests not yet applied, unchanged or failed were coalesced
+          // into a later request for the same message (or are in flight).
+          reactions: { ...reactionMetrics },
+        }),
+    },
+  ];
+}
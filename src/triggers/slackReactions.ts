@@ -0,0 +1,308 @@
+import { format } from "node:util";
+import type { Mastra } from "@mastra/core";
+import type { IMastraLogger } from "@mastra/core/logger";
+import type { WebClient } from "@slack/web-api";
+
+import { inngest } from "../mastra/inngest";
+import { sharedKeyValueStore, sharedKnowledgeStore } from "../mastra/storage";
+import { type SlackWorkspaceRef, slackWorkspaceKey } from "./slack/credentials";
+import { getSlackReply, getSlackReplySource } from "./slack/replyTracking";
+import { getSlackThreadMessages } from "./slack/threadHistory";
+import { getClient } from "./slackTriggers";
+
+// A reaction someone added to one of Aurora's messages.
+export type SlackReactionEvent = {
+  workspace: SlackWorkspaceRef;
+  userId: string;
+  reaction: string;
+  channel: string;
+  // Aurora's message.
+  messageTs: string;
+  eventTs: string;
+};
+
+type ReactionContext = {
+  slack: WebClient;
+  botUserId?: string;
+  event: SlackReactionEvent;
+  logger?: IMastraLogger;
+};
+
+type ReactionAction = (context: ReactionContext) => Promise<void>;
+
+const FEEDBACK_TTL_MS = 365 * 24 * 60 * 60 * 1000;
+const KNOWLEDGE_TITLE_LIMIT = 80;
+const KNOWLEDGE_CONTENT_LIMIT = 8000;
+
+async function fetchMessage(slack: WebClient, channel: string, ts: string) {
+  // conversations.replies returns a message whether or not it is in a
+  // thread. The thread's parent always comes first, so a reply inside a
+  // thread is the second message.
+  const { messages } = await slack.conversations.replies({
+    channel,
+    ts,
+    oldest: ts,
+    latest: ts,
+    inclusive: true,
+    limit: 2,
+  });
+  return messages?.find((message) => message.ts === ts) ?? null;
+}
+
+function notify(
+  { slack, event }: ReactionContext,
+  text: string,
+  threadTs?: string,
+) {
+  return slack.chat.postEphemeral({
+    channel: event.channel,
+    user: event.userId,
+    thread_ts: threadTs,
+    text,
+  });
+}
+
+// The user's message Aurora answered, or null (with a notice) when the
+// answer is older than the reply tracking window.
+async function findSource(context: ReactionContext) {
+  const { event } = context;
+  const source = await getSlackReplySource(sharedKeyValueStore, {
+    workspace: event.workspace,
+    channel: event.channel,
+    messageTs: event.messageTs,
+  });
+  if (!source) {
+    await notify(
+      context,
+      "◊ Aurora OS :: I can no longer find the question this answered. ◊",
+    );
+  }
+  return source;
+}
+
+// :repeat: answers the original message again, replacing the reply.
+const regenerate: ReactionAction = async (context) => {
+  const { slack, event, logger } = context;
+  const source = await findSource(context);
+  if (!source) {
+    return;
+  }
+  const message = await fetchMessage(slack, event.channel, source.messageTs);
+  if (!message) {
+    await notify(context, "◊ Aurora OS :: The question was deleted. ◊");
+    return;
+  }
+
+  logger?.info("🔁 [Slack Reactions] Regenerating answer", {
+    channel: event.channel,
+    messageTs: source.messageTs,
+    userId: event.userId,
+  });
+  // Handled like a new message event; the handler updates the earlier reply.
+  await inngest.send({
+    id: `slack-regenerate-${slackWorkspaceKey(event.workspace)}-${event.channel}-${event.messageTs}-${event.eventTs}`,
+    name: "slack/event.received",
+    data: {
+      payload: {
+        team_id: event.workspace.teamId,
+        enterprise_id: event.workspace.enterpriseId,
+        event: {
+          ...message,
+          type: "message",
+          channel: event.channel,
+          channel_type: event.channel.startsWith("D") ? "im" : undefined,
+        },
+        regenerate: { requestedBy: event.userId },
+      },
+    },
+  });
+};
+
+const plainText = (text: string) =>
+  text
+    .replace(/<@[A-Z0-9]+>/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+// :pushpin: saves the question and answer to the knowledge store.
+const pin: ReactionAction = async (context) => {
+  const { slack, event, logger } = context;
+  const source = await findSource(context);
+  if (!source) {
+    return;
+  }
+  const reply = await getSlackReply(sharedKeyValueStore, {
+    workspace: event.workspace,
+    channel: event.channel,
+    messageTs: source.messageTs,
+  });
+  const [question, ...answer] = await Promise.all(
+    [source.messageTs, ...(reply?.replyTs ?? [event.messageTs])].map((ts) =>
+      fetchMessage(slack, event.channel, ts),
+    ),
+  );
+  const questionText = plainText(question?.text ?? "");
+  const answerText = answer
+    .map((message) => message?.text ?? "")
+    .join("\n\n")
+    .trim();
+  const { permalink } = await slack.chat.getPermalink({
+    channel: event.channel,
+    message_ts: event.messageTs,
+  });
+
+  const entry = await sharedKnowledgeStore.save({
+    id: `slack:${slackWorkspaceKey(event.workspace)}:${event.channel}:${source.messageTs}`,
+    title:
+      questionText.slice(0, KNOWLEDGE_TITLE_LIMIT) || "Pinned Aurora answer",
+    content: `Question: ${questionText}\n\nAurora: ${answerText}`.slice(
+      0,
+      KNOWLEDGE_CONTENT_LIMIT,
+    ),
+    tags: ["slack", "pinned"],
+    source: {
+      platform: "slack",
+      workspaceId: slackWorkspaceKey(event.workspace),
+      channel: event.channel,
+      threadTs: question?.thread_ts ?? source.messageTs,
+      messageTs: source.messageTs,
+      replyTs: event.messageTs,
+      url: permalink,
+    },
+    savedBy: event.userId,
+  });
+  logger?.info("📌 [Slack Reactions] Exchange saved to knowledge store", {
+    id: entry.id,
+    userId: event.userId,
+  });
+  await notify(
+    context,
+    `📌 Saved to Aurora's knowledge store as “${entry.title}”.`,
+    question?.thread_ts ?? source.messageTs,
+  );
+};
+
+export type SlackFeedback = {
+  threadTs: string;
+  messageTs?: string;
+  runId?: string;
+  votes: Record<string, "up" | "down">;
+  updatedAt: string;
+};
+
+// :+1: and :-1: record feedback on the reply, one vote per user.
+const feedback =
+  (rating: "up" | "down"): ReactionAction =>
+  async ({ slack, event, logger }) => {
+    const key = `slack:feedback:${slackWorkspaceKey(event.workspace)}:${event.channel}:${event.messageTs}`;
+    const [existing, source, message] = await Promise.all([
+      sharedKeyValueStore.get<SlackFeedback>(key),
+      getSlackReplySource(sharedKeyValueStore, {
+        workspace: event.workspace,
+        channel: event.channel,
+        messageTs: event.messageTs,
+      }),
+      fetchMessage(slack, event.channel, event.messageTs),
+    ]);
+    await sharedKeyValueStore.set<SlackFeedback>(
+      key,
+      {
+        threadTs: message?.thread_ts ?? event.messageTs,
+        messageTs: source?.messageTs,
+        runId: source?.runId,
+        votes: { ...existing?.votes, [event.userId]: rating },
+        updatedAt: new Date().toISOString(),
+      },
+      { ttlMs: FEEDBACK_TTL_MS },
+    );
+    logger?.info("🗳️ [Slack Reactions] Feedback recorded", {
+      channel: event.channel,
+      replyTs: event.messageTs,
+      runId: source?.runId,
+      rating,
+      userId: event.userId,
+    });
+  };
+
+// :memo: sends the thread's transcript to the user as a Markdown file.
+const exportTranscript: ReactionAction = async ({
+  slack,
+  botUserId,
+  event,
+  logger,
+}) => {
+  const message = await fetchMessage(slack, event.channel, event.messageTs);
+  const threadTs = message?.thread_ts ?? event.messageTs;
+  const messages = await getSlackThreadMessages({
+    slack,
+    channel: event.channel,
+    threadTs,
+    botUserId,
+    store: sharedKeyValueStore,
+    logger,
+  });
+  const transcript = [
+    `# Aurora thread transcript`,
+    ``,
+    `Channel <#${event.channel}>, exported ${new Date().toISOString()}`,
+    ``,
+    ...messages.map(
+      (m) =>
+        `**${m.author}** (${new Date(Number(m.ts) * 1000).toISOString()}):\n\n${m.text}\n`,
+    ),
+  ].join("\n");
+
+  const { channel } = await slack.conversations.open({ users: event.userId });
+  await slack.files.uploadV2({
+    channel_id: channel!.id!,
+    filename: `aurora-thread-${threadTs}.md`,
+    title: "Aurora thread transcript",
+    content: transcript,
+    initial_comment: `📝 Transcript of the thread (${messages.length} messages).`,
+  });
+  logger?.info("📝 [Slack Reactions] Thread transcript exported", {
+    channel: event.channel,
+    threadTs,
+    messages: messages.length,
+    userId: event.userId,
+  });
+};
+
+const REACTION_ACTIONS: Record<string, ReactionAction> = {
+  repeat: regenerate,
+  pushpin: pin,
+  "+1": feedback("up"),
+  thumbsup: feedback("up"),
+  "-1": feedback("down"),
+  thumbsdown: feedback("down"),
+  memo: exportTranscript,
+};
+
+// Skin tones arrive as e.g. "+1::skin-tone-3".
+const reactionName = (reaction: string) => reaction.split("::")[0];
+
+export const isSlackReactionAction = (reaction: string) =>
+  reactionName(reaction) in REACTION_ACTIONS;
+
+export async function handleSlackReaction(
+  mastra: Mastra,
+  event: SlackReactionEvent,
+) {
+  const logger = mastra.getLogger();
+  const action = REACTION_ACTIONS[reactionName(event.reaction)];
+  if (!action) {
+    return;
+  }
+  const { slack, auth } = await getClient(event.workspace);
+  try {
+    await action({ slack, botUserId: auth.user_id, event, logger });
+  } catch (error) {
+    logger?.error("❌ [Slack Reactions] Error handling reaction", {
+      reaction: event.reaction,
+      channel: event.channel,
+      messageTs: event.messageTs,
+      error: format(error),
+    });
+    throw error;
+  }
+}
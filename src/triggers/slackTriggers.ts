@@ -14,7 +14,28 @@ import {
 import type { Context, Handler, MiddlewareHandler } from "hono";
 import { streamSSE } from "hono/streaming";
 
-import { registerApiRoute } from "../mastra/inngest";
+import type { DiagnosisStep } from "../mastra/diagnostics";
+import {
+  inngest,
+  registerApiRoute,
+  registerInngestFunction,
+} from "../mastra/inngest";
+import { type KeyValueStore, sharedKeyValueStore } from "../mastra/storage";
+import {
+  getSlackClient,
+  type SlackWorkspaceRef,
+  slackWorkspaceFromPayload,
+  slackWorkspaceKey,
+} from "./slack/credentials";
+import { editedMessagePayload, retractSlackReply } from "./slack/replyTracking";
+import { readVerifiedSlackBody } from "./slack/verifySlackSignature";
+import { publishAppHome } from "./slackAppHome";
+import { queueSlackReaction, reactionStatusForResult } from "./slackOutbound";
+import {
+  handleSlackReaction,
+  isSlackReactionAction,
+  type SlackReactionEvent,
+} from "./slackReactions";
 
 export type Methods = "GET" | "POST" | "PUT" | "DELETE" | "PATCH" | "ALL";
 
@@ -42,182 +63,99 @@ export type TriggerInfoSlackOnNewMessage = {
   payload: any;
 };
 
-type DiagnosisStep =
-  | {
-      status: "pending";
-      name: string;
-      extra?: Record<string, any>;
-    }
-  | {
-      status: "success";
-      name: string;
-      extra: Record<string, any>;
-    }
-  | {
-      status: "failed";
-      name: string;
-      error: string;
-      extra: Record<string, any>;
-    };
-
-export async function getClient() {
-  let connectionSettings: any;
-  async function getAccessToken() {
-    if (
-      connectionSettings &&
-      connectionSettings.settings.expires_at &&
-      new Date(connectionSettings.settings.expires_at).getTime() > Date.now()
-    ) {
-      return {
-        token: connectionSettings.settings.access_token,
-        user: connectionSettings.settings.oauth?.credentials?.raw?.authed_user
-          ?.id,
-      };
-    }
-
-    const hostname = process.env.REPLIT_CONNECTORS_HOSTNAME;
-    const xReplitToken = process.env.REPL_IDENTITY
-      ? "repl " + process.env.REPL_IDENTITY
-      : process.env.WEB_REPL_RENEWAL
-        ? "depl " + process.env.WEB_REPL_RENEWAL
-        : null;
-
-    if (!xReplitToken) {
-      throw new Error("X_REPLIT_TOKEN not found for repl/depl");
-    }
-
-    const res = await fetch(
-      "https://" +
-        hostname +
-        "/api/v2/connection?include_secrets=true&connector_names=slack-agent",
-      {
-        headers: {
-          Accept: "application/json",
-          X_REPLIT_TOKEN: xReplitToken,
-        },
-      },
-    );
-    const resJson = await res.json();
-    connectionSettings = resJson?.items?.[0];
-    if (!connectionSettings || !connectionSettings.settings.access_token) {
-      throw new Error(
-        `Slack not connected: HTTP ${res.status} ${res.statusText}: ${JSON.stringify(resJson)}`,
-      );
-    }
-    return {
-      token: connectionSettings.settings.access_token,
-      user: connectionSettings.settings.oauth?.credentials?.raw?.authed_user
-        ?.id,
-    };
-  }
-
-  const { token, user } = await getAccessToken();
-  const slack = new WebClient(token);
+// Credentials come from the provider selected in ./slack/credentials (bot
+// token, OAuth installations or the Replit connector); clients are cached
+// per token.
+export async function getClient(workspace?: SlackWorkspaceRef) {
+  return getSlackClient(workspace);
+}
 
-  const response = await slack.auth.test();
+// Slack retries a delivery up to three times within a few minutes; an hour
+// comfortably covers retries as well as replays from other replicas.
+const SLACK_EVENT_DEDUP_TTL_MS = 60 * 60 * 1000;
 
-  return { slack, auth: response, user };
-}
+const slackEventKey = (workspace: SlackWorkspaceRef, eventId: string) =>
+  `slack:event:${slackWorkspaceKey(workspace)}:${eventId}`;
 
-// Keep up to 200 recent events, to prevent duplicates
-const recentEvents: string[] = [];
+type SlackRetryInfo = {
+  retryNum: number;
+  retryReason?: string;
+};
 
-function isWebAPICallError(err: unknown): err is WebAPICallError {
-  return (
-    err !== null && typeof err === "object" && "code" in err && "data" in err
-  );
+// Errors thrown by the Slack Web API client; check `code` (an ErrorCode)
+// before reading the fields of a particular kind. Rate-limit errors carry
+// no `data`.
+export function isWebAPICallError(err: unknown): err is WebAPICallError {
+  return err !== null && typeof err === "object" && "code" in err;
 }
 
-function checkDuplicateEvent(eventName: string) {
-  if (recentEvents.includes(eventName)) {
-    return true;
+function getSlackRetryInfo(c: Context): SlackRetryInfo | null {
+  const retryNum = c.req.header("x-slack-retry-num");
+  if (!retryNum) {
+    return null;
   }
-  recentEvents.push(eventName);
-  if (recentEvents.length > 200) {
-    recentEvents.shift();
-  }
-  return false;
+  return {
+    retryNum: Number(retryNum) || 0,
+    retryReason: c.req.header("x-slack-retry-reason"),
+  };
 }
 
-function createReactToMessage({
-  slack,
+// Claims the event in the shared store. Returns true if another delivery of
+// the same event (this process, another replica, or before a restart) has
+// already claimed it.
+async function checkDuplicateEvent({
+  workspace,
+  eventId,
+  retry,
+  store,
   logger,
 }: {
-  slack: WebClient;
+  workspace: SlackWorkspaceRef;
+  eventId: string | undefined;
+  retry: SlackRetryInfo | null;
+  store: KeyValueStore;
   logger: IMastraLogger;
 }) {
-  const addReaction = async (
-    channel: string,
-    timestamp: string,
-    emoji: string,
-  ) => {
-    logger.info(`[Slack] Adding reaction to message`, {
-      emoji,
-      timestamp,
-      channel,
+  if (retry) {
+    logger.info("🔁 [Slack] Received retried event delivery", {
+      eventId,
+      ...retry,
     });
-    try {
-      await slack.reactions.add({ channel, timestamp, name: emoji });
-    } catch (error) {
-      logger.error(`[Slack] Error adding reaction to message`, {
-        emoji,
-        timestamp,
-        channel,
-        error: format(error),
+  }
+  if (!eventId) {
+    return false;
+  }
+  try {
+    const claimed = await store.setIfAbsent(
+      slackEventKey(workspace, eventId),
+      { receivedAt: new Date().toISOString(), retryNum: retry?.retryNum ?? 0 },
+      { ttlMs: SLACK_EVENT_DEDUP_TTL_MS },
+    );
+    if (!claimed) {
+      logger.info("🔁 [Slack] Skipping duplicate event", {
+        eventId,
+        retryNum: retry?.retryNum,
       });
     }
-  };
-
-  const removeAllReactions = async (channel: string, timestamp: string) => {
-    logger.info(`[Slack] Removing all reactions from message`, {
-      timestamp,
-      channel,
+    return !claimed;
+  } catch (error) {
+    // Without the store we cannot tell whether the original delivery was
+    // handled. Process first deliveries, but assume retries are duplicates,
+    // since the original is most likely still in flight.
+    logger.error("❌ [Slack] Error checking for duplicate event", {
+      eventId,
+      retryNum: retry?.retryNum,
+      error: format(error),
     });
-    const emojis = [
-      "hourglass",
-      "hourglass_flowing_sand",
-      "white_check_mark",
-      "x",
-      "alarm_clock",
-    ];
-
-    for (const emoji of emojis) {
-      try {
-        await slack.reactions.remove({ channel, timestamp, name: emoji });
-      } catch (error) {
-        if (
-          isWebAPICallError(error) &&
-          (error.code !== ErrorCode.PlatformError ||
-            error.data?.error !== "no_reaction")
-        ) {
-          logger.error("[Slack] Error removing reaction", {
-            emoji,
-            timestamp,
-            channel,
-            error: format(error),
-          });
-        }
-      }
-    }
-  };
-
-  return async function reactToMessage(
-    channel: string,
-    timestamp: string,
-    result: WorkflowResult<any, any> | null,
-  ) {
-    // Remove all of our reactions.
-    await removeAllReactions(channel, timestamp);
-    if (result?.status === "success") {
-      await addReaction(channel, timestamp, "white_check_mark");
-    } else if (result?.status === "failed") {
-      await addReaction(channel, timestamp, "x");
-    } else if (result !== null) {
-      await addReaction(channel, timestamp, "alarm_clock");
-    }
-  };
+    return retry !== null;
+  }
 }
 
+export type SlackTriggerRun = {
+  runId: string;
+  result: WorkflowResult<any, any>;
+};
+
 export function registerSlackTrigger<
   Env extends { Variables: { mastra: Mastra } },
 >({
@@ -228,50 +166,161 @@ export function registerSlackTrigger<
   handler: (
     mastra: Mastra,
     triggerInfo: TriggerInfoSlackOnNewMessage,
-  ) => Promise<WorkflowResult<any, any> | null>;
+  ) => Promise<SlackTriggerRun | null>;
 }): Array<ApiRoute> {
+  // Slack expects an acknowledgement within three seconds, which an agent turn
+  // rarely meets. The webhook only enqueues the event; this function runs the
+  // handler and updates the reactions in the background.
+  registerInngestFunction((mastra) =>
+    inngest.createFunction(
+      {
+        id: "slack-process-event",
+        name: "Process Slack event",
+        // The workflow retries its own steps; re-running the whole handler
+        // could post a second reply.
+        retries: 0,
+      },
+      { event: "slack/event.received" },
+      async ({ event, step }) => {
+        const logger = mastra.getLogger();
+        const payload = event.data.payload;
+        const workspace = slackWorkspaceFromPayload(payload);
+
+        // Augment event with channel info
+        const channel = await step.run("fetch channel info", async () => {
+          try {
+            const { slack } = await getClient(workspace);
+            const result = await slack.conversations.info({
+              channel: payload.event.channel,
+            });
+            logger?.info("📝 [Slack] result", { result });
+            return result.channel ?? null;
+          } catch (error) {
+            logger?.error("Error fetching channel info", {
+              error: format(error),
+            });
+            // Continue processing even if channel info fetch fails
+            return null;
+          }
+        });
+        payload.channel = channel;
+
+        const run = (await step.run("run trigger handler", () =>
+          handler(mastra, {
+            type: triggerType,
+            params: {
+              channel: payload.event.channel,
+              channelDisplayName: channel?.name,
+            },
+            payload,
+          } as TriggerInfoSlackOnNewMessage),
+        )) as SlackTriggerRun | null;
+
+        await step.run("react to message", () =>
+          queueSlackReaction({
+            workspace,
+            channel: payload.event.channel,
+            timestamp: payload.event.ts,
+            status: reactionStatusForResult(run?.result ?? null),
+            runId: run?.runId,
+          }),
+        );
+
+        return {
+          runId: run?.runId ?? null,
+          status: run?.result.status ?? "skipped",
+        };
+      },
+    ),
+  );
+
+  registerInngestFunction((mastra) =>
+    inngest.createFunction(
+      { id: "slack-publish-app-home", name: "Publish Slack App Home" },
+      { event: "slack/app-home.opened" },
+      async ({ event, step }) => {
+        await step.run("publish home tab", () =>
+          publishAppHome(mastra, event.data.userId, {
+            workspace: event.data.workspace,
+          }),
+        );
+      },
+    ),
+  );
+
+  registerInngestFunction((mastra) =>
+    inngest.createFunction(
+      {
+        id: "slack-handle-reaction",
+        name: "Handle Slack reaction",
+        // Actions post messages and files; don't repeat them on failure.
+        retries: 0,
+      },
+      { event: "slack/reaction.added" },
+      async ({ event, step }) => {
+        await step.run("run reaction action", () =>
+          handleSlackReaction(mastra, event.data as SlackReactionEvent),
+        );
+      },
+    ),
+  );
+
+  registerInngestFunction((mastra) =>
+    inngest.createFunction(
+      { id: "slack-retract-reply", name: "Retract Slack reply" },
+      { event: "slack/message.deleted" },
+      async ({ event, step }) => {
+        const { workspace, channel, messageTs } = event.data;
+        return step.run("retract reply", async () => {
+          const { slack } = await getClient(workspace);
+          return retractSlackReply({
+            slack,
+            store: sharedKeyValueStore,
+            message: { workspace, channel, messageTs },
+            logger: mastra.getLogger(),
+          });
+        });
+      },
+    ),
+  );
+
   return [
     registerApiRoute("/webhooks/slack/action", {
       method: "POST",
       handler: async (c) => {
         const mastra = c.get("mastra");
         const logger = mastra.getLogger();
+        // Released when the event cannot be enqueued, so Slack's retry is
+        // processed instead of being dropped as a duplicate.
+        let claimedEventKey: string | undefined;
         try {
-          const payload = await c.req.json();
-          const { slack, auth } = await getClient();
-          const reactToMessage = createReactToMessage({ slack, logger });
+          const body = await readVerifiedSlackBody(c, logger);
+          if (body === null) {
+            return c.text("Unauthorized", 401);
+          }
+          let payload = JSON.parse(body);
 
           // Handle challenge
           if (payload && payload["challenge"]) {
             return c.text(payload["challenge"], 200);
           }
 
+          // One deployment can serve several workspaces, so the client
+          // (and bot user) is picked per event.
+          const workspace = slackWorkspaceFromPayload(payload);
+          const { slack, auth } = await getClient(workspace);
+
           logger?.info("📝 [Slack] payload", { payload });
 
-          // Augment event with channel info
-          if (payload && payload.event && payload.event.channel) {
-            try {
-              const result = await slack.conversations.info({
-                channel: payload.event.channel,
-              });
-              logger?.info("📝 [Slack] result", { result });
-              payload.channel = result.channel;
-            } catch (error) {
-              logger?.error("Error fetching channel info", {
-                error: format(error),
-              });
-              // Continue processing even if channel info fetch fails
+          // Edited messages are answered again as if they were new; the
+          // handler updates Aurora's earlier reply instead of posting another.
+          if (payload.event?.subtype === "message_changed") {
+            payload = editedMessagePayload(payload);
+            if (!payload) {
+              return c.text("OK", 200);
             }
           }
 
-          // Check subtype
-          if (
-            payload.event?.subtype === "message_changed" ||
-            payload.event?.subtype === "message_deleted"
-          ) {
-            return c.text("OK", 200);
-          }
-
           if (
             (payload.event?.channel_type === "im" &&
               payload.event?.text === "test:ping") ||
@@ -292,26 +341,98 @@ export function registerSlackTrigger<
             return c.text("OK", 200);
           }
 
-          if (checkDuplicateEvent(payload.event_id)) {
+          if (
+            await checkDuplicateEvent({
+              workspace,
+              eventId: payload.event_id,
+              retry: getSlackRetryInfo(c),
+              store: sharedKeyValueStore,
+              logger,
+            })
+          ) {
             return c.text("OK", 200);
           }
+          if (payload.event_id) {
+            claimedEventKey = slackEventKey(workspace, payload.event_id);
+          }
 
-          const result = await handler(mastra, {
-            type: triggerType,
-            params: {
-              channel: payload.event.channel,
-              channelDisplayName: payload.channel.name,
-            },
-            payload,
-          } as TriggerInfoSlackOnNewMessage);
+          if (payload.event?.subtype === "message_deleted") {
+            await inngest.send({
+              id: `slack-${slackWorkspaceKey(workspace)}-${payload.event_id}`,
+              name: "slack/message.deleted",
+              data: {
+                workspace,
+                channel: payload.event.channel,
+                messageTs: payload.event.deleted_ts,
+              },
+            });
+            return c.text("OK", 200);
+          }
+
+          // Reactions on Aurora's messages trigger actions (regenerate, pin,
+          // feedback, transcript export).
+          if (payload.event?.type === "reaction_added") {
+            const { item, reaction, user } = payload.event;
+            if (
+              item?.type === "message" &&
+              payload.event.item_user === auth.user_id &&
+              user !== auth.user_id &&
+              isSlackReactionAction(reaction)
+            ) {
+              await inngest.send({
+                id: `slack-${slackWorkspaceKey(workspace)}-${payload.event_id}`,
+                name: "slack/reaction.added",
+                data: {
+                  workspace,
+                  userId: user,
+                  reaction,
+                  channel: item.channel,
+                  messageTs: item.ts,
+                  eventTs: payload.event.event_ts,
+                },
+              });
+            }
+            return c.text("OK", 200);
+          }
+
+          if (payload.event?.type === "app_home_opened") {
+            if (payload.event.tab === "home") {
+              await inngest.send({
+                id: `slack-${slackWorkspaceKey(workspace)}-${payload.event_id}`,
+                name: "slack/app-home.opened",
+                data: { userId: payload.event.user, workspace },
+              });
+            }
+            return c.text("OK", 200);
+          }
 
-          await reactToMessage(payload.event.channel, payload.event.ts, result);
+          // The event id doubles as Inngest's idempotency key.
+          const { ids } = await inngest.send({
+            id: payload.event_id
+              ? `slack-${slackWorkspaceKey(workspace)}-${payload.event_id}`
+              : undefined,
+            name: "slack/event.received",
+            data: { payload },
+          });
+          logger?.info("📨 [Slack] Event enqueued for processing", {
+            eventId: payload.event_id,
+            inngestEventIds: ids,
+          });
 
           return c.text("OK", 200);
         } catch (error) {
           logger?.error("Error handling Slack webhook", {
             error: format(error),
           });
+          if (claimedEventKey) {
+            await sharedKeyValueStore
+              .delete(claimedEventKey)
+              .catch((releaseError) =>
+                logger?.error("❌ [Slack] Error releasing event claim", {
+                  error: format(releaseError),
+                }),
+              );
+          }
           return c.text("Internal Server Error", 500);
         }
       },
@@ -360,7 +481,10 @@ export function registerSlackTrigger<
           let auth: AuthTestResponse;
           let user: string | undefined;
           try {
-            ({ slack, auth, user } = await getClient());
+            // ?team=T123 tests a specific workspace's installation.
+            ({ slack, auth, user } = await getClient({
+              teamId: c.req.query("team"),
+            }));
           } catch (error) {
             logger?.error("❌ [Slack] test:auth failed", {
               error: format(error),
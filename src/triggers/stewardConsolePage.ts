@@ -0,0 +1,221 @@
+// The Continuity Steward console, served as a single page with no build
+// step. It asks for the admin token, keeps it in sessionStorage and talks
+// to /console/api; everything it shows is built from the JSON with
+// textContent, never parsed as HTML.
+export function stewardConsolePage() {
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Continuity Steward · Aurora</title>
+<style>
+  :root { color-scheme: dark; --bg: #0f1220; --panel: #171b2e; --line: #2a3050; --text: #e3e6f3; --muted: #8b92b3; --accent: #8fa8ff; --ok: #5fd3a0; --bad: #ff7a8a; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font: 14px/1.5 system-ui, sans-serif; background: var(--bg); color: var(--text); }
+  header { display: flex; gap: 1rem; align-items: center; padding: .75rem 1.25rem; border-bottom: 1px solid var(--line); }
+  header h1 { font-size: 1.1rem; margin: 0 auto 0 0; }
+  header input { width: 16rem; }
+  main { display: grid; grid-template-columns: 15rem 1fr 20rem; min-height: calc(100vh - 3.5rem); }
+  nav, aside { padding: 1rem; border-right: 1px solid var(--line); }
+  aside { border-right: 0; border-left: 1px solid var(--line); }
+  section { padding: 1rem 1.5rem; overflow-x: auto; }
+  h2 { font-size: 1.05rem; margin: 0 0 .25rem; }
+  h3 { font-size: .8rem; text-transform: uppercase; letter-spacing: .05em; color: var(--muted); margin: 1.25rem 0 .5rem; }
+  input, textarea, select, button { font: inherit; color: inherit; background: var(--panel); border: 1px solid var(--line); border-radius: 6px; padding: .4rem .6rem; }
+  button { cursor: pointer; border-color: var(--accent); }
+  button:disabled { opacity: .5; cursor: wait; }
+  nav button { display: block; width: 100%; text-align: left; margin-bottom: .35rem; border-color: var(--line); }
+  nav button.active { border-color: var(--accent); background: #1f2642; }
+  nav small, .muted { color: var(--muted); }
+  form { display: grid; gap: .6rem; max-width: 40rem; }
+  form label { display: grid; gap: .2rem; }
+  textarea { min-height: 4.5rem; resize: vertical; }
+  table { border-collapse: collapse; width: 100%; max-width: 48rem; margin-bottom: .75rem; }
+  caption { text-align: left; font-weight: 600; padding: .3rem 0; }
+  caption .tag { font-weight: 400; color: var(--accent); margin-left: .5rem; font-family: ui-monospace, monospace; }
+  th, td { text-align: left; padding: .3rem .6rem; border-bottom: 1px solid var(--line); vertical-align: top; }
+  th { width: 35%; font-weight: 500; color: var(--muted); }
+  td { font-family: ui-monospace, monospace; word-break: break-word; }
+  .badge { display: inline-block; padding: 0 .5rem; border-radius: 999px; font-size: .75rem; margin-left: .5rem; }
+  .completed { background: #173a2d; color: var(--ok); }
+  .failed { background: #43202a; color: var(--bad); }
+  .error { color: var(--bad); }
+  ol.timeline { list-style: none; margin: 0; padding: 0 0 0 1rem; border-left: 2px solid var(--line); }
+  ol.timeline li { position: relative; padding: 0 0 .8rem .6rem; }
+  ol.timeline li::before { content: ""; position: absolute; left: -1.42rem; top: .45rem; width: .6rem; height: .6rem; border-radius: 50%; background: var(--accent); }
+  ol.timeline li.failed::before { background: var(--bad); }
+  aside li { cursor: pointer; }
+  aside li:hover .label { color: var(--accent); }
+  .headline { font-family: ui-monospace, monospace; color: var(--accent); }
+</style>
+</head>
+<body>
+<header>
+  <h1>◊ Continuity Steward</h1>
+  <span id="connection" class="muted"></span>
+  <input id="token" type="password" placeholder="Admin token" autocomplete="off">
+  <button id="connect">Connect</button>
+</header>
+<main>
+  <nav><h3>Operations</h3><div id="operations"></div></nav>
+  <section><div id="form"></div><div id="result"></div></section>
+  <aside><h3>Run timeline</h3><ol id="runs" class="timeline"></ol></aside>
+</main>
+<script>
+(function () {
+  var token = sessionStorage.getItem("stewardToken") || "";
+  var operations = [];
+  var $ = function (id) { return document.getElementById(id); };
+
+  function el(tag, props, children) {
+    var node = Object.assign(document.createElement(tag), props || {});
+    (children || []).forEach(function (child) {
+      if (child !== null && child !== undefined) node.append(child);
+    });
+    return node;
+  }
+
+  async function api(method, path, body) {
+    var response = await fetch("/console/api" + path, {
+      method: method,
+      headers: { authorization: "Bearer " + token, "content-type": "application/json" },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    if (response.status === 401 || response.status === 404 && path === "/operations") {
+      throw new Error(response.status === 401 ? "The admin token was not accepted" : "The console is not enabled");
+    }
+    var data = await response.json().catch(function () { return {}; });
+    // Failed runs come back as runs, with status "failed".
+    if (!response.ok && !data.status) throw new Error(data.error || response.statusText);
+    return data;
+  }
+
+  function formatTime(iso) {
+    return new Date(iso).toLocaleString();
+  }
+
+  function renderOperations(activeId) {
+    $("operations").replaceChildren.apply($("operations"), operations.map(function (operation) {
+      return el("button", {
+        className: operation.id === activeId ? "active" : "",
+        onclick: function () { showForm(operation); },
+      }, [operation.label, el("br"), el("small", { textContent: operation.tool })]);
+    }));
+  }
+
+  function fieldInput(field) {
+    if (field.kind === "select") {
+      return el("select", { name: field.name }, field.options.map(function (option) {
+        return el("option", { value: option, textContent: option, selected: option === field.default });
+      }));
+    }
+    var props = { name: field.name, placeholder: field.placeholder || "", value: field.default === undefined ? "" : String(field.default) };
+    if (field.kind === "number") Object.assign(props, { type: "number", step: "any", min: field.min, max: field.max });
+    return el(field.kind === "textarea" ? "textarea" : "input", props);
+  }
+
+  function showForm(operation) {
+    renderOperations(operation.id);
+    var submit = el("button", { type: "submit", textContent: "Run " + operation.label });
+    var form = el("form", {
+      onsubmit: async function (event) {
+        event.preventDefault();
+        submit.disabled = true;
+        var params = {};
+        new FormData(form).forEach(function (value, name) { params[name] = value; });
+        try {
+          renderRun(await api("POST", "/operations/" + operation.id, { params: params }));
+          loadRuns();
+        } catch (error) {
+          $("result").replaceChildren(el("p", { className: "error", textContent: error.message }));
+        } finally {
+          submit.disabled = false;
+        }
+      },
+    }, operation.fields.map(function (field) {
+      return el("label", {}, [field.label, fieldInput(field)]);
+    }).concat([el("div", {}, [submit])]));
+    $("form").replaceChildren(
+      el("h2", { textContent: operation.label }),
+      el("p", { className: "muted", textContent: operation.summary }),
+      form
+    );
+  }
+
+  function table(caption, rows, tag) {
+    return el("table", {}, [
+      el("caption", {}, [caption, tag ? el("span", { className: "tag", textContent: tag }) : null]),
+      el("tbody", {}, rows.map(function (row) {
+        return el("tr", {}, [el("th", { textContent: row.name }), el("td", { textContent: row.value })]);
+      })),
+    ]);
+  }
+
+  function renderRun(run) {
+    var parts = [
+      el("h2", {}, [run.label, el("span", { className: "badge " + run.status, textContent: run.status })]),
+      el("p", { className: "muted", textContent: formatTime(run.startedAt) + " · " + run.durationMs + " ms · " + run.tool }),
+      run.headline ? el("p", { className: "headline", textContent: run.headline }) : null,
+      run.error ? el("p", { className: "error", textContent: run.error }) : null,
+    ];
+    run.timelines.forEach(function (timeline) {
+      parts.push(el("h3", { textContent: timeline.title }), el("ol", { className: "timeline" }, timeline.steps.map(function (step) {
+        return el("li", { textContent: step });
+      })));
+    });
+    if (run.sections.length) parts.push(el("h3", { textContent: "Report" }));
+    run.sections.forEach(function (section) {
+      parts.push(table(section.title, section.fields.concat(section.notes.map(function (note) {
+        return { name: "", value: note };
+      })), section.tag));
+    });
+    run.lists.forEach(function (list) {
+      parts.push(el("h3", { textContent: list.title }), el("ul", {}, list.items.map(function (item) {
+        return el("li", { textContent: item });
+      })));
+    });
+    parts.push(el("h3", { textContent: "Input" }), table("", Object.keys(run.input).map(function (name) {
+      return { name: name, value: String(run.input[name]) };
+    })));
+    $("result").replaceChildren.apply($("result"), parts.filter(Boolean));
+  }
+
+  async function loadRuns() {
+    var data = await api("GET", "/runs");
+    $("runs").replaceChildren.apply($("runs"), data.runs.map(function (run) {
+      return el("li", {
+        className: run.status,
+        onclick: async function () { renderRun(await api("GET", "/runs/" + run.id)); },
+      }, [
+        el("div", { className: "label", textContent: run.label }),
+        el("small", { className: "muted", textContent: formatTime(run.startedAt) + " · " + run.durationMs + " ms" }),
+        run.headline ? el("div", { className: "headline", textContent: run.headline }) : null,
+      ]);
+    }));
+  }
+
+  async function connect() {
+    try {
+      operations = (await api("GET", "/operations")).operations;
+      $("connection").textContent = "Connected";
+      renderOperations();
+      if (operations.length) showForm(operations[0]);
+      await loadRuns();
+    } catch (error) {
+      $("connection").textContent = error.message;
+    }
+  }
+
+  $("token").value = token;
+  $("connect").onclick = function () {
+    token = $("token").value.trim();
+    sessionStorage.setItem("stewardToken", token);
+    connect();
+  };
+  if (token) connect();
+})();
+</script>
+</body>
+</html>`;
+}
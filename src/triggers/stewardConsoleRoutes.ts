@@ -0,0 +1,125 @@
+import type { Context } from "hono";
+import { z } from "zod";
+
+import {
+  StewardOperationError,
+  getStewardRun,
+  listStewardRuns,
+  runStewardOperation,
+  stewardOperations,
+  stewardParamsSchema,
+} from "../mastra/steward";
+import { sharedKeyValueStore } from "../mastra/storage";
+import { requireAdminToken } from "./adminAuth";
+import type { ApiRoute } from "./slackTriggers";
+import { stewardConsolePage } from "./stewardConsolePage";
+
+const runRequestSchema = z.object({
+  params: stewardParamsSchema.default({}),
+});
+
+// The page only loads inline styles and its own script, and only talks to
+// this origin.
+const CONSOLE_CSP = [
+  "default-src 'none'",
+  "style-src 'unsafe-inline'",
+  "script-src 'unsafe-inline'",
+  "connect-src 'self'",
+  "frame-ancestors 'none'",
+].join("; ");
+
+function stewardErrorResponse(c: Context, error: unknown) {
+  if (error instanceof StewardOperationError) {
+    return c.json({ error: error.message }, error.status);
+  }
+  if (error instanceof z.ZodError) {
+    return c.json({ error: "The body must be { params: { ... } }" }, 400);
+  }
+  throw error;
+}
+
+// The Continuity Steward console at /console and the JSON API it runs on:
+//   GET  /console/api/operations                the operations and their fields
+//   POST /console/api/operations/:operationId   run one ({ params })
+//   GET  /console/api/runs                      recent runs, newest first
+//   GET  /console/api/runs/:runId               a recorded run
+// The API needs the admin token; the page asks for it. Like the other
+// operator routes, nothing is served while AURORA_ADMIN_TOKEN is unset.
+export function registerStewardConsoleRoutes(): Array<ApiRoute> {
+  return [
+    {
+      path: "/console",
+      method: "GET",
+      handler: async (c) => {
+        if (!process.env.AURORA_ADMIN_TOKEN) {
+          return c.text("Not Found", 404);
+        }
+        c.header("Content-Security-Policy", CONSOLE_CSP);
+        c.header("Cache-Control", "no-store");
+        return c.html(stewardConsolePage());
+      },
+    },
+    {
+      path: "/console/api/operations",
+      method: "GET",
+      middleware: requireAdminToken,
+      handler: async (c) =>
+        c.json({
+          operations: stewardOperations.map(
+            ({ id, label, summary, tool, fields }) => ({
+              id,
+              label,
+              summary,
+              tool: tool.id,
+              fields,
+            }),
+          ),
+        }),
+    },
+    {
+      path: "/console/api/operations/:operationId",
+      method: "POST",
+      middleware: requireAdminToken,
+      handler: async (c) => {
+        try {
+          const { params } = runRequestSchema.parse(
+            await c.req.json().catch(() => ({})),
+          );
+          const run = await runStewardOperation({
+            mastra: c.get("mastra"),
+            store: sharedKeyValueStore,
+            operationId: c.req.param("operationId") ?? "",
+            params,
+          });
+          return c.json(run, run.status === "completed" ? 200 : 500);
+        } catch (error) {
+          return stewardErrorResponse(c, error);
+        }
+      },
+    },
+    {
+      path: "/console/api/runs",
+      method: "GET",
+      middleware: requireAdminToken,
+      handler: async (c) =>
+        c.json({ runs: await listStewardRuns(sharedKeyValueStore) }),
+    },
+    {
+      path: "/console/api/runs/:runId",
+      method: "GET",
+      middleware: requireAdminToken,
+      handler: async (c) => {
+        try {
+          return c.json(
+            await getStewardRun(
+              sharedKeyValueStore,
+              c.req.param("runId") ?? "",
+            ),
+          );
+        } catch (error) {
+          return stewardErrorResponse(c, error);
+        }
+      },
+    },
+  ];
+}
@@ -0,0 +1,213 @@
+import type {
+  TelegramChatAction,
+  TelegramMessage,
+  TelegramUser,
+} from "./types";
+
+const TELEGRAM_API_BASE_URL = "https://api.telegram.org";
+
+export class TelegramApiError extends Error {
+  constructor(
+    readonly method: string,
+    readonly errorCode: number,
+    readonly description: string,
+    // Seconds to wait before retrying, for 429 responses.
+    readonly retryAfter?: number,
+  ) {
+    super(`Telegram ${method} failed: ${errorCode} ${description}`);
+    this.name = "TelegramApiError";
+  }
+}
+
+type TelegramResponse<T> =
+  | { ok: true; result: T }
+  | {
+      ok: false;
+      error_code: number;
+      description: string;
+      parameters?: { retry_after?: number };
+    };
+
+export type TelegramWebhookInfo = {
+  url: string;
+  has_custom_certificate: boolean;
+  pending_update_count: number;
+  ip_address?: string;
+  last_error_date?: number;
+  last_error_message?: string;
+  max_connections?: number;
+  allowed_updates?: string[];
+};
+
+export type SetWebhookParams = {
+  url: string;
+  secret_token?: string;
+  allowed_updates?: string[];
+  drop_pending_updates?: boolean;
+  max_connections?: number;
+};
+
+export type GetUpdatesParams = {
+  // One more than the last update_id seen; confirms the earlier updates.
+  offset?: number;
+  limit?: number;
+  // Seconds to wait for an update before returning an empty list.
+  timeout?: number;
+  allowed_updates?: string[];
+};
+
+export type InlineKeyboardButton = {
+  text: string;
+  // At most 64 bytes.
+  callback_data: string;
+};
+
+export type InlineKeyboardMarkup = {
+  inline_keyboard: InlineKeyboardButton[][];
+};
+
+export type SendMessageParams = {
+  chat_id: number | string;
+  text: string;
+  parse_mode?: "HTML";
+  message_thread_id?: number;
+  reply_to_message_id?: number;
+  // Send the reply even if the message was deleted meanwhile.
+  allow_sending_without_reply?: boolean;
+  reply_markup?: InlineKeyboardMarkup;
+};
+
+export type EditMessageTextParams = {
+  chat_id: number | string;
+  message_id: number;
+  text: string;
+  parse_mode?: "HTML";
+  // Omitting it removes the message's inline keyboard.
+  reply_markup?: InlineKeyboardMarkup;
+};
+
+export type TelegramBotCommand = {
+  // 1-32 characters: lowercase letters, digits and underscores.
+  command: string;
+  description: string;
+};
+
+// Minimal Bot API client. The token is part of every request URL, so it is
+// never included in errors or logs.
+export class TelegramBotApi {
+  constructor(
+    private readonly token: string,
+    private readonly baseUrl = TELEGRAM_API_BASE_URL,
+  ) {}
+
+  async call<T>(
+    method: string,
+    params: Record<string, unknown> = {},
+    { signal }: { signal?: AbortSignal } = {},
+  ) {
+    const response = await fetch(`${this.baseUrl}/bot${this.token}/${method}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(params),
+      signal,
+    });
+    const body = (await response.json()) as TelegramResponse<T>;
+    if (!body.ok) {
+      throw new TelegramApiError(
+        method,
+        body.error_code,
+        body.description,
+        body.parameters?.retry_after,
+      );
+    }
+    return body.result;
+  }
+
+  getMe() {
+    return this.call<TelegramUser>("getMe");
+  }
+
+  getWebhookInfo() {
+    return this.call<TelegramWebhookInfo>("getWebhookInfo");
+  }
+
+  setWebhook(params: SetWebhookParams) {
+    return this.call<true>("setWebhook", params);
+  }
+
+  deleteWebhook(params: { drop_pending_updates?: boolean } = {}) {
+    return this.call<true>("deleteWebhook", params);
+  }
+
+  // Long polling; only works while no webhook is set.
+  getUpdates(params: GetUpdatesParams, signal?: AbortSignal) {
+    return this.call<unknown[]>("getUpdates", params, { signal });
+  }
+
+  sendMessage(params: SendMessageParams) {
+    return this.call<TelegramMessage>("sendMessage", params);
+  }
+
+  editMessageText(params: EditMessageTextParams) {
+    return this.call<TelegramMessage | true>("editMessageText", params);
+  }
+
+  // Stops the button's loading indicator, optionally showing a notice.
+  answerCallbackQuery(callbackQueryId: string, text?: string) {
+    return this.call<true>("answerCallbackQuery", {
+      callback_query_id: callbackQueryId,
+      text,
+    });
+  }
+
+  setMyCommands(commands: TelegramBotCommand[]) {
+    return this.call<true>("setMyCommands", { commands });
+  }
+
+  // The action is shown for five seconds or until the bot sends a message.
+  sendChatAction(
+    chatId: number | string,
+    action: TelegramChatAction,
+    messageThreadId?: number,
+  ) {
+    return this.call<true>("sendChatAction", {
+      chat_id: chatId,
+      action,
+      message_thread_id: messageThreadId,
+    });
+  }
+}
+
+let sharedBotApi: TelegramBotApi | undefined;
+
+export function getTelegramBotApi() {
+  const token = process.env.TELEGRAM_BOT_TOKEN;
+  if (!token) {
+    throw new Error("TELEGRAM_BOT_TOKEN is not set");
+  }
+  // TELEGRAM_API_BASE_URL points the bot at a local Bot API server, or a
+  // fake one in tests.
+  sharedBotApi ??= new TelegramBotApi(
+    token,
+    process.env.TELEGRAM_API_BASE_URL || undefined,
+  );
+  return sharedBotApi;
+}
+
+let botUser: Promise<TelegramUser> | undefined;
+
+// The bot's own user (id and username), fetched once.
+export function getTelegramBotUser() {
+  botUser ??= getTelegramBotApi()
+    .getMe()
+    .catch((error) => {
+      botUser = undefined;
+      throw error;
+    });
+  return botUser;
+}
+
+// Update ids are only unique per bot; the bot id is the token's prefix.
+export function telegramBotId() {
+  return process.env.TELEGRAM_BOT_TOKEN?.split(":")[0] ?? "unknown";
+}
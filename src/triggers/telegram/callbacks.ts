@@ -0,0 +1,75 @@
+import { format } from "node:util";
+import type { Mastra } from "@mastra/core";
+
+import { getTelegramBotApi } from "./botApi";
+import { answerTelegramMessage } from "./conversation";
+import {
+  ETHICS_CALLBACK_PREFIX,
+  resolveTelegramEthicsDecision,
+} from "./ethicsApproval";
+import { FOLLOW_UP_CALLBACK_PREFIX, getFollowUp } from "./replies";
+import type { TelegramCallbackQuery } from "./types";
+
+// Handles presses on Aurora's inline keyboards: ethics approvals and
+// follow-up suggestions.
+export async function handleTelegramCallback(
+  mastra: Mastra,
+  callbackQuery: TelegramCallbackQuery,
+) {
+  const logger = mastra.getLogger();
+  const api = getTelegramBotApi();
+  const data = callbackQuery.data ?? "";
+
+  logger?.info("🔘 [Telegram] Callback query", {
+    callbackQueryId: callbackQuery.id,
+    userId: callbackQuery.from.id,
+    data,
+  });
+
+  if (data.startsWith(ETHICS_CALLBACK_PREFIX)) {
+    let notice: string;
+    try {
+      notice = await resolveTelegramEthicsDecision({
+        api,
+        callbackQuery,
+        logger,
+      });
+    } catch (error) {
+      logger?.error("❌ [Telegram] Error resolving ethics decision", {
+        error: format(error),
+      });
+      notice = "Something went wrong. Please try again.";
+    }
+    await api.answerCallbackQuery(callbackQuery.id, notice);
+    return;
+  }
+
+  // Clients show a spinner on the button until the query is answered.
+  await api.answerCallbackQuery(callbackQuery.id);
+
+  const message = callbackQuery.message;
+  if (!data.startsWith(FOLLOW_UP_CALLBACK_PREFIX) || !message) {
+    logger?.warn("⚠️ [Telegram] Unknown callback query", { data });
+    return;
+  }
+  const question = await getFollowUp(
+    message.chat.id,
+    message.message_id,
+    Number(data.slice(FOLLOW_UP_CALLBACK_PREFIX.length)),
+  );
+  if (!question) {
+    logger?.info("⏭️ [Telegram] Follow-up suggestion expired", { data });
+    return;
+  }
+
+  // Ask the suggestion as if the person had sent it, replying to the
+  // message that offered it.
+  await answerTelegramMessage(mastra, {
+    message_id: message.message_id,
+    message_thread_id: message.message_thread_id,
+    from: callbackQuery.from,
+    chat: message.chat,
+    date: Math.floor(Date.now() / 1000),
+    text: question,
+  });
+}
@@ -0,0 +1,92 @@
+import { format } from "node:util";
+import type { Mastra } from "@mastra/core";
+
+import {
+  AuroraCommandError,
+  findAuroraCommand,
+  runAuroraCommand,
+} from "../../mastra/commands";
+import { type TelegramBotCommand, getTelegramBotApi } from "./botApi";
+import type { TelegramCommandInvocation } from "./groupChats";
+import { renderTelegramMessages } from "./renderTelegramMessage";
+import type { TelegramMessage } from "./types";
+
+// Commands offered in Telegram's command menu. Telegram names cannot contain
+// hyphens, so registry commands are listed under an alias where needed.
+const TELEGRAM_COMMAND_NAMES = ["drift", "seal", "forecast", "research"];
+const HELP_COMMANDS = ["help", "start"];
+
+function telegramCommandUsage(name: string) {
+  const command = findAuroraCommand(name)!;
+  return `/${name}${command.usage.slice(command.name.length)}`;
+}
+
+// Registered with setMyCommands so clients suggest them.
+export function telegramBotCommands(): TelegramBotCommand[] {
+  return [
+    ...TELEGRAM_COMMAND_NAMES.map((name) => ({
+      command: name,
+      description: findAuroraCommand(name)!.summary.slice(0, 256),
+    })),
+    { command: "help", description: "Show Aurora's commands" },
+  ];
+}
+
+function telegramCommandHelp() {
+  return [
+    "## ◊ Aurora commands",
+    ...TELEGRAM_COMMAND_NAMES.map(
+      (name) =>
+        `- \`${telegramCommandUsage(name)}\` — ${findAuroraCommand(name)!.summary}`,
+    ),
+    "- `/help` — Show this list",
+    "",
+    "In groups, mention me or reply to one of my messages to ask anything else.",
+  ].join("\n");
+}
+
+export const isKnownTelegramCommand = (name: string) =>
+  HELP_COMMANDS.includes(name) || !!findAuroraCommand(name);
+
+// Runs the command with the shared command registry and replies with the
+// result.
+export async function runTelegramCommand(
+  mastra: Mastra,
+  message: TelegramMessage,
+  invocation: TelegramCommandInvocation,
+) {
+  const logger = mastra.getLogger();
+  let markdown: string;
+  if (HELP_COMMANDS.includes(invocation.name)) {
+    markdown = telegramCommandHelp();
+  } else {
+    try {
+      ({ markdown } = await runAuroraCommand(
+        mastra,
+        invocation.name,
+        invocation.args,
+      ));
+    } catch (error) {
+      logger?.error("❌ [Telegram Command] Error running command", {
+        command: invocation.name,
+        error: format(error),
+      });
+      markdown =
+        error instanceof AuroraCommandError
+          ? `${error.message}\n\nSend /help for the list of commands.`
+          : "◊ Aurora OS :: Command failed. Please retry in a moment. ◊";
+    }
+  }
+
+  const api = getTelegramBotApi();
+  for (const html of renderTelegramMessages(markdown)) {
+    await api.sendMessage({
+      chat_id: message.chat.id,
+      text: html,
+      parse_mode: "HTML",
+      message_thread_id: message.message_thread_id,
+      reply_to_message_id: message.message_id,
+      allow_sending_without_reply: true,
+    });
+  }
+}
@@ -0,0 +1,132 @@
+import { format } from "node:util";
+import type { Mastra } from "@mastra/core";
+import type { IMastraLogger } from "@mastra/core/logger";
+
+import {
+  type AuroraAnswer,
+  FALLBACK_ANSWER,
+  answerWithAurora,
+  auroraPrompt,
+} from "../../mastra/conversation";
+import {
+  type TelegramBotApi,
+  getTelegramBotApi,
+  getTelegramBotUser,
+} from "./botApi";
+import { holdTelegramAnswer } from "./ethicsApproval";
+import { stripBotMention } from "./groupChats";
+import { FOLLOW_UP_INSTRUCTIONS, sendTelegramAnswer } from "./replies";
+import type { TelegramMessage } from "./types";
+
+// Telegram shows a chat action for five seconds.
+const TYPING_REFRESH_MS = 4000;
+
+// One conversation per chat, or per topic in forum supergroups.
+export const telegramThreadId = (message: TelegramMessage) =>
+  message.message_thread_id
+    ? `aurora-telegram/${message.chat.id}/${message.message_thread_id}`
+    : `aurora-telegram/${message.chat.id}`;
+
+const displayName = (message: TelegramMessage) =>
+  message.from?.username
+    ? `@${message.from.username}`
+    : (message.from?.first_name ?? "unknown");
+
+const telegramPrompt = (
+  message: TelegramMessage,
+  text: string,
+  threadId: string,
+) =>
+  auroraPrompt({
+    channel: "Telegram",
+    context: {
+      Platform: "Telegram",
+      Chat: message.chat.title ?? message.chat.type,
+      User: displayName(message),
+      Message: `"${text}"`,
+      Thread: threadId,
+    },
+    instructions: `Telegram shows your reply as plain text, so avoid Markdown tables and headings. ${FOLLOW_UP_INSTRUCTIONS}`,
+  });
+
+// Shows "typing…" until the returned function is called.
+function keepTyping(
+  api: TelegramBotApi,
+  message: TelegramMessage,
+  logger?: IMastraLogger,
+) {
+  const sendTyping = () =>
+    api
+      .sendChatAction(message.chat.id, "typing", message.message_thread_id)
+      .catch((error) => {
+        logger?.warn("⚠️ [Telegram] Error sending chat action", {
+          chatId: message.chat.id,
+          error: format(error),
+        });
+      });
+  void sendTyping();
+  const timer = setInterval(sendTyping, TYPING_REFRESH_MS);
+  return () => clearInterval(timer);
+}
+
+// Runs Aurora on a Telegram message and replies to it in the same chat.
+export async function answerTelegramMessage(
+  mastra: Mastra,
+  message: TelegramMessage,
+) {
+  const logger = mastra.getLogger();
+  const api = getTelegramBotApi();
+  const threadId = telegramThreadId(message);
+
+  logger?.info("🌟 [Telegram] Answering message", {
+    chatId: message.chat.id,
+    messageId: message.message_id,
+    threadId,
+  });
+
+  const stopTyping = keepTyping(api, message, logger);
+  let answer: AuroraAnswer;
+  try {
+    // In groups the message starts with "@AuroraBot"; Aurora only needs the
+    // question.
+    const bot = await getTelegramBotUser();
+    answer = await answerWithAurora(mastra, {
+      prompt: telegramPrompt(
+        message,
+        stripBotMention(message.text ?? "", bot),
+        threadId,
+      ),
+      resourceId: "aurora-telegram-bot",
+      threadId,
+    });
+  } catch (error) {
+    logger?.error("❌ [Telegram] Error generating response", {
+      threadId,
+      error: format(error),
+    });
+    answer = FALLBACK_ANSWER;
+  } finally {
+    stopTyping();
+  }
+  const { text, ethicsReview } = answer;
+
+  if (ethicsReview) {
+    await holdTelegramAnswer({
+      api,
+      message,
+      answer: text,
+      review: ethicsReview,
+      logger,
+    });
+    return { threadId, replyMessageIds: [], heldForEthicsReview: true };
+  }
+
+  const replyMessageIds = await sendTelegramAnswer(api, message, text);
+
+  logger?.info("✅ [Telegram] Reply sent", {
+    chatId: message.chat.id,
+    threadId,
+    messages: replyMessageIds.length,
+  });
+  return { threadId, replyMessageIds, heldForEthicsReview: false };
+}
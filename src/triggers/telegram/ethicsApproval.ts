@@ -0,0 +1,144 @@
+import type { IMastraLogger } from "@mastra/core/logger";
+
+import {
+  ETHICS_HOLD_NOTICE,
+  ETHICS_HOLD_TTL_MS,
+  type EthicsReview,
+} from "../../mastra/ethics";
+import { sharedKeyValueStore } from "../../mastra/storage";
+import { type TelegramBotApi, telegramBotId } from "./botApi";
+import { renderTelegramMessages } from "./renderTelegramMessage";
+import { sendTelegramAnswer } from "./replies";
+import type { TelegramCallbackQuery, TelegramMessage } from "./types";
+
+export const ETHICS_CALLBACK_PREFIX = "ethics:";
+
+type HeldAnswer = {
+  message: TelegramMessage;
+  answer: string;
+  review: EthicsReview;
+};
+
+// Both keyed by the user's message, "<chat id>:<message id>".
+const heldAnswerKey = (ref: string) =>
+  `telegram:ethics-hold:${telegramBotId()}:${ref}`;
+const decisionKey = (ref: string) =>
+  `telegram:ethics-decision:${telegramBotId()}:${ref}`;
+
+const userLabel = (user: { username?: string; first_name: string }) =>
+  user.username ? `@${user.username}` : user.first_name;
+
+// Stores the answer and asks the chat to approve or reject it.
+export async function holdTelegramAnswer({
+  api,
+  message,
+  answer,
+  review,
+  logger,
+}: {
+  api: TelegramBotApi;
+  message: TelegramMessage;
+  answer: string;
+  review: EthicsReview;
+  logger?: IMastraLogger;
+}) {
+  const ref = `${message.chat.id}:${message.message_id}`;
+  await sharedKeyValueStore.set<HeldAnswer>(
+    heldAnswerKey(ref),
+    { message, answer, review },
+    { ttlMs: ETHICS_HOLD_TTL_MS },
+  );
+  const [details] = renderTelegramMessages(
+    [
+      ETHICS_HOLD_NOTICE,
+      "",
+      `**${review.validationResult}**`,
+      review.riskAssessment,
+      ...review.interventions.map((item) => `- ${item}`),
+    ].join("\n"),
+  );
+  await api.sendMessage({
+    chat_id: message.chat.id,
+    text: details,
+    parse_mode: "HTML",
+    message_thread_id: message.message_thread_id,
+    reply_to_message_id: message.message_id,
+    allow_sending_without_reply: true,
+    reply_markup: {
+      inline_keyboard: [
+        [
+          {
+            text: "Approve",
+            callback_data: `${ETHICS_CALLBACK_PREFIX}approve:${ref}`,
+          },
+          {
+            text: "Reject",
+            callback_data: `${ETHICS_CALLBACK_PREFIX}reject:${ref}`,
+          },
+        ],
+      ],
+    },
+  });
+  logger?.info("🛡️ [Telegram] Answer held for ethics approval", {
+    chatId: message.chat.id,
+    messageId: message.message_id,
+    validationResult: review.validationResult,
+  });
+}
+
+// Handles the Approve and Reject buttons. Returns the notice shown to the
+// person who pressed the button.
+export async function resolveTelegramEthicsDecision({
+  api,
+  callbackQuery,
+  logger,
+}: {
+  api: TelegramBotApi;
+  callbackQuery: TelegramCallbackQuery;
+  logger?: IMastraLogger;
+}) {
+  const [decision, ...rest] = (callbackQuery.data ?? "")
+    .slice(ETHICS_CALLBACK_PREFIX.length)
+    .split(":");
+  const ref = rest.join(":");
+  const approved = decision === "approve";
+
+  // Guards against double taps and several people deciding at once.
+  const claimed = await sharedKeyValueStore.setIfAbsent(
+    decisionKey(ref),
+    { approved, userId: callbackQuery.from.id },
+    { ttlMs: ETHICS_HOLD_TTL_MS },
+  );
+  if (!claimed) {
+    return "This answer has already been reviewed.";
+  }
+  const held = await sharedKeyValueStore.get<HeldAnswer>(heldAnswerKey(ref));
+  if (!held) {
+    return "This review has expired.";
+  }
+
+  logger?.info("🛡️ [Telegram] Ethics decision received", {
+    ref,
+    approved,
+    userId: callbackQuery.from.id,
+  });
+
+  const decidedBy = userLabel(callbackQuery.from);
+  // Replace the buttons with the decision so it cannot be made twice
+  if (callbackQuery.message) {
+    await api.editMessageText({
+      chat_id: callbackQuery.message.chat.id,
+      message_id: callbackQuery.message.message_id,
+      text: `🛡️ ${approved ? "Approved" : "Rejected"} by ${decidedBy}`,
+    });
+  }
+  await sendTelegramAnswer(
+    api,
+    held.message,
+    approved
+      ? held.answer
+      : `◊ Aurora OS :: This answer was withheld after an ethics review by ${decidedBy}. ◊`,
+  );
+  await sharedKeyValueStore.delete(heldAnswerKey(ref));
+  return approved ? "Answer approved." : "Answer rejected.";
+}
@@ -0,0 +1,67 @@
+import type { TelegramMessage, TelegramUser } from "./types";
+
+const isGroupChat = (message: TelegramMessage) =>
+  message.chat.type === "group" || message.chat.type === "supergroup";
+
+const entityText = (
+  message: TelegramMessage,
+  entity: { offset: number; length: number },
+) => message.text?.slice(entity.offset, entity.offset + entity.length) ?? "";
+
+// Private chats are always answered. In groups Aurora only answers messages
+// that mention it or reply to one of its messages.
+export function isAddressedToBot(message: TelegramMessage, bot: TelegramUser) {
+  if (!isGroupChat(message)) {
+    return true;
+  }
+  if (message.reply_to_message?.from?.id === bot.id) {
+    return true;
+  }
+  const mention = `@${bot.username ?? ""}`.toLowerCase();
+  return (message.entities ?? []).some(
+    (entity) =>
+      (entity.type === "mention" &&
+        entityText(message, entity).toLowerCase() === mention) ||
+      (entity.type === "text_mention" && entity.user?.id === bot.id),
+  );
+}
+
+export function stripBotMention(text: string, bot: TelegramUser) {
+  if (!bot.username) {
+    return text;
+  }
+  return text
+    .replace(new RegExp(`@${bot.username}\\b`, "gi"), "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export type TelegramCommandInvocation = {
+  name: string;
+  args: string;
+  // Whether the command named the bot, as in /drift@AuroraBot.
+  addressed: boolean;
+};
+
+// Parses "/drift@AuroraBot some state". Returns null for messages that do
+// not start with a command and for commands addressed to other bots.
+export function parseTelegramCommand(
+  message: TelegramMessage,
+  bot: TelegramUser,
+): TelegramCommandInvocation | null {
+  const entity = message.entities?.find(
+    (entity) => entity.type === "bot_command" && entity.offset === 0,
+  );
+  if (!entity) {
+    return null;
+  }
+  const [name, target] = entityText(message, entity).slice(1).split("@");
+  if (target && target.toLowerCase() !== bot.username?.toLowerCase()) {
+    return null;
+  }
+  return {
+    name: name.toLowerCase(),
+    args: (message.text ?? "").slice(entity.length).trim(),
+    addressed: !!target,
+  };
+}
@@ -0,0 +1,153 @@
+import { format } from "node:util";
+import type { Mastra } from "@mastra/core";
+import { z } from "zod";
+
+import { receiveTelegramUpdate } from "../telegramTriggers";
+import { TelegramApiError, getTelegramBotApi } from "./botApi";
+import { parseTelegramUpdate } from "./types";
+import { TELEGRAM_ALLOWED_UPDATES } from "./webhookAdmin";
+
+// Seconds Telegram holds each getUpdates request open while there are no
+// updates.
+const DEFAULT_POLL_TIMEOUT_SECONDS = 30;
+const MIN_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 60_000;
+
+// TELEGRAM_UPDATE_MODE=polling receives updates with getUpdates instead of
+// the webhook, for laptops and CI without a public HTTPS URL.
+export const isTelegramPollingEnabled = () =>
+  process.env.TELEGRAM_UPDATE_MODE === "polling" &&
+  !!process.env.TELEGRAM_BOT_TOKEN;
+
+function pollTimeoutSeconds() {
+  const seconds = Number(process.env.TELEGRAM_POLL_TIMEOUT_SECONDS);
+  return Number.isInteger(seconds) && seconds >= 0
+    ? seconds
+    : DEFAULT_POLL_TIMEOUT_SECONDS;
+}
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true },
+    );
+  });
+
+export type TelegramPoller = {
+  stop: () => Promise<void>;
+};
+
+let runningPoller: TelegramPoller | undefined;
+
+// Polls getUpdates until stopped and hands each update to the same code
+// path as the webhook. The offset confirms every update before it, so
+// Telegram only redelivers the last batch after a restart, and those are
+// skipped as duplicates.
+export function startTelegramPolling(mastra: Mastra): TelegramPoller {
+  if (runningPoller) {
+    return runningPoller;
+  }
+  const logger = mastra.getLogger();
+  const api = getTelegramBotApi();
+  const controller = new AbortController();
+  const timeout = pollTimeoutSeconds();
+
+  const run = async () => {
+    let offset: number | undefined;
+    let retryDelayMs = MIN_RETRY_DELAY_MS;
+    logger?.info("📡 [Telegram] Long polling started", { timeout });
+
+    while (!controller.signal.aborted) {
+      let updates: unknown[];
+      try {
+        updates = await api.getUpdates(
+          { offset, timeout, allowed_updates: TELEGRAM_ALLOWED_UPDATES },
+          controller.signal,
+        );
+      } catch (error) {
+        if (controller.signal.aborted) {
+          break;
+        }
+        if (error instanceof TelegramApiError && error.errorCode === 409) {
+          // Polling and a webhook cannot be used together.
+          logger?.error(
+            "❌ [Telegram] getUpdates conflicts with a webhook or another poller; remove the webhook with DELETE /admin/telegram/webhook",
+            { description: error.description },
+          );
+          break;
+        }
+        if (error instanceof TelegramApiError && error.errorCode === 401) {
+          logger?.error("❌ [Telegram] Bot token rejected, polling stopped");
+          break;
+        }
+        const delayMs =
+          error instanceof TelegramApiError && error.retryAfter
+            ? error.retryAfter * 1000
+            : retryDelayMs;
+        logger?.warn("⚠️ [Telegram] getUpdates failed, retrying", {
+          delayMs,
+          error: format(error),
+        });
+        await sleep(delayMs, controller.signal);
+        retryDelayMs = Math.min(retryDelayMs * 2, MAX_RETRY_DELAY_MS);
+        continue;
+      }
+
+      let failed = false;
+      for (const payload of updates) {
+        const updateId = (payload as { update_id?: unknown })?.update_id;
+        try {
+          await receiveTelegramUpdate(parseTelegramUpdate(payload), logger);
+        } catch (error) {
+          if (!(error instanceof z.ZodError)) {
+            // The offset stays at this update, so the next getUpdates
+            // returns it again, as a webhook would see it redelivered.
+            logger?.warn(
+              "⚠️ [Telegram] Error handling polled update, retrying",
+              {
+                updateId,
+                delayMs: retryDelayMs,
+                error: format(error),
+              },
+            );
+            failed = true;
+            break;
+          }
+          // Skipped rather than retried, as a webhook would answer 400.
+          logger?.error("❌ [Telegram] Skipping malformed polled update", {
+            updateId,
+            error: error.issues,
+          });
+        }
+        if (typeof updateId === "number") {
+          offset = Math.max(offset ?? 0, updateId + 1);
+        }
+      }
+      if (failed) {
+        await sleep(retryDelayMs, controller.signal);
+        retryDelayMs = Math.min(retryDelayMs * 2, MAX_RETRY_DELAY_MS);
+      } else {
+        retryDelayMs = MIN_RETRY_DELAY_MS;
+      }
+    }
+
+    logger?.info("📡 [Telegram] Long polling stopped");
+  };
+
+  const done = run().finally(() => {
+    runningPoller = undefined;
+  });
+  runningPoller = {
+    stop: async () => {
+      controller.abort();
+      await done;
+    },
+  };
+  return runningPoller;
+}
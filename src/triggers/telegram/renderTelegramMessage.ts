@@ -0,0 +1,93 @@
+import { splitText } from "../splitText";
+
+// Telegram's limit is 4096 characters after entity parsing; the Markdown is
+// split below it so HTML escaping cannot push a piece over.
+const MARKDOWN_PIECE_LIMIT = 3500;
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>]/g, (char) =>
+    char === "&" ? "&amp;" : char === "<" ? "&lt;" : "&gt;",
+  );
+
+const escapeAttribute = (text: string) =>
+  escapeHtml(text).replace(/"/g, "&quot;");
+
+// Inline Markdown (code, links, bold, italics) to Telegram HTML. Code spans
+// are converted first so their content is left alone.
+function convertInline(text: string) {
+  return text
+    .split(/(`[^`]+`)/)
+    .map((part) => {
+      if (part.length > 1 && part.startsWith("`") && part.endsWith("`")) {
+        return `<code>${escapeHtml(part.slice(1, -1))}</code>`;
+      }
+      return escapeHtml(part)
+        .replace(
+          /\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g,
+          (_, label, url) => `<a href="${escapeAttribute(url)}">${label}</a>`,
+        )
+        .replace(/\*\*(.+?)\*\*/g, "<b>$1</b>")
+        .replace(/(^|[\s(])_(\S(?:.*?\S)?)_(?=$|[\s).,!?:;])/g, "$1<i>$2</i>");
+    })
+    .join("");
+}
+
+const isTableRow = (line: string) => /^\s*\|.*\|\s*$/.test(line);
+const isTableSeparator = (line: string) => /^\s*\|[\s:|-]+\|\s*$/.test(line);
+
+// Converts one piece of Markdown. Headings become bold lines, bullets get a
+// bullet character, and code blocks and tables become preformatted text.
+function markdownToTelegramHtml(markdown: string) {
+  const output: string[] = [];
+  const lines = markdown.split("\n");
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.trimStart().startsWith("```")) {
+      const code: string[] = [];
+      for (
+        i++;
+        i < lines.length && !lines[i].trimStart().startsWith("```");
+        i++
+      ) {
+        code.push(lines[i]);
+      }
+      output.push(`<pre>${escapeHtml(code.join("\n"))}</pre>`);
+      continue;
+    }
+    if (isTableRow(line)) {
+      const rows: string[] = [];
+      for (; i < lines.length && isTableRow(lines[i]); i++) {
+        if (!isTableSeparator(lines[i])) {
+          rows.push(
+            lines[i]
+              .trim()
+              .replace(/^\||\|$/g, "")
+              .split("|")
+              .map((cell) => cell.trim())
+              .join(" · "),
+          );
+        }
+      }
+      i--;
+      output.push(`<pre>${escapeHtml(rows.join("\n"))}</pre>`);
+      continue;
+    }
+    const heading = line.match(/^#{1,6}\s+(.*)$/);
+    if (heading) {
+      output.push(`<b>${convertInline(heading[1])}</b>`);
+      continue;
+    }
+    const bullet = line.match(/^(\s*)[-*]\s+(.*)$/);
+    if (bullet) {
+      output.push(`${bullet[1]}• ${convertInline(bullet[2])}`);
+      continue;
+    }
+    output.push(convertInline(line));
+  }
+  return output.join("\n");
+}
+
+// Renders Markdown as HTML messages for sendMessage with parse_mode "HTML".
+export function renderTelegramMessages(markdown: string) {
+  return splitText(markdown, MARKDOWN_PIECE_LIMIT).map(markdownToTelegramHtml);
+}
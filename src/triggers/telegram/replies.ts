@@ -0,0 +1,102 @@
+import { splitText } from "../splitText";
+import { sharedKeyValueStore } from "../../mastra/storage";
+import {
+  type InlineKeyboardMarkup,
+  type TelegramBotApi,
+  telegramBotId,
+} from "./botApi";
+import type { TelegramMessage } from "./types";
+
+const TELEGRAM_MESSAGE_LIMIT = 4096;
+const MAX_FOLLOW_UPS = 3;
+const FOLLOW_UP_BUTTON_LIMIT = 60;
+const FOLLOW_UP_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const FOLLOW_UP_CALLBACK_PREFIX = "followup:";
+
+// Appended to Telegram prompts; the suggestions become inline buttons.
+export const FOLLOW_UP_INSTRUCTIONS = `End your reply with up to ${MAX_FOLLOW_UPS} short follow-up questions the user might ask next, each on its own line starting with "→ ".`;
+
+// Splits the trailing "→ question" lines off Aurora's answer.
+export function extractFollowUps(text: string) {
+  const lines = text.trimEnd().split("\n");
+  const followUps: string[] = [];
+  while (lines.length && /^\s*(→|->)\s+\S/.test(lines[lines.length - 1])) {
+    followUps.unshift(
+      lines
+        .pop()!
+        .replace(/^\s*(→|->)\s+/, "")
+        .trim(),
+    );
+  }
+  // Drop a heading such as "Follow-up questions:" left above the list.
+  if (followUps.length && /follow-?ups?.*:\s*$/i.test(lines.at(-1) ?? "")) {
+    lines.pop();
+  }
+  return {
+    text: lines.join("\n").trimEnd(),
+    followUps: followUps.slice(0, MAX_FOLLOW_UPS),
+  };
+}
+
+const followUpKey = (chatId: number, messageId: number) =>
+  `telegram:follow-ups:${telegramBotId()}:${chatId}:${messageId}`;
+
+// The suggestion behind a follow-up button on one of Aurora's messages.
+export async function getFollowUp(
+  chatId: number,
+  messageId: number,
+  index: number,
+) {
+  const followUps = await sharedKeyValueStore.get<string[]>(
+    followUpKey(chatId, messageId),
+  );
+  return followUps?.[index] ?? null;
+}
+
+function followUpKeyboard(followUps: string[]): InlineKeyboardMarkup {
+  return {
+    inline_keyboard: followUps.map((question, index) => [
+      {
+        text:
+          question.length > FOLLOW_UP_BUTTON_LIMIT
+            ? `${question.slice(0, FOLLOW_UP_BUTTON_LIMIT - 1)}…`
+            : question,
+        callback_data: `${FOLLOW_UP_CALLBACK_PREFIX}${index}`,
+      },
+    ]),
+  };
+}
+
+// Sends Aurora's answer as replies to the message, splitting long answers.
+// Follow-up suggestions become buttons under the last part.
+export async function sendTelegramAnswer(
+  api: TelegramBotApi,
+  message: TelegramMessage,
+  answer: string,
+) {
+  const { text, followUps } = extractFollowUps(answer);
+  const pieces = splitText(text || answer, TELEGRAM_MESSAGE_LIMIT);
+  const replyMessageIds: number[] = [];
+  for (const [index, piece] of pieces.entries()) {
+    const isLast = index === pieces.length - 1;
+    const sent = await api.sendMessage({
+      chat_id: message.chat.id,
+      text: piece,
+      message_thread_id: message.message_thread_id,
+      reply_to_message_id: message.message_id,
+      allow_sending_without_reply: true,
+      reply_markup:
+        isLast && followUps.length ? followUpKeyboard(followUps) : undefined,
+    });
+    replyMessageIds.push(sent.message_id);
+    if (isLast && followUps.length) {
+      await sharedKeyValueStore.set(
+        followUpKey(message.chat.id, sent.message_id),
+        followUps,
+        { ttlMs: FOLLOW_UP_TTL_MS },
+      );
+    }
+  }
+  return replyMessageIds;
+}
@@ -0,0 +1,140 @@
+import { z } from "zod";
+
+// The subset of the Telegram Bot API types Aurora uses, see
+// https://core.telegram.org/bots/api#available-types. Unknown fields are
+// kept, so payloads can be passed on unchanged.
+
+export const telegramUserSchema = z
+  .object({
+    id: z.number(),
+    is_bot: z.boolean(),
+    first_name: z.string(),
+    last_name: z.string().optional(),
+    username: z.string().optional(),
+    language_code: z.string().optional(),
+  })
+  .passthrough();
+
+export const telegramChatSchema = z
+  .object({
+    id: z.number(),
+    type: z.enum(["private", "group", "supergroup", "channel"]),
+    title: z.string().optional(),
+    username: z.string().optional(),
+  })
+  .passthrough();
+
+const telegramMessageEntitySchema = z
+  .object({
+    type: z.string(),
+    offset: z.number(),
+    length: z.number(),
+    user: telegramUserSchema.optional(),
+  })
+  .passthrough();
+
+const telegramMessageFields = {
+  message_id: z.number(),
+  // Topic in forum supergroups.
+  message_thread_id: z.number().optional(),
+  from: telegramUserSchema.optional(),
+  sender_chat: telegramChatSchema.optional(),
+  chat: telegramChatSchema,
+  date: z.number(),
+  edit_date: z.number().optional(),
+  text: z.string().optional(),
+  entities: z.array(telegramMessageEntitySchema).optional(),
+  caption: z.string().optional(),
+};
+
+// reply_to_message never has a reply_to_message of its own.
+export const telegramMessageSchema = z
+  .object({
+    ...telegramMessageFields,
+    reply_to_message: z.object(telegramMessageFields).passthrough().optional(),
+  })
+  .passthrough();
+
+export const telegramCallbackQuerySchema = z
+  .object({
+    id: z.string(),
+    from: telegramUserSchema,
+    // Absent for messages sent in inline mode, and only { chat, message_id,
+    // date: 0 } for messages older than 48 hours.
+    message: telegramMessageSchema.optional(),
+    inline_message_id: z.string().optional(),
+    chat_instance: z.string(),
+    data: z.string().optional(),
+  })
+  .passthrough();
+
+export const telegramChatMemberUpdatedSchema = z
+  .object({
+    chat: telegramChatSchema,
+    from: telegramUserSchema,
+    date: z.number(),
+    old_chat_member: z.object({ status: z.string() }).passthrough(),
+    new_chat_member: z.object({ status: z.string() }).passthrough(),
+  })
+  .passthrough();
+
+export type TelegramUser = z.infer<typeof telegramUserSchema>;
+export type TelegramChat = z.infer<typeof telegramChatSchema>;
+export type TelegramMessage = z.infer<typeof telegramMessageSchema>;
+export type TelegramCallbackQuery = z.infer<typeof telegramCallbackQuerySchema>;
+export type TelegramChatMemberUpdated = z.infer<
+  typeof telegramChatMemberUpdatedSchema
+>;
+
+export type TelegramChatAction = "typing" | "upload_document";
+
+// An update carries exactly one of these fields; `type` names it.
+export type TelegramUpdate = { update_id: number } & (
+  | { type: "message"; message: TelegramMessage }
+  | { type: "edited_message"; message: TelegramMessage }
+  | { type: "channel_post"; message: TelegramMessage }
+  | { type: "edited_channel_post"; message: TelegramMessage }
+  | { type: "callback_query"; callbackQuery: TelegramCallbackQuery }
+  | { type: "my_chat_member"; chatMember: TelegramChatMemberUpdated }
+  // Update kinds Aurora does not handle (inline queries, polls, ...).
+  | { type: "unsupported"; fields: string[] }
+);
+
+const MESSAGE_UPDATE_TYPES = [
+  "message",
+  "edited_message",
+  "channel_post",
+  "edited_channel_post",
+] as const;
+
+const updateIdSchema = z.object({ update_id: z.number().int() }).passthrough();
+
+// Parses a webhook or getUpdates payload. Throws a ZodError when the update
+// or its content is malformed.
+export function parseTelegramUpdate(payload: unknown): TelegramUpdate {
+  const { update_id, ...fields } = updateIdSchema.parse(payload);
+  for (const type of MESSAGE_UPDATE_TYPES) {
+    if (fields[type] !== undefined) {
+      return {
+        update_id,
+        type,
+        message: telegramMessageSchema.parse(fields[type]),
+      };
+    }
+  }
+  if (fields.callback_query !== undefined) {
+    return {
+      update_id,
+      type: "callback_query",
+      callbackQuery: telegramCallbackQuerySchema.parse(fields.callback_query),
+    };
+  }
+  if (fields.my_chat_member !== undefined) {
+    return {
+      update_id,
+      type: "my_chat_member",
+      chatMember: telegramChatMemberUpdatedSchema.parse(fields.my_chat_member),
+    };
+  }
+  return { update_id, type: "unsupported", fields: Object.keys(fields) };
+}
@@ -0,0 +1,75 @@
+import { timingSafeEqual } from "node:crypto";
+import type { IMastraLogger } from "@mastra/core/logger";
+import type { Context } from "hono";
+
+// Telegram sends the secret_token given to setWebhook in this header with
+// every update.
+const SECRET_TOKEN_HEADER = "x-telegram-bot-api-secret-token";
+
+export type TelegramSecretVerification =
+  | { ok: true }
+  | {
+      ok: false;
+      reason: "missing_secret" | "missing_header" | "invalid_token";
+    };
+
+export function verifyTelegramSecretToken({
+  secret,
+  token,
+}: {
+  secret: string | undefined;
+  token: string | undefined;
+}): TelegramSecretVerification {
+  if (!secret) {
+    return { ok: false, reason: "missing_secret" };
+  }
+  if (!token) {
+    return { ok: false, reason: "missing_header" };
+  }
+  const expected = Buffer.from(secret);
+  const received = Buffer.from(token);
+  if (
+    expected.length !== received.length ||
+    !timingSafeEqual(expected, received)
+  ) {
+    return { ok: false, reason: "invalid_token" };
+  }
+  return { ok: true };
+}
+
+// Local development (e.g. replaying updates with curl) can opt out of
+// verification. The flag is ignored in production.
+function isVerificationBypassed() {
+  return (
+    process.env.NODE_ENV !== "production" &&
+    process.env.TELEGRAM_SKIP_SECRET_VERIFICATION === "true"
+  );
+}
+
+// Checks that the request came from Telegram. Returns false after logging
+// when it must be rejected.
+export function isVerifiedTelegramRequest(
+  c: Context,
+  logger: IMastraLogger | undefined,
+) {
+  if (isVerificationBypassed()) {
+    logger?.warn(
+      "⚠️ [Telegram] Secret token verification bypassed (TELEGRAM_SKIP_SECRET_VERIFICATION)",
+      { path: c.req.path },
+    );
+    return true;
+  }
+
+  const verification = verifyTelegramSecretToken({
+    secret: process.env.TELEGRAM_WEBHOOK_SECRET,
+    token: c.req.header(SECRET_TOKEN_HEADER),
+  });
+  if (!verification.ok) {
+    logger?.warn("🚫 [Telegram] Rejected request with invalid secret token", {
+      path: c.req.path,
+      reason: verification.reason,
+    });
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,106 @@
+import { format } from "node:util";
+import type { Context } from "hono";
+
+import { requireAdminToken } from "../adminAuth";
+import type { ApiRoute } from "../slackTriggers";
+import { TelegramApiError, getTelegramBotApi } from "./botApi";
+import { telegramBotCommands } from "./commands";
+
+export const TELEGRAM_WEBHOOK_PATH = "/webhooks/telegram/action";
+
+// The update kinds Aurora handles; Telegram drops the others.
+export const TELEGRAM_ALLOWED_UPDATES = [
+  "message",
+  "edited_message",
+  "callback_query",
+  "my_chat_member",
+];
+
+// TELEGRAM_WEBHOOK_URL overrides the URL derived from the admin request,
+// e.g. behind a proxy that rewrites the host.
+function webhookUrl(c: Context) {
+  return (
+    process.env.TELEGRAM_WEBHOOK_URL ??
+    new URL(TELEGRAM_WEBHOOK_PATH, c.req.url).toString()
+  );
+}
+
+async function withBotApi(
+  c: Context,
+  action: (api: ReturnType<typeof getTelegramBotApi>) => Promise<unknown>,
+) {
+  try {
+    return c.json({ ok: true, result: await action(getTelegramBotApi()) });
+  } catch (error) {
+    c.get("mastra")
+      ?.getLogger()
+      ?.error("❌ [Telegram] Webhook admin call failed", {
+        path: c.req.path,
+        method: c.req.method,
+        error: format(error),
+      });
+    const status = error instanceof TelegramApiError ? 502 : 500;
+    return c.json(
+      { ok: false, error: error instanceof Error ? error.message : "failed" },
+      status,
+    );
+  }
+}
+
+// Operator routes for the bot's webhook, guarded by AURORA_ADMIN_TOKEN:
+//   GET    /admin/telegram/webhook  getWebhookInfo
+//   POST   /admin/telegram/webhook  setWebhook ({ url?, dropPendingUpdates? })
+//                                   and setMyCommands
+//   DELETE /admin/telegram/webhook  deleteWebhook ({ dropPendingUpdates? })
+export function registerTelegramWebhookAdmin(): Array<ApiRoute> {
+  const path = "/admin/telegram/webhook";
+  return [
+    {
+      path,
+      method: "GET",
+      middleware: requireAdminToken,
+      handler: (c) => withBotApi(c, (api) => api.getWebhookInfo()),
+    },
+    {
+      path,
+      method: "POST",
+      middleware: requireAdminToken,
+      handler: async (c) => {
+        const body = await c.req.json().catch(() => ({}));
+        const secret = process.env.TELEGRAM_WEBHOOK_SECRET;
+        if (!secret) {
+          return c.json(
+            { ok: false, error: "Set TELEGRAM_WEBHOOK_SECRET first" },
+            400,
+          );
+        }
+        const url: string = body.url ?? webhookUrl(c);
+        return withBotApi(c, async (api) => {
+          await api.setWebhook({
+            url,
+            secret_token: secret,
+            allowed_updates: TELEGRAM_ALLOWED_UPDATES,
+            drop_pending_updates: body.dropPendingUpdates === true,
+          });
+          await api.setMyCommands(telegramBotCommands());
+          return api.getWebhookInfo();
+        });
+      },
+    },
+    {
+      path,
+      method: "DELETE",
+      middleware: requireAdminToken,
+      handler: async (c) => {
+        const body = await c.req.json().catch(() => ({}));
+        return withBotApi(c, async (api) => {
+          await api.deleteWebhook({
+            drop_pending_updates: body.dropPendingUpdates === true,
+          });
+          await api.setMyCommands(telegramBotCommands());
+          return api.getWebhookInfo();
+        });
+      },
+    },
+  ];
+}
@@ -1,7 +1,36 @@
-import type { ContentfulStatusCode } from "hono/utils/http-status";
-
-import { registerApiRoute } from "../mastra/inngest";
+import { format } from "node:util";
 import { Mastra } from "@mastra/core";
+import type { IMastraLogger } from "@mastra/core/logger";
+import { z } from "zod";
+
+import {
+  inngest,
+  registerApiRoute,
+  registerInngestFunction,
+} from "../mastra/inngest";
+import { type KeyValueStore, sharedKeyValueStore } from "../mastra/storage";
+import type { ApiRoute } from "./slackTriggers";
+import { getTelegramBotUser, telegramBotId } from "./telegram/botApi";
+import { handleTelegramCallback } from "./telegram/callbacks";
+import {
+  isKnownTelegramCommand,
+  runTelegramCommand,
+} from "./telegram/commands";
+import {
+  type TelegramCommandInvocation,
+  isAddressedToBot,
+  parseTelegramCommand,
+} from "./telegram/groupChats";
+import {
+  type TelegramMessage,
+  type TelegramUpdate,
+  parseTelegramUpdate,
+} from "./telegram/types";
+import { isVerifiedTelegramRequest } from "./telegram/verifySecretToken";
+import {
+  TELEGRAM_WEBHOOK_PATH,
+  registerTelegramWebhookAdmin,
+} from "./telegram/webhookAdmin";
 
 if (!process.env.TELEGRAM_BOT_TOKEN) {
   console.warn(
@@ -15,9 +44,128 @@ export type TriggerInfoTelegramOnNewMessage = {
     userName: string;
     message: string;
   };
-  payload: any;
+  payload: Extract<TelegramUpdate, { type: "message" }>;
 };
 
+// Telegram redelivers an update until it is acknowledged, for up to a day.
+const TELEGRAM_UPDATE_DEDUP_TTL_MS = 24 * 60 * 60 * 1000;
+
+const telegramUpdateKey = (updateId: number) =>
+  `telegram:update:${telegramBotId()}:${updateId}`;
+
+// Claims the update in the shared store. Returns true if it was already
+// claimed by an earlier delivery.
+async function checkDuplicateUpdate({
+  updateId,
+  store,
+  logger,
+}: {
+  updateId: number;
+  store: KeyValueStore;
+  logger?: IMastraLogger;
+}) {
+  try {
+    const claimed = await store.setIfAbsent(
+      telegramUpdateKey(updateId),
+      { receivedAt: new Date().toISOString() },
+      { ttlMs: TELEGRAM_UPDATE_DEDUP_TTL_MS },
+    );
+    if (!claimed) {
+      logger?.info("🔁 [Telegram] Skipping duplicate update", { updateId });
+    }
+    return !claimed;
+  } catch (error) {
+    // Telegram does not mark redeliveries, so answer rather than drop it.
+    logger?.error("❌ [Telegram] Error checking for duplicate update", {
+      updateId,
+      error: format(error),
+    });
+    return false;
+  }
+}
+
+const isAnswerable = (message: TelegramMessage) =>
+  !!message.text && !message.from?.is_bot;
+
+// Picks the background event for an update, or null when Aurora ignores it.
+// In groups Aurora answers only mentions and replies, and commands only when
+// they are its own or name it.
+async function routeTelegramUpdate(update: TelegramUpdate) {
+  if (update.type === "callback_query") {
+    return { name: "telegram/callback.received", data: { update } };
+  }
+  // Edits and channel posts are not answered.
+  if (update.type !== "message" || !isAnswerable(update.message)) {
+    return null;
+  }
+  const { message } = update;
+  const bot = await getTelegramBotUser();
+  const invocation = parseTelegramCommand(message, bot);
+  if (invocation) {
+    if (
+      !invocation.addressed &&
+      message.chat.type !== "private" &&
+      !isKnownTelegramCommand(invocation.name)
+    ) {
+      return null;
+    }
+    return {
+      name: "telegram/command.received",
+      data: { message, invocation },
+    };
+  }
+  if (!isAddressedToBot(message, bot)) {
+    return null;
+  }
+  return { name: "telegram/update.received", data: { update } };
+}
+
+// Queues the update for the background functions. Shared by the webhook and
+// the long-polling runner.
+export async function receiveTelegramUpdate(
+  update: TelegramUpdate,
+  logger?: IMastraLogger,
+) {
+  logger?.info("📝 [Telegram] update", {
+    updateId: update.update_id,
+    type: update.type,
+  });
+
+  const event = await routeTelegramUpdate(update);
+  if (!event) {
+    return;
+  }
+
+  if (
+    await checkDuplicateUpdate({
+      updateId: update.update_id,
+      store: sharedKeyValueStore,
+      logger,
+    })
+  ) {
+    return;
+  }
+
+  // The update id doubles as Inngest's idempotency key.
+  try {
+    await inngest.send({
+      id: `telegram-${telegramBotId()}-${update.update_id}`,
+      ...event,
+    });
+  } catch (error) {
+    // Released so that the redelivery is queued instead of being skipped.
+    await sharedKeyValueStore
+      .delete(telegramUpdateKey(update.update_id))
+      .catch((releaseError) =>
+        logger?.error("❌ [Telegram] Error releasing update claim", {
+          updateId: update.update_id,
+          error: format(releaseError),
+        }),
+      );
+    throw error;
+  }
+}
+
 export function registerTelegramTrigger({
   triggerType,
   handler,
@@ -27,33 +175,113 @@ export function registerTelegramTrigger({
     mastra: Mastra,
     triggerInfo: TriggerInfoTelegramOnNewMessage,
   ) => Promise<void>;
-}) {
+}): Array<ApiRoute> {
+  // Telegram redelivers updates that are not acknowledged quickly, and holds
+  // back the chat's later updates meanwhile. The webhook only enqueues the
+  // update; this function runs the handler in the background.
+  registerInngestFunction((mastra) =>
+    inngest.createFunction(
+      {
+        id: "telegram-process-update",
+        name: "Process Telegram update",
+        // Re-running the handler could send a second reply.
+        retries: 0,
+      },
+      { event: "telegram/update.received" },
+      async ({ event, step }) => {
+        const update = event.data.update as TelegramUpdate;
+        if (update.type !== "message") {
+          return { status: "skipped" };
+        }
+        await step.run("run trigger handler", () =>
+          handler(mastra, {
+            type: triggerType,
+            params: {
+              userName: update.message.from?.username,
+              message: update.message.text,
+            },
+            payload: update,
+          } as TriggerInfoTelegramOnNewMessage),
+        );
+        return { status: "handled" };
+      },
+    ),
+  );
+
+  registerInngestFunction((mastra) =>
+    inngest.createFunction(
+      {
+        id: "telegram-run-command",
+        name: "Run Aurora Telegram command",
+        retries: 0,
+      },
+      { event: "telegram/command.received" },
+      async ({ event, step }) => {
+        const { message, invocation } = event.data as {
+          message: TelegramMessage;
+          invocation: TelegramCommandInvocation;
+        };
+        await step.run("run command", () =>
+          runTelegramCommand(mastra, message, invocation),
+        );
+        return { status: "handled" };
+      },
+    ),
+  );
+
+  registerInngestFunction((mastra) =>
+    inngest.createFunction(
+      {
+        id: "telegram-handle-callback",
+        name: "Handle Telegram callback query",
+        // Approving twice is guarded, but a follow-up would be answered twice.
+        retries: 0,
+      },
+      { event: "telegram/callback.received" },
+      async ({ event, step }) => {
+        const update = event.data.update as TelegramUpdate;
+        if (update.type !== "callback_query") {
+          return { status: "skipped" };
+        }
+        await step.run("handle callback", () =>
+          handleTelegramCallback(mastra, update.callbackQuery),
+        );
+        return { status: "handled" };
+      },
+    ),
+  );
+
   return [
-    registerApiRoute("/webhooks/telegram/action", {
+    registerApiRoute(TELEGRAM_WEBHOOK_PATH, {
       method: "POST",
       handler: async (c) => {
         const mastra = c.get("mastra");
         const logger = mastra.getLogger();
         try {
-          const payload = await c.req.json();
+          if (!isVerifiedTelegramRequest(c, logger)) {
+            return c.text("Unauthorized", 401);
+          }
 
-          logger?.info("📝 [Telegram] payload", payload);
-
-          await handler(mastra, {
-            type: triggerType,
-            params: {
-              userName: payload.message.from.username,
-              message: payload.message.text,
-            },
-            payload,
-          } as TriggerInfoTelegramOnNewMessage);
+          let update: TelegramUpdate;
+          try {
+            update = parseTelegramUpdate(await c.req.json());
+          } catch (error) {
+            logger?.warn("⚠️ [Telegram] Rejected malformed update", {
+              error: error instanceof z.ZodError ? error.issues : format(error),
+            });
+            return c.text("Bad Request", 400);
+          }
 
+          await receiveTelegramUpdate(update, logger);
           return c.text("OK", 200);
         } catch (error) {
-          logger?.error("Error handling Telegram webhook:", error);
+          logger?.error("Error handling Telegram webhook:", {
+            error: format(error),
+          });
           return c.text("Internal Server Error", 500);
         }
       },
     }),
+    ...registerTelegramWebhookAdmin(),
   ];
 }